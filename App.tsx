@@ -1,27 +1,176 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo, useSyncExternalStore } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { Message, Role, ReasoningMode } from './types';
-import { streamGeminiResponse } from './services/geminiService'; // Actually calls DeepSeek via OpenRouter
+import {
+  Message, Role, ReasoningMode, Conversation, ReasoningReplay, TestCase, MessageArtifact, ImageAttachment, PromptContent,
+  ContextSummary
+} from './types';
+import { StreamOptions, streamWithRetry, resolveSystemPrompt, planRequestContext } from './services/geminiService'; // Actually calls the configured OpenAI-compatible provider
+import {
+  listConversations, saveConversation, deleteConversation, createConversation,
+  deriveConversationTitle, sortConversations
+} from './services/conversationStore';
+import {
+  buildChildrenIndex, findLatestLeaf, getActivePath, getSiblings, getSubtreeIds, migrateLinearMessages
+} from './services/messageTree';
+import {
+  ProviderConfig, AuthScheme, DEFAULT_PROVIDER_ID, getBuiltInProvider, loadProviders, saveProviders,
+  loadActiveProviderId, saveActiveProviderId, loadProviderApiKey, saveProviderApiKey,
+  loadProviderModelId, saveProviderModelId, providerRequiresKey
+} from './services/providers';
+import { RetryConfig, loadRetryConfig, saveRetryConfig } from './services/retry';
+import {
+  ContextConfig, ContextPolicy, loadContextConfig, saveContextConfig, getContextLimit, saveContextLimitOverride,
+  getOutputReserve, estimateTokens, estimatePromptTokens
+} from './services/tokenBudget';
+import { DEFAULT_REASONING_REPLAY, REASONING_REPLAY_LABELS, estimateReplayedHistoryTokens } from './services/reasoningReplay';
+import {
+  BudgetConfig, KeyCredits, loadBudgetConfig, saveBudgetConfig, getModelPricing, getModelPricingOverride,
+  saveModelPricingOverride, fetchKeyCredits, computeUsageCost,
+  getConversationCost, getDailySpend, recordSpend, checkBudget, formatCost
+} from './services/pricing';
+import {
+  fetchModelCatalog, getCatalogRevision, isCatalogStale, subscribeCatalog, supportsImageInput, validateModelId
+} from './services/modelCatalog';
+import { ModeDefinition, DEFAULT_MODE_ID, loadModes, saveModes, getMode } from './services/modeRegistry';
+import { PromptTemplate, loadTemplates, saveTemplates } from './services/promptTemplates';
+import { exportConversationJson, exportConversationMarkdown, importConversation } from './services/conversationTransfer';
+import { buildMessageContent, getPromptParts, withMessageText } from './services/messageArtifacts';
+import { updateContextSummary } from './services/contextSummary';
+import {
+  CompareRun, CompareColumn, MIN_COMPARE_MODELS, loadCompareModelIds, saveCompareModelIds, createCompareRun, compareColumnToMessage
+} from './services/compareRun';
+import {
+  SamplingConfig, SamplingRun, SampleResult, loadSamplingConfig, saveSamplingConfig, supportsVoting, createSamplingRun,
+  extractFinalAnswer, tallyVotes, getVoteSummary, sampleToMessage, runWithConcurrency, estimateCompletionTokens,
+  estimateSamplingCost
+} from './services/selfConsistency';
 import ChatMessage from './components/ChatMessage';
 import ChatInput from './components/ChatInput';
-import { BrainIcon, TrashIcon, CpuIcon, DownloadIcon, SettingsIcon, KeyIcon, RefreshIcon } from './components/Icons';
-
-const DEFAULT_MODEL_ID = "deepseek/deepseek-v3.2-speciale";
+import ConversationSidebar from './components/ConversationSidebar';
+import ModelPicker from './components/ModelPicker';
+import ModeManager from './components/ModeManager';
+import TemplateManager from './components/TemplateManager';
+import DatasetExportDialog from './components/DatasetExportDialog';
+import SearchDialog from './components/SearchDialog';
+import TestHarnessPanel from './components/TestHarnessPanel';
+import CompareSetupDialog from './components/CompareSetupDialog';
+import CompareView from './components/CompareView';
+import SamplingSetupDialog from './components/SamplingSetupDialog';
+import SamplingView from './components/SamplingView';
+import { BrainIcon, PlusIcon, CpuIcon, DownloadIcon, SettingsIcon, KeyIcon, RefreshIcon, MenuIcon, CoinIcon, ColumnsIcon, VoteIcon } from './components/Icons';
 
 function App() {
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<Message[]>([]); // All branches of the active conversation
+  const [activeLeafId, setActiveLeafId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [mode, setMode] = useState<ReasoningMode>('general');
+  const [mode, setMode] = useState<ReasoningMode>(DEFAULT_MODE_ID);
+  const [modes, setModes] = useState<ModeDefinition[]>(loadModes);
+  const [showModeManager, setShowModeManager] = useState(false);
+  const [templates, setTemplates] = useState<PromptTemplate[]>(loadTemplates);
+  const [showTemplateManager, setShowTemplateManager] = useState(false);
+  const activeMode = getMode(modes, mode);
   const [timerMs, setTimerMs] = useState(0);
-  const [apiKey, setApiKey] = useState(localStorage.getItem('openrouter_api_key') || '');
-  const [showSettings, setShowSettings] = useState(!localStorage.getItem('openrouter_api_key'));
+
+  // Provider & Credentials (keys are stored per provider)
+  const [providers, setProviders] = useState<ProviderConfig[]>(loadProviders);
+  const [providerId, setProviderId] = useState<string>(loadActiveProviderId);
+  const provider = providers.find(p => p.id === providerId) || providers[0];
+  const [apiKey, setApiKey] = useState(() => loadProviderApiKey(loadActiveProviderId()));
+  const [showSettings, setShowSettings] = useState(() => providerRequiresKey(provider) && !loadProviderApiKey(provider.id));
+  const [extraBodyText, setExtraBodyText] = useState(() => JSON.stringify(provider.extraBody, null, 2));
+  // Re-render when a model listing or a per-model override is stored, wherever that happens
+  useSyncExternalStore(subscribeCatalog, getCatalogRevision);
+  const [showAdvancedProvider, setShowAdvancedProvider] = useState(false);
+  const isProviderReady = !providerRequiresKey(provider) || !!apiKey;
+  const [retryConfig, setRetryConfig] = useState<RetryConfig>(loadRetryConfig);
+  const [contextConfig, setContextConfig] = useState<ContextConfig>(loadContextConfig);
+  const [contextLimitDraft, setContextLimitDraft] = useState('');
+
+  // Cost accounting
+  const [budgetConfig, setBudgetConfig] = useState<BudgetConfig>(loadBudgetConfig);
+  const [dailySpend, setDailySpend] = useState(() => getDailySpend());
+  const [pricingDraft, setPricingDraft] = useState({ prompt: '', completion: '' }); // USD per million tokens
+  const [keyCredits, setKeyCredits] = useState<KeyCredits | null>(null);
+  const [isFetchingCredits, setIsFetchingCredits] = useState(false);
   
   // Model Parameters
   const [temperature, setTemperature] = useState<number>(0.6); // Default for reasoning models
   const [systemPrompt, setSystemPrompt] = useState<string>(''); // Custom System Prompt State
+  const [reasoningReplay, setReasoningReplay] = useState<ReasoningReplay>(DEFAULT_REASONING_REPLAY);
   
   // Default to 'deepseek/deepseek-v3.2-speciale' as requested
-  const [modelId, setModelId] = useState<string>(localStorage.getItem('openrouter_model_id') || DEFAULT_MODEL_ID);
+  const [modelId, setModelId] = useState<string>(() => loadProviderModelId(provider));
+
+  // Conversation Store
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string>(() => uuidv4());
+  const [isStoreReady, setIsStoreReady] = useState(false);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(() => window.innerWidth >= 768);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [showDatasetExport, setShowDatasetExport] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [testCases, setTestCases] = useState<TestCase[]>([]); // Sample cases of the active conversation
+  const [extraCost, setExtraCost] = useState(0); // Compare, sampling and summary spend outside the tree
+  const [contextSummary, setContextSummary] = useState<ContextSummary | undefined>(undefined);
+  const [testingMessageId, setTestingMessageId] = useState<string | null>(null);
+  const conversationsRef = useRef<Conversation[]>([]);
+
+  // Compare mode: one prompt sent to several models, answered outside the tree until promoted
+  const [compareModelIds, setCompareModelIds] = useState<string[]>(loadCompareModelIds);
+  const [isCompareMode, setIsCompareMode] = useState(false);
+  const [showCompareSetup, setShowCompareSetup] = useState(false);
+  const [compareRun, setCompareRun] = useState<CompareRun | null>(null);
+  const compareControllersRef = useRef<AbortController[]>([]);
+  const isComparing = !!compareRun?.columns.some(column => column.isStreaming);
+
+  // Self-consistency sampling (math / logic modes): N samples of one prompt, voted on
+  const [samplingConfig, setSamplingConfig] = useState<SamplingConfig>(loadSamplingConfig);
+  const [isSamplingMode, setIsSamplingMode] = useState(false);
+  const [showSamplingSetup, setShowSamplingSetup] = useState(false);
+  const [samplingRun, setSamplingRun] = useState<SamplingRun | null>(null);
+  const samplingControllersRef = useRef<AbortController[]>([]);
+  const isSampling = !!samplingRun?.samples.some(sample => sample.status === 'queued' || sample.status === 'streaming');
+  const isSamplingActive = isSamplingMode && supportsVoting(mode);
+  const isBusy = isLoading || isComparing || isSampling;
+
+  // The branch currently on screen; only this path is sent as history
+  const activePath = useMemo(() => getActivePath(messages, activeLeafId), [messages, activeLeafId]);
+  const childrenIndex = useMemo(() => buildChildrenIndex(messages), [messages]);
+
+  // Per-model lookups read the parsed catalog cache, cheap enough for every render. The
+  // pricing object is rebuilt from its numbers so memoized messages see a stable prop.
+  const activeModelId = modelId.trim();
+  const contextLimit = getContextLimit(activeModelId);
+  const { prompt: activePromptPrice, completion: activeCompletionPrice } = getModelPricing(provider, activeModelId) || {};
+  const modelPricing = useMemo(
+    () => activePromptPrice !== undefined && activeCompletionPrice !== undefined ? { prompt: activePromptPrice, completion: activeCompletionPrice } : undefined,
+    [activePromptPrice, activeCompletionPrice]
+  );
+
+  // Context meter: what the next request would send before the new prompt is added
+  const contextBaseTokens = useMemo(
+    () => estimateTokens(resolveSystemPrompt(activeMode, systemPrompt)) + estimateReplayedHistoryTokens(activePath, reasoningReplay, provider),
+    [activeMode, systemPrompt, activePath, reasoningReplay, provider]
+  );
+
+  // Image input must work for every model the next send goes to; unknown if any is unknown
+  const imageSupportList = (isCompareMode ? compareModelIds : [activeModelId]).map(id => supportsImageInput(provider.id, id));
+  const imageSupport = imageSupportList.includes(false) ? false : imageSupportList.every(Boolean) ? true : undefined;
+
+  // Counts every branch: abandoned answers were still billed
+  const conversationCost = useMemo(() => getConversationCost(messages, extraCost), [messages, extraCost]);
+  const budgetNotice = checkBudget(budgetConfig, conversationCost, dailySpend);
+
+  // Handlers are memoized for ChatMessage; read the latest tree through refs
+  const messagesRef = useRef<Message[]>([]);
+  const activePathRef = useRef<Message[]>([]);
+  const extraCostRef = useRef(0);
+  const contextSummaryRef = useRef<ContextSummary | undefined>(undefined);
+  messagesRef.current = messages;
+  activePathRef.current = activePath;
+  extraCostRef.current = extraCost;
+  contextSummaryRef.current = contextSummary;
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const startTimeRef = useRef<number>(0);
@@ -52,83 +201,460 @@ function App() {
   };
 
   useEffect(() => {
+    if (highlightedMessageId) return; // A search jump scrolls to its own target
     scrollToBottom();
-  }, [messages]);
+  }, [activePath]);
+
+  // Bring a search hit into view and flash it briefly
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  // Ctrl/Cmd+K opens search from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowSearch(true);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Index the open conversation as it is now
+  useEffect(() => {
+    if (showSearch) persistActiveConversation();
+  }, [showSearch]);
+
+  useEffect(() => {
+    conversationsRef.current = conversations;
+  }, [conversations]);
+
+  const loadConversation = (conversation: Conversation) => {
+    const treeMessages = migrateLinearMessages(conversation.messages);
+    setActiveConversationId(conversation.id);
+    setMessages(treeMessages);
+    setActiveLeafId(conversation.activeLeafId ?? findLatestLeaf(treeMessages, null));
+    const conversationProviderId = conversation.providerId || DEFAULT_PROVIDER_ID;
+    setMode(conversation.mode);
+    setProviderId(conversationProviderId);
+    setApiKey(loadProviderApiKey(conversationProviderId));
+    setModelId(conversation.modelId);
+    setTemperature(conversation.settings.temperature);
+    setSystemPrompt(conversation.settings.systemPrompt);
+    setReasoningReplay(conversation.settings.reasoningReplay || DEFAULT_REASONING_REPLAY);
+    setTestCases(conversation.testCases || []);
+    setExtraCost(conversation.extraCost || 0);
+    setContextSummary(conversation.contextSummary);
+    setTestingMessageId(null);
+    compareControllersRef.current.forEach(controller => controller.abort());
+    samplingControllersRef.current.forEach(controller => controller.abort());
+    setCompareRun(null);
+    setSamplingRun(null);
+    setTimerMs(0);
+    localStorage.setItem('active_conversation_id', conversation.id);
+  };
+
+  // Restore saved conversations, reopening the last active one
+  useEffect(() => {
+    listConversations()
+      .then(stored => {
+        setConversations(stored);
+        const lastActiveId = localStorage.getItem('active_conversation_id');
+        const lastActive = stored.find(c => c.id === lastActiveId);
+        if (lastActive) loadConversation(lastActive);
+      })
+      .catch(err => console.error("Failed to load conversations:", err))
+      .finally(() => setIsStoreReady(true));
+  }, []);
+
+  // Writes the active conversation to IndexedDB; empty conversations are never stored
+  const persistActiveConversation = () => {
+    if (!isStoreReady || messages.length === 0) return;
+
+    const existing = conversationsRef.current.find(c => c.id === activeConversationId);
+    if (
+      existing &&
+      existing.messages === messages &&
+      existing.activeLeafId === activeLeafId &&
+      existing.mode === mode &&
+      existing.providerId === providerId &&
+      existing.modelId === modelId &&
+      existing.settings.temperature === temperature &&
+      existing.settings.systemPrompt === systemPrompt &&
+      existing.settings.reasoningReplay === reasoningReplay &&
+      (existing.testCases === testCases || (!existing.testCases && testCases.length === 0)) &&
+      (existing.extraCost || 0) === extraCost &&
+      existing.contextSummary === contextSummary
+    ) {
+      return;
+    }
+
+    const base = existing || { ...createConversation(mode, providerId, modelId, { temperature, systemPrompt, reasoningReplay }), id: activeConversationId };
+    const conversation: Conversation = {
+      ...base,
+      title: base.titleEdited ? base.title : deriveConversationTitle(activePath),
+      messages,
+      activeLeafId,
+      mode,
+      providerId,
+      modelId,
+      settings: { temperature, systemPrompt, reasoningReplay },
+      testCases,
+      ...(extraCost > 0 ? { extraCost } : {}),
+      ...(contextSummary ? { contextSummary } : {}),
+      updatedAt: Date.now()
+    };
+
+    conversationsRef.current = sortConversations([conversation, ...conversationsRef.current.filter(c => c.id !== conversation.id)]);
+    setConversations(conversationsRef.current);
+    localStorage.setItem('active_conversation_id', conversation.id);
+    saveConversation(conversation).catch(err => console.error("Failed to save conversation:", err));
+  };
+
+  // Debounced so streaming chunks don't hammer IndexedDB
+  useEffect(() => {
+    const timer = setTimeout(persistActiveConversation, 500);
+    return () => clearTimeout(timer);
+  }, [isStoreReady, messages, activeLeafId, mode, providerId, modelId, temperature, systemPrompt, reasoningReplay, testCases, extraCost, contextSummary, activeConversationId]);
+
+  // The model catalog supplies pricing and context limits; it is cached for a day per provider
+  useEffect(() => {
+    if (!isProviderReady || !isCatalogStale(provider.id)) return;
+    fetchModelCatalog(provider, apiKey)
+      .catch(err => console.warn("Model catalog unavailable:", err));
+  }, [providerId, apiKey, isProviderReady]);
+
+  const refreshKeyCredits = () => {
+    if (!provider.creditsPath || !isProviderReady) {
+      setKeyCredits(null);
+      return;
+    }
+    setIsFetchingCredits(true);
+    fetchKeyCredits(provider, apiKey)
+      .then(setKeyCredits)
+      .catch(err => {
+        console.warn("Key credits unavailable:", err);
+        setKeyCredits(null);
+      })
+      .finally(() => setIsFetchingCredits(false));
+  };
+
+  // Per-model drafts are filled in when the modal opens, however it was opened
+  useEffect(() => {
+    if (!showSettings) return;
+    const override = getModelPricingOverride(modelId.trim());
+    setContextLimitDraft(String(getContextLimit(modelId.trim())));
+    setPricingDraft(override
+      ? { prompt: String(+(override.prompt * 1e6).toFixed(6)), completion: String(+(override.completion * 1e6).toFixed(6)) }
+      : { prompt: '', completion: '' });
+  }, [showSettings]);
+
+  // Looked up whenever the settings modal opens or the provider changes inside it
+  useEffect(() => {
+    if (showSettings) refreshKeyCredits();
+  }, [showSettings, providerId]);
+
+  const updateStoredConversation = (id: string, patch: Partial<Conversation>) => {
+    const target = conversationsRef.current.find(c => c.id === id);
+    if (!target) return;
+
+    const updated = { ...target, ...patch };
+    conversationsRef.current = sortConversations(conversationsRef.current.map(c => c.id === id ? updated : c));
+    setConversations(conversationsRef.current);
+    saveConversation(updated).catch(err => console.error("Failed to save conversation:", err));
+  };
 
   const saveSettings = () => {
+    let extraBody: Record<string, unknown>;
+    try {
+      extraBody = extraBodyText.trim() ? JSON.parse(extraBodyText) : {};
+    } catch (e) {
+      alert("附加请求参数不是合法的 JSON。");
+      return;
+    }
+
     const trimmedKey = apiKey.trim();
     const trimmedModelId = modelId.trim();
-    localStorage.setItem('openrouter_api_key', trimmedKey);
-    localStorage.setItem('openrouter_model_id', trimmedModelId);
+    const modelWarning = validateModelId(providerId, trimmedModelId);
+    if (!trimmedModelId) {
+      alert(modelWarning);
+      return;
+    }
+    if (modelWarning && !window.confirm(`${modelWarning}\n仍要保存吗?`)) return;
+    const updatedProviders = providers.map(p => p.id === providerId ? { ...p, extraBody } : p);
+    saveProviders(updatedProviders);
+    saveActiveProviderId(providerId);
+    saveProviderApiKey(providerId, trimmedKey);
+    saveProviderModelId(providerId, trimmedModelId);
+    saveRetryConfig(retryConfig);
+    saveContextConfig(contextConfig);
+    const parsedLimit = parseInt(contextLimitDraft, 10);
+    saveContextLimitOverride(trimmedModelId, parsedLimit > 0 ? parsedLimit : null);
+    saveBudgetConfig(budgetConfig);
+    const promptPrice = parseFloat(pricingDraft.prompt);
+    const completionPrice = parseFloat(pricingDraft.completion);
+    saveModelPricingOverride(
+      trimmedModelId,
+      promptPrice >= 0 && completionPrice >= 0 ? { prompt: promptPrice / 1e6, completion: completionPrice / 1e6 } : null
+    );
+    setProviders(updatedProviders);
     setApiKey(trimmedKey);
     setModelId(trimmedModelId);
     setShowSettings(false);
   };
 
+  // Picking a mode applies its generation defaults
+  const handleModeChange = (id: ReasoningMode) => {
+    const next = getMode(modes, id);
+    setMode(next.id);
+    setTemperature(next.temperature);
+    if (next.preferredModelId) setModelId(next.preferredModelId);
+  };
+
+  const handleSaveModes = (next: ModeDefinition[]) => {
+    saveModes(next);
+    setModes(next);
+    setShowModeManager(false);
+  };
+
+  const handleSaveTemplates = (next: PromptTemplate[]) => {
+    saveTemplates(next);
+    setTemplates(next);
+    setShowTemplateManager(false);
+  };
+
   const resetModelId = () => {
-    setModelId(DEFAULT_MODEL_ID);
+    setModelId(provider.defaultModelId);
   };
 
-  const handleClearChat = () => {
-    if (window.confirm("确认清空对话?")) {
-      setMessages([]);
-      setTimerMs(0);
+  const updateProvider = (patch: Partial<ProviderConfig>) => {
+    setProviders(prev => prev.map(p => p.id === providerId ? { ...p, ...patch } : p));
+  };
+
+  const handleProviderChange = (id: string) => {
+    const next = providers.find(p => p.id === id);
+    if (!next) return;
+    setProviderId(id);
+    setApiKey(loadProviderApiKey(id));
+    setModelId(loadProviderModelId(next));
+    setExtraBodyText(JSON.stringify(next.extraBody, null, 2));
+  };
+
+  const resetProviderConfig = () => {
+    const builtIn = getBuiltInProvider(providerId);
+    updateProvider(builtIn);
+    setExtraBodyText(JSON.stringify(builtIn.extraBody, null, 2));
+  };
+
+  // New conversations start from the saved provider/model rather than the current one
+  const startNewConversation = () => {
+    const defaultProvider = providers.find(p => p.id === loadActiveProviderId()) || providers[0];
+    loadConversation(createConversation(mode, defaultProvider.id, loadProviderModelId(defaultProvider), { temperature, systemPrompt, reasoningReplay }));
+  };
+
+  const handleNewConversation = () => {
+    persistActiveConversation();
+    startNewConversation();
+  };
+
+  // Compare and sampling runs stream into the conversation on screen, so they block switching too
+  const handleSelectConversation = (id: string) => {
+    if (id === activeConversationId || isBusy) return;
+    const target = conversationsRef.current.find(c => c.id === id);
+    if (!target) return;
+    persistActiveConversation();
+    loadConversation(target);
+    if (window.innerWidth < 768) setIsSidebarOpen(false);
+  };
+
+  // Opens the conversation holding a search hit, on a branch that passes through the message
+  const handleJumpToMessage = (conversationId: string, messageId: string) => {
+    let treeMessages = messages;
+    let currentLeafId = activeLeafId;
+    if (conversationId !== activeConversationId) {
+      if (isBusy) {
+        alert("正在生成回答，请稍后再切换会话。");
+        return;
+      }
+      const target = conversationsRef.current.find(c => c.id === conversationId);
+      if (!target) return;
+      persistActiveConversation();
+      loadConversation(target);
+      treeMessages = migrateLinearMessages(target.messages);
+      currentLeafId = target.activeLeafId ?? findLatestLeaf(treeMessages, null);
+    }
+    if (!getActivePath(treeMessages, currentLeafId).some(msg => msg.id === messageId)) {
+      setActiveLeafId(findLatestLeaf(treeMessages, messageId));
+    }
+    setHighlightedMessageId(messageId);
+    setShowSearch(false);
+    if (window.innerWidth < 768) setIsSidebarOpen(false);
+  };
+
+  const handleRenameConversation = (id: string, title: string) => {
+    updateStoredConversation(id, { title, titleEdited: true });
+  };
+
+  const handleTogglePinConversation = (id: string) => {
+    const target = conversationsRef.current.find(c => c.id === id);
+    if (target) updateStoredConversation(id, { pinned: !target.pinned });
+  };
+
+  const handleDeleteConversation = async (id: string) => {
+    if (!window.confirm("确认删除此会话? 删除后无法恢复。")) return;
+
+    try {
+      await deleteConversation(id);
+    } catch (err) {
+      console.error("Failed to delete conversation:", err);
+      return;
+    }
+    conversationsRef.current = conversationsRef.current.filter(c => c.id !== id);
+    setConversations(conversationsRef.current);
+
+    if (id === activeConversationId) {
+      startNewConversation();
     }
   };
 
+  // Deleting a message removes its whole branch; the view falls back to a sibling or the parent
   const handleDeleteMessage = useCallback((id: string) => {
-    if (window.confirm("确认删除此条消息?")) {
-      setMessages(prev => prev.filter(msg => msg.id !== id));
+    if (!window.confirm("确认删除此条消息及其后续分支?")) return;
+
+    const target = messagesRef.current.find(msg => msg.id === id);
+    if (!target) return;
+
+    const removedIds = getSubtreeIds(messagesRef.current, id);
+    const remaining = messagesRef.current.filter(msg => !removedIds.has(msg.id));
+    const siblings = getSiblings(buildChildrenIndex(remaining), target).filter(msg => msg.id !== id);
+    const fallbackId = siblings.length > 0 ? siblings[siblings.length - 1].id : target.parentId ?? null;
+
+    setMessages(remaining);
+    if (activePathRef.current.some(msg => msg.id === id)) {
+      setActiveLeafId(findLatestLeaf(remaining, fallbackId));
+    }
+  }, []);
+
+  const handleTogglePinMessage = useCallback((id: string) => {
+    setMessages(prev => prev.map(msg => msg.id === id ? { ...msg, pinned: !msg.pinned } : msg));
+  }, []);
+
+  const handleSwitchBranch = useCallback((id: string, direction: -1 | 1) => {
+    const target = messagesRef.current.find(msg => msg.id === id);
+    if (!target) return;
+
+    const siblings = getSiblings(buildChildrenIndex(messagesRef.current), target);
+    const next = siblings[siblings.findIndex(msg => msg.id === id) + direction];
+    if (next) {
+      setActiveLeafId(findLatestLeaf(messagesRef.current, next.id));
     }
   }, []);
 
   const handleStopGeneration = useCallback(() => {
+    compareControllersRef.current.forEach(controller => controller.abort());
+    samplingControllersRef.current.forEach(controller => controller.abort());
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
       abortControllerRef.current = null;
       setIsLoading(false);
-      // Mark the last message as not streaming
-      setMessages(prev => {
-        const lastMsg = prev[prev.length - 1];
-        if (lastMsg && lastMsg.role === Role.MODEL && lastMsg.isStreaming) {
-           return prev.map(msg => msg.id === lastMsg.id ? { ...msg, isStreaming: false, text: msg.text + " [已终止]" } : msg);
-        }
-        return prev;
-      });
+      // Mark the streaming message as stopped
+      setMessages(prev => prev.map(msg => msg.role === Role.MODEL && msg.isStreaming
+        ? { ...msg, isStreaming: false, text: msg.text + " [已终止]" }
+        : msg
+      ));
     }
   }, []);
 
-  const handleExportChat = () => {
-    if (messages.length === 0) return;
-
-    const exportText = messages.map(msg => {
-      const role = msg.role === Role.USER ? "User" : "DeepSeek Speciale";
-      const time = new Date(msg.timestamp).toLocaleString('zh-CN');
-      let content = `### ${role} [${time}]\n`;
-      if (msg.usage) {
-        content += `> Token Usage: Total ${msg.usage.total_tokens} (Prompt ${msg.usage.prompt_tokens}, Completion ${msg.usage.completion_tokens})\n`;
-      }
-      if (msg.reasoning) {
-        content += `> **深度思考过程**:\n${msg.reasoning.replace(/\n/g, '\n> ')}\n\n`;
-      }
-      content += `${msg.text}\n\n---\n\n`;
-      return content;
-    }).join('');
-
-    const blob = new Blob([exportText], { type: 'text/markdown' });
+  const downloadFile = (content: string, fileName: string, type: string) => {
+    const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `deepseek-speciale-chat-${new Date().toISOString().slice(0, 10)}.md`;
+    a.download = fileName;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
-  // Helper to trigger API after updating state
-  const triggerApiCall = async (currentMessageText: string, history: Message[]) => {
-     if (!apiKey) {
+  // Markdown is the readable export of the branch on screen
+  const handleExportChat = () => {
+    setShowExportMenu(false);
+    if (activePath.length === 0) return;
+    downloadFile(
+      exportConversationMarkdown(activePath),
+      `deepseek-speciale-chat-${new Date().toISOString().slice(0, 10)}.md`,
+      'text/markdown'
+    );
+  };
+
+  // JSON keeps every branch and field, so it can be imported and continued later
+  const handleExportJson = () => {
+    setShowExportMenu(false);
+    persistActiveConversation();
+    const conversation = conversationsRef.current.find(c => c.id === activeConversationId);
+    if (!conversation) return;
+    downloadFile(
+      exportConversationJson(conversation),
+      `deepseek-speciale-chat-${new Date().toISOString().slice(0, 10)}.json`,
+      'application/json'
+    );
+  };
+
+  // Dataset export works across every saved conversation, so flush the open one first
+  const handleOpenDatasetExport = () => {
+    setShowExportMenu(false);
+    persistActiveConversation();
+    setShowDatasetExport(true);
+  };
+
+  const handleImportConversation = async (file: File) => {
+    let imported: Conversation;
+    try {
+      imported = importConversation(await file.text(), file.name, {
+        mode, providerId, modelId, settings: { temperature, systemPrompt, reasoningReplay }
+      });
+    } catch (error: any) {
+      alert(error.message || "导入失败。");
+      return;
+    }
+
+    try {
+      await saveConversation(imported);
+    } catch (err) {
+      console.error("Failed to save conversation:", err);
+      alert("导入失败：无法写入本地存储。");
+      return;
+    }
+    persistActiveConversation();
+    conversationsRef.current = sortConversations([imported, ...conversationsRef.current]);
+    setConversations(conversationsRef.current);
+    loadConversation(imported);
+  };
+
+  // Over-budget sends are refused or need confirmation, depending on the configured action
+  const confirmWithinBudget = (): boolean => {
+    const today = getDailySpend();
+    setDailySpend(today);
+    const notice = checkBudget(budgetConfig, getConversationCost(messagesRef.current, extraCostRef.current), today);
+    if (!notice) return true;
+    if (budgetConfig.action === 'block') {
+      alert(`${notice}，已阻止发送。可在设置中调整预算。`);
+      return false;
+    }
+    return window.confirm(`${notice}，仍要继续发送吗?`);
+  };
+
+  // Helper to trigger API after updating state.
+  // `history` excludes the current prompt; the reply is attached under `parentId`.
+  // Passing `resumeFrom` continues that (interrupted) reply in place instead.
+  const triggerApiCall = async (currentMessage: PromptContent, history: Message[], parentId: string, resumeFrom?: Message) => {
+     if (!isProviderReady) {
       setShowSettings(true);
       return;
     }
@@ -136,33 +662,78 @@ function App() {
     setIsLoading(true);
     startTimeRef.current = Date.now();
 
-    // Add Placeholder AI Message
-    const aiMessageId = uuidv4();
-    const initialAiMessage: Message = {
-      id: aiMessageId,
-      role: Role.MODEL,
-      text: '', // Start empty
-      reasoning: '', // Start empty
-      isStreaming: true,
-      timestamp: Date.now(),
-      mode: mode,
-      thinkingTime: 0
-    };
+    const pricing = getModelPricing(provider, modelId.trim());
+    const costBefore = resumeFrom?.cost || 0;
+    let requestCost = 0; // Summed over every request this call makes, retries included
+    let summaryCost = 0; // Context summary requests; billed to the conversation, not the reply
 
-    setMessages(prev => [...prev, initialAiMessage]);
+    const aiMessageId = resumeFrom ? resumeFrom.id : uuidv4();
+    if (resumeFrom) {
+      setMessages(prev => prev.map(msg => 
+        msg.id === aiMessageId 
+          ? { ...msg, isStreaming: true, interrupted: false, error: undefined } 
+          : msg
+      ));
+    } else {
+      // Add Placeholder AI Message
+      const initialAiMessage: Message = {
+        id: aiMessageId,
+        parentId,
+        role: Role.MODEL,
+        text: '', // Start empty
+        reasoning: '', // Start empty
+        isStreaming: true,
+        timestamp: Date.now(),
+        mode: mode,
+        thinkingTime: 0
+      };
+      setMessages(prev => [...prev, initialAiMessage]);
+    }
+    setActiveLeafId(aiMessageId);
 
     // Create new AbortController
     abortControllerRef.current = new AbortController();
 
+    let fullText = resumeFrom?.text || '';
+    let fullReasoning = resumeFrom?.reasoning || '';
+
+    const streamOptions: StreamOptions = {
+      provider,
+      apiKey,
+      modelId, // Pass the configured model ID
+      temperature,
+      customSystemPrompt: systemPrompt,
+      signal: abortControllerRef.current.signal,
+      assistantPrefix: resumeFrom?.text || undefined,
+      contextConfig,
+      contextSummary: contextSummaryRef.current,
+      reasoningReplay
+    };
+
     try {
-      let fullText = '';
-      let fullReasoning = '';
-      let firstTokenReceived = false;
+      // Turns about to fall out of the window are summarized before the request goes out
+      if (contextConfig.policy === 'summarize' && planRequestContext(currentMessage, history, activeMode, streamOptions).unsummarizedThroughId) {
+        setMessages(prev => prev.map(msg =>
+          msg.id === aiMessageId ? { ...msg, retryNotice: '正在总结较早的对话…' } : msg
+        ));
+        const { summary, usage } = await updateContextSummary(currentMessage, history, activeMode, streamOptions);
+        summaryCost = usage.reduce((sum, u) => sum + (computeUsageCost(u, pricing) || 0), 0);
+        if (summary !== streamOptions.contextSummary) {
+          streamOptions.contextSummary = summary;
+          setContextSummary(summary);
+        }
+        setMessages(prev => prev.map(msg =>
+          msg.id === aiMessageId ? { ...msg, retryNotice: undefined } : msg
+        ));
+        startTimeRef.current = Date.now();
+      }
+
+      let firstTokenReceived = !!resumeFrom;
       
-      await streamGeminiResponse(
-        currentMessageText,
+      const { finishReason } = await streamWithRetry(
+        currentMessage,
         history, 
-        mode,
+        activeMode,
         (chunkText, chunkReasoning, usage) => {
           
           if (!firstTokenReceived && (chunkText || chunkReasoning)) {
@@ -178,116 +749,434 @@ function App() {
           if (chunkReasoning) fullReasoning += chunkReasoning;
           if (chunkText) fullText += chunkText;
 
+          const usageCost = usage ? computeUsageCost(usage, pricing) : undefined;
+          if (usageCost !== undefined) requestCost += usageCost;
+
           setMessages(prev => prev.map(msg => 
             msg.id === aiMessageId 
-              ? { ...msg, text: fullText, reasoning: fullReasoning, ...(usage ? { usage } : {}) } 
+              ? {
+                  ...msg, text: fullText, reasoning: fullReasoning, retryNotice: undefined,
+                  ...(usage ? { usage } : {}),
+                  ...(usageCost !== undefined ? { cost: costBefore + requestCost } : {})
+                } 
               : msg
           ));
         },
-        apiKey,
-        modelId, // Pass the configured model ID
-        temperature, 
-        systemPrompt, 
-        abortControllerRef.current.signal
+        streamOptions,
+        retryConfig,
+        ({ attempt, delayMs, error, resuming }) => {
+          console.warn(`Retrying after error (attempt ${attempt}):`, error);
+          if (!resuming) {
+            // Starting over; drop what the failed attempt produced
+            fullText = '';
+            fullReasoning = '';
+          }
+          const retryNotice = `${error.message || '连接失败'} · ${(delayMs / 1000).toFixed(1)}s 后${resuming ? '续写' : '重试'} (${attempt}/${retryConfig.maxRetries})`;
+          setMessages(prev => prev.map(msg => 
+            msg.id === aiMessageId 
+              ? { ...msg, text: fullText, reasoning: fullReasoning, retryNotice } 
+              : msg
+          ));
+        }
       );
 
       // Finalize
       setMessages(prev => prev.map(msg => 
         msg.id === aiMessageId 
-          ? { ...msg, isStreaming: false } 
+          ? { ...msg, isStreaming: false, retryNotice: undefined, ...(finishReason ? { finishReason } : {}) } 
           : msg
       ));
 
     } catch (error: any) {
       if (error?.name !== 'AbortError') {
         console.error("Error in chat:", error);
+        const errorText = error.message || "Connection interrupted.";
+        // Keep a partial answer so it can be resumed; otherwise show the error in place
         setMessages(prev => prev.map(msg => 
           msg.id === aiMessageId 
-            ? { ...msg, text: `Error: ${error.message || "Connection interrupted."}`, isStreaming: false } 
+            ? (fullText
+                ? { ...msg, isStreaming: false, retryNotice: undefined, interrupted: true, error: errorText }
+                : { ...msg, text: `Error: ${errorText}`, isStreaming: false, retryNotice: undefined })
             : msg
         ));
       }
     } finally {
+      if (summaryCost > 0) setExtraCost(prev => prev + summaryCost);
+      recordSpend(requestCost + summaryCost);
+      setDailySpend(getDailySpend());
       setIsLoading(false);
       abortControllerRef.current = null;
     }
   };
 
-  const handleSendMessage = useCallback(async (text: string, attachments: { name: string, content: string }[] = []) => {
+  const updateCompareColumn = (runId: string, index: number, patch: Partial<CompareColumn>) => {
+    setCompareRun(prev => prev && prev.id === runId
+      ? { ...prev, columns: prev.columns.map((column, i) => i === index ? { ...column, ...patch } : column) }
+      : prev);
+  };
+
+  // Streams one compare column; every column has its own controller so each can be stopped alone
+  const runCompareColumn = async (run: CompareRun, index: number, controller: AbortController) => {
+    const columnModelId = run.columns[index].modelId;
+    const pricing = getModelPricing(provider, columnModelId);
+    const startedAt = Date.now();
+    let requestCost = 0;
+    let text = '';
+    let reasoning = '';
+    let firstTokenReceived = false;
+
+    try {
+      const { finishReason } = await streamWithRetry(
+        run.prompt,
+        run.history,
+        activeMode,
+        (chunkText, chunkReasoning, usage) => {
+          const patch: Partial<CompareColumn> = {};
+          if (!firstTokenReceived && (chunkText || chunkReasoning)) {
+            patch.thinkingTime = Date.now() - startedAt;
+            firstTokenReceived = true;
+          }
+          if (chunkReasoning) reasoning += chunkReasoning;
+          if (chunkText) text += chunkText;
+
+          const usageCost = usage ? computeUsageCost(usage, pricing) : undefined;
+          if (usageCost !== undefined) requestCost += usageCost;
+          updateCompareColumn(run.id, index, {
+            ...patch, text, reasoning,
+            ...(usage ? { usage } : {}),
+            ...(usageCost !== undefined ? { cost: requestCost } : {})
+          });
+        },
+        {
+          provider,
+          apiKey,
+          modelId: columnModelId,
+          temperature,
+          customSystemPrompt: systemPrompt,
+          signal: controller.signal,
+          contextConfig,
+          contextSummary: contextSummaryRef.current,
+          reasoningReplay
+        },
+        retryConfig,
+        ({ attempt, error, resuming }) => {
+          console.warn(`Compare column ${columnModelId} retrying (attempt ${attempt}):`, error);
+          if (!resuming) {
+            text = '';
+            reasoning = '';
+          }
+          updateCompareColumn(run.id, index, { text, reasoning });
+        }
+      );
+      // An aborted stream resolves instead of throwing
+      updateCompareColumn(run.id, index, controller.signal.aborted
+        ? { isStreaming: false, error: '已停止' }
+        : { isStreaming: false, ...(finishReason ? { finishReason } : {}) });
+    } catch (error: any) {
+      const stopped = error?.name === 'AbortError';
+      if (!stopped) console.error(`Compare column ${columnModelId} failed:`, error);
+      updateCompareColumn(run.id, index, {
+        isStreaming: false,
+        error: stopped ? '已停止' : error.message || 'Connection interrupted.'
+      });
+    } finally {
+      // Held on the conversation until promoted, so the conversation budget sees it
+      if (requestCost > 0) setExtraCost(prev => prev + requestCost);
+      recordSpend(requestCost);
+      setDailySpend(getDailySpend());
+    }
+  };
+
+  // The prompt joins the tree like any message; the answers wait in the compare view
+  const startCompareRun = (messageText: string, artifacts: MessageArtifact[], images: ImageAttachment[]) => {
+    if (!isProviderReady) {
+      setShowSettings(true);
+      return;
+    }
+
+    const history = activePathRef.current;
+    const userMessage: Message = {
+      id: uuidv4(),
+      parentId: history.length > 0 ? history[history.length - 1].id : null,
+      role: Role.USER,
+      text: messageText,
+      timestamp: Date.now(),
+      mode: mode,
+      ...(artifacts.length > 0 ? { artifacts } : {}),
+      ...buildMessageContent(messageText, images)
+    };
+    setMessages(prev => [...prev, userMessage]);
+    setActiveLeafId(userMessage.id);
+
+    const run = createCompareRun(userMessage, history, compareModelIds);
+    compareControllersRef.current = run.columns.map(() => new AbortController());
+    setCompareRun(run);
+    run.columns.forEach((_, index) => runCompareColumn(run, index, compareControllersRef.current[index]));
+  };
+
+  const handleStopCompareColumn = (index: number) => {
+    compareControllersRef.current[index]?.abort();
+  };
+
+  // Promoting adds the column as an answer under the prompt and switches to it
+  const handlePromoteCompareColumn = (index: number) => {
+    const column = compareRun?.columns[index];
+    if (!compareRun || !column || column.isStreaming) return;
+
+    const promoted = compareColumnToMessage(column, compareRun.parentId, mode);
+    // The column's spend now counts through the message
+    setExtraCost(prev => Math.max(0, prev - (promoted.cost || 0)));
+    setMessages(prev => [...prev, promoted]);
+    setActiveLeafId(promoted.id);
+    updateCompareColumn(compareRun.id, index, { promotedMessageId: promoted.id });
+  };
+
+  const handleSaveCompareSetup = (modelIds: string[], enabled: boolean) => {
+    saveCompareModelIds(modelIds);
+    setCompareModelIds(modelIds);
+    setIsCompareMode(enabled && modelIds.length >= MIN_COMPARE_MODELS);
+    if (enabled) setIsSamplingMode(false);
+    setShowCompareSetup(false);
+  };
+
+  const updateSample = (runId: string, index: number, patch: Partial<SampleResult>) => {
+    setSamplingRun(prev => prev && prev.id === runId
+      ? { ...prev, samples: prev.samples.map((sample, i) => i === index ? { ...sample, ...patch } : sample) }
+      : prev);
+  };
+
+  // One sample of a sampling run; the final answer is extracted once it finishes
+  const runSample = async (run: SamplingRun, index: number, controller: AbortController) => {
+    if (controller.signal.aborted) {
+      updateSample(run.id, index, { status: 'error', error: '已停止' });
+      return;
+    }
+    updateSample(run.id, index, { status: 'streaming' });
+
+    const pricing = getModelPricing(provider, run.modelId);
+    const startedAt = Date.now();
+    let requestCost = 0;
+    let text = '';
+    let reasoning = '';
+    let firstTokenReceived = false;
+
+    try {
+      const { finishReason } = await streamWithRetry(
+        run.prompt,
+        run.history,
+        activeMode,
+        (chunkText, chunkReasoning, usage) => {
+          const patch: Partial<SampleResult> = {};
+          if (!firstTokenReceived && (chunkText || chunkReasoning)) {
+            patch.thinkingTime = Date.now() - startedAt;
+            firstTokenReceived = true;
+          }
+          if (chunkReasoning) reasoning += chunkReasoning;
+          if (chunkText) text += chunkText;
+
+          const usageCost = usage ? computeUsageCost(usage, pricing) : undefined;
+          if (usageCost !== undefined) requestCost += usageCost;
+          updateSample(run.id, index, {
+            ...patch, text, reasoning,
+            ...(usage ? { usage } : {}),
+            ...(usageCost !== undefined ? { cost: requestCost } : {})
+          });
+        },
+        {
+          provider,
+          apiKey,
+          modelId: run.modelId,
+          temperature,
+          customSystemPrompt: systemPrompt,
+          signal: controller.signal,
+          contextConfig,
+          contextSummary: contextSummaryRef.current,
+          reasoningReplay
+        },
+        retryConfig,
+        ({ attempt, error, resuming }) => {
+          console.warn(`Sample #${index + 1} retrying (attempt ${attempt}):`, error);
+          if (!resuming) {
+            text = '';
+            reasoning = '';
+          }
+          updateSample(run.id, index, { text, reasoning });
+        }
+      );
+      // An aborted stream resolves instead of throwing; a cut-off sample must not vote
+      updateSample(run.id, index, controller.signal.aborted
+        ? { status: 'error', error: '已停止' }
+        : { status: 'done', answer: extractFinalAnswer(text || reasoning), ...(finishReason ? { finishReason } : {}) });
+    } catch (error: any) {
+      const stopped = error?.name === 'AbortError';
+      if (!stopped) console.error(`Sample #${index + 1} failed:`, error);
+      updateSample(run.id, index, { status: 'error', error: stopped ? '已停止' : error.message || 'Connection interrupted.' });
+    } finally {
+      if (requestCost > 0) setExtraCost(prev => prev + requestCost);
+      recordSpend(requestCost);
+      setDailySpend(getDailySpend());
+    }
+  };
+
+  // Sampling multiplies the cost of a send, so it always shows the estimate first.
+  // Returns false when declined so the draft stays in the input.
+  const startSamplingRun = (messageText: string, artifacts: MessageArtifact[], images: ImageAttachment[]): boolean => {
+    if (!isProviderReady) {
+      setShowSettings(true);
+      return false;
+    }
+
+    const history = activePathRef.current;
+    const trimmedModelId = modelId.trim();
+    const promptTokens = estimateTokens(resolveSystemPrompt(activeMode, systemPrompt)) + estimateReplayedHistoryTokens(history, reasoningReplay, provider) + estimatePromptTokens(getPromptParts({ text: messageText, artifacts, ...buildMessageContent(messageText, images) }));
+    const estimate = estimateSamplingCost(
+      samplingConfig.samples,
+      promptTokens,
+      estimateCompletionTokens(messagesRef.current),
+      getOutputReserve(getContextLimit(trimmedModelId), contextConfig),
+      getModelPricing(provider, trimmedModelId)
+    );
+    const costText = estimate ? `预计花费 ${formatCost(estimate.expected)}，最多 ${formatCost(estimate.max)}` : '当前模型缺少价格信息，无法预估花费';
+    if (!window.confirm(`将以温度 ${temperature} 对此问题采样 ${samplingConfig.samples} 次 (并发 ${samplingConfig.concurrency})，${costText}。继续吗?`)) {
+      return false;
+    }
+
+    const userMessage: Message = {
+      id: uuidv4(),
+      parentId: history.length > 0 ? history[history.length - 1].id : null,
+      role: Role.USER,
+      text: messageText,
+      timestamp: Date.now(),
+      mode: mode,
+      ...(artifacts.length > 0 ? { artifacts } : {}),
+      ...buildMessageContent(messageText, images)
+    };
+    setMessages(prev => [...prev, userMessage]);
+    setActiveLeafId(userMessage.id);
+
+    const run = createSamplingRun(userMessage, history, trimmedModelId, samplingConfig);
+    samplingControllersRef.current = run.samples.map(() => new AbortController());
+    setSamplingRun(run);
+    runWithConcurrency(run.samples.length, run.concurrency, index => runSample(run, index, samplingControllersRef.current[index]));
+    return true;
+  };
+
+  // The promoted sample carries its vote count into the conversation
+  const handlePromoteSample = (index: number) => {
+    const sample = samplingRun?.samples[index];
+    if (!samplingRun || !sample || sample.status !== 'done') return;
+
+    const promoted = sampleToMessage(sample, samplingRun.parentId, samplingRun.modelId, mode, getVoteSummary(tallyVotes(samplingRun.samples), index));
+    setExtraCost(prev => Math.max(0, prev - (promoted.cost || 0)));
+    setMessages(prev => [...prev, promoted]);
+    setActiveLeafId(promoted.id);
+    updateSample(samplingRun.id, index, { promotedMessageId: promoted.id });
+  };
+
+  const handleSaveSamplingSetup = (config: SamplingConfig, enabled: boolean) => {
+    saveSamplingConfig(config);
+    setSamplingConfig(config);
+    setIsSamplingMode(enabled);
+    if (enabled) setIsCompareMode(false);
+    setShowSamplingSetup(false);
+  };
+
+  const handleSendMessage = useCallback((
+    text: string,
+    attachments: { name: string, content: string }[] = [],
+    artifacts: MessageArtifact[] = [],
+    images: ImageAttachment[] = []
+  ) => {
+    if (!confirmWithinBudget()) return false;
+
     let messageText = text;
     if (attachments.length > 0) {
       const filesContent = attachments.map(f => `[文件上下文: ${f.name}]\n${f.content}\n[文件结束]`).join('\n\n');
       messageText = `${filesContent}\n\n${text || '请分析上述文件内容。'}`;
     }
+    if (!messageText && artifacts.length > 0) messageText = '请根据以上排盘结果进行分析。';
+    if (!messageText && images.length > 0) messageText = '请看图片并解答其中的问题。';
 
+    if (isSamplingActive) return startSamplingRun(messageText, artifacts, images);
+    if (isCompareMode) {
+      startCompareRun(messageText, artifacts, images);
+      return true;
+    }
+
+    const history = activePathRef.current;
     const userMessage: Message = {
       id: uuidv4(),
+      parentId: history.length > 0 ? history[history.length - 1].id : null,
       role: Role.USER,
       text: messageText,
       timestamp: Date.now(),
-      mode: mode
+      mode: mode,
+      ...(artifacts.length > 0 ? { artifacts } : {}),
+      ...buildMessageContent(messageText, images)
     };
 
-    setMessages(prev => {
-      const newHistory = [...prev, userMessage];
-      // Trigger API with current history (excluding the new user msg for history param, pass it as current)
-      // Note: triggerApiCall expects history NOT including the current message
-      triggerApiCall(messageText, prev); 
-      return newHistory;
-    });
-  }, [mode, apiKey, temperature, systemPrompt, modelId]);
+    setMessages(prev => [...prev, userMessage]);
+    triggerApiCall(getPromptParts(userMessage), history, userMessage.id);
+    return true;
+  }, [mode, modes, provider, apiKey, temperature, systemPrompt, modelId, retryConfig, contextConfig, reasoningReplay, budgetConfig, isCompareMode, compareModelIds, isSamplingMode, samplingConfig]);
 
-  const handleEditMessage = useCallback(async (id: string, newText: string) => {
-    setMessages(prev => {
-      const index = prev.findIndex(msg => msg.id === id);
-      if (index === -1) return prev;
+  // The follow-up goes on the branch on screen, like a typed message
+  const handleSendFailedCases = (prompt: string) => {
+    if (handleSendMessage(prompt)) setTestingMessageId(null);
+  };
 
-      // Keep messages BEFORE the edited message
-      const history = prev.slice(0, index);
-      
-      // Create updated User Message
-      const updatedUserMessage: Message = {
-        ...prev[index],
-        text: newText,
-        timestamp: Date.now() // Update timestamp to now? Or keep original? Usually update.
-      };
+  // Editing keeps the original prompt and its answers as a sibling branch
+  const handleEditMessage = useCallback(async (id: string, newText: string) => {
+    const path = activePathRef.current;
+    const index = path.findIndex(msg => msg.id === id);
+    if (index === -1 || !confirmWithinBudget()) return;
 
-      // Trigger Generation
-      triggerApiCall(newText, history);
+    const editedUserMessage: Message = {
+      ...withMessageText(path[index], newText),
+      id: uuidv4(),
+      timestamp: Date.now()
+    };
 
-      return [...history, updatedUserMessage];
-    });
-  }, [mode, apiKey, temperature, systemPrompt, modelId]);
+    setMessages(prev => [...prev, editedUserMessage]);
+    triggerApiCall(getPromptParts(editedUserMessage), path.slice(0, index), editedUserMessage.id);
+  }, [mode, modes, provider, apiKey, temperature, systemPrompt, modelId, retryConfig, contextConfig, reasoningReplay, budgetConfig]);
 
+  // Regenerating adds a new answer next to the old one under the same prompt
   const handleRetryMessage = useCallback(async (id: string) => {
-    setMessages(prev => {
-      const index = prev.findIndex(msg => msg.id === id);
-      if (index === -1) return prev;
-      
-      // We assume the message at `index` is a Bot message we want to retry.
-      // We need the user message that came BEFORE it.
-      const userMsgIndex = index - 1;
-      
-      if (userMsgIndex < 0 || prev[userMsgIndex].role !== Role.USER) {
-        console.error("Cannot retry: No preceding user message found.");
-        return prev;
-      }
+    const path = activePathRef.current;
+    const index = path.findIndex(msg => msg.id === id);
+    const userMsgIndex = index - 1;
+
+    if (index === -1 || userMsgIndex < 0 || path[userMsgIndex].role !== Role.USER) {
+      console.error("Cannot retry: No preceding user message found.");
+      return;
+    }
+
+    if (!confirmWithinBudget()) return;
+
+    const userMsg = path[userMsgIndex];
+    triggerApiCall(getPromptParts(userMsg), path.slice(0, userMsgIndex), userMsg.id);
+  }, [mode, modes, provider, apiKey, temperature, systemPrompt, modelId, retryConfig, contextConfig, reasoningReplay, budgetConfig]);
 
-      // Keep history up to (and including) the user message
-      const historyIncludingUser = prev.slice(0, userMsgIndex + 1);
-      const userMsg = prev[userMsgIndex];
-      const historyContext = prev.slice(0, userMsgIndex); // Context excludes current prompt
+  // Continues an interrupted answer, sending the partial text as an assistant prefix
+  const handleResumeMessage = useCallback(async (id: string) => {
+    const path = activePathRef.current;
+    const index = path.findIndex(msg => msg.id === id);
+    const userMsgIndex = index - 1;
 
-      // Trigger API
-      triggerApiCall(userMsg.text, historyContext);
+    if (index === -1 || userMsgIndex < 0 || path[userMsgIndex].role !== Role.USER) {
+      console.error("Cannot resume: No preceding user message found.");
+      return;
+    }
+
+    if (!confirmWithinBudget()) return;
 
-      // Return history removing the old bot response (it will be re-added by triggerApiCall)
-      return historyIncludingUser;
-    });
-  }, [mode, apiKey, temperature, systemPrompt, modelId]);
+    const userMsg = path[userMsgIndex];
+    triggerApiCall(getPromptParts(userMsg), path.slice(0, userMsgIndex), userMsg.id, path[index]);
+  }, [mode, modes, provider, apiKey, temperature, systemPrompt, modelId, retryConfig, contextConfig, reasoningReplay, budgetConfig]);
 
   return (
-    <div className="flex flex-col h-screen bg-parchment-50 text-ink-900 font-sans selection:bg-bronze-100 selection:text-ink-900 relative">
+    <div className="flex h-screen bg-parchment-50 text-ink-900 font-sans selection:bg-bronze-100 selection:text-ink-900 relative">
       
       {/* Background Decor - Subtle Warm Light */}
       <div className="fixed inset-0 pointer-events-none z-[-1] overflow-hidden">
@@ -296,6 +1185,63 @@ function App() {
          <div className="absolute bottom-20 left-20 w-[500px] h-[500px] bg-parchment-200/40 rounded-full blur-[80px]"></div>
       </div>
 
+      {showModeManager && (
+        <ModeManager modes={modes} onSave={handleSaveModes} onClose={() => setShowModeManager(false)} />
+      )}
+
+      {showTemplateManager && (
+        <TemplateManager
+          templates={templates}
+          modes={modes}
+          currentMode={mode}
+          onSave={handleSaveTemplates}
+          onClose={() => setShowTemplateManager(false)}
+        />
+      )}
+
+      {showSearch && (
+        <SearchDialog
+          conversations={conversations}
+          modes={modes}
+          onJump={handleJumpToMessage}
+          onClose={() => setShowSearch(false)}
+        />
+      )}
+
+      {showCompareSetup && (
+        <CompareSetupDialog
+          providerId={providerId}
+          modelIds={compareModelIds}
+          isEnabled={isCompareMode}
+          onSave={handleSaveCompareSetup}
+          onClose={() => setShowCompareSetup(false)}
+        />
+      )}
+
+      {showSamplingSetup && (
+        <SamplingSetupDialog
+          config={samplingConfig}
+          isEnabled={isSamplingMode}
+          modelId={modelId}
+          temperature={temperature}
+          promptTokens={contextBaseTokens}
+          expectedCompletionTokens={estimateCompletionTokens(messages)}
+          maxCompletionTokens={getOutputReserve(contextLimit, contextConfig)}
+          pricing={modelPricing}
+          onSave={handleSaveSamplingSetup}
+          onClose={() => setShowSamplingSetup(false)}
+        />
+      )}
+
+      {showDatasetExport && (
+        <DatasetExportDialog
+          conversations={conversations}
+          modes={modes}
+          onDownload={downloadFile}
+          onClose={() => setShowDatasetExport(false)}
+        />
+      )}
+
       {/* Settings Modal (API Key & Parameters) */}
       {showSettings && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-ink-900/30 backdrop-blur-sm p-4 animate-fadeIn">
@@ -311,27 +1257,153 @@ function App() {
             </div>
             
             <div className="space-y-8">
-              {/* API Key Section */}
+              {/* Provider Section */}
               <div className="space-y-3">
                 <label className="block text-sm font-bold text-ink-900 tracking-wide uppercase flex items-center gap-2">
-                  <KeyIcon className="w-4 h-4 text-bronze-600" />
-                  OpenRouter API Key
+                  <CpuIcon className="w-4 h-4 text-bronze-600" />
+                  服务提供方 (Provider)
                 </label>
-                <div className="relative">
-                  <input 
-                    type="password" 
-                    value={apiKey}
-                    onChange={(e) => setApiKey(e.target.value)}
-                    placeholder="sk-or-..."
-                    className="w-full bg-parchment-50 border border-parchment-300 rounded-xl px-4 py-3 text-ink-900 focus:outline-none focus:border-bronze-500 focus:ring-1 focus:ring-bronze-500 transition-all font-mono"
+                <select
+                  value={providerId}
+                  onChange={(e) => handleProviderChange(e.target.value)}
+                  className="w-full bg-parchment-50 border border-parchment-300 rounded-xl px-4 py-3 text-ink-900 focus:outline-none focus:border-bronze-500 focus:ring-1 focus:ring-bronze-500 transition-all"
+                >
+                  {providers.map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+                <div>
+                  <label className="block text-xs font-bold text-ink-700 mb-1">接口地址 (Base URL)</label>
+                  <input
+                    type="text"
+                    value={provider.baseUrl}
+                    onChange={(e) => updateProvider({ baseUrl: e.target.value })}
+                    placeholder="https://.../v1"
+                    className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 font-mono text-sm focus:outline-none focus:border-bronze-500 transition-all"
                   />
                 </div>
-                <p className="text-xs text-ink-500 flex justify-between px-1">
-                  <span>密钥仅存储在本地浏览器。</span>
-                  <a href="https://openrouter.ai/keys" target="_blank" rel="noreferrer" className="text-bronze-600 hover:text-bronze-500 underline">获取 Key &rarr;</a>
-                </p>
+                <div className="flex gap-3">
+                  <div className="flex-1">
+                    <label className="block text-xs font-bold text-ink-700 mb-1">认证方式</label>
+                    <select
+                      value={provider.authScheme}
+                      onChange={(e) => updateProvider({ authScheme: e.target.value as AuthScheme })}
+                      className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 text-sm focus:outline-none focus:border-bronze-500 transition-all"
+                    >
+                      <option value="bearer">Bearer Token</option>
+                      <option value="header">自定义 Header</option>
+                      <option value="none">无需认证</option>
+                    </select>
+                  </div>
+                  {provider.authScheme === 'header' && (
+                    <div className="flex-1">
+                      <label className="block text-xs font-bold text-ink-700 mb-1">Header 名称</label>
+                      <input
+                        type="text"
+                        value={provider.authHeader || ''}
+                        onChange={(e) => updateProvider({ authHeader: e.target.value })}
+                        placeholder="api-key"
+                        className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 font-mono text-sm focus:outline-none focus:border-bronze-500 transition-all"
+                      />
+                    </div>
+                  )}
+                </div>
+
+                <button
+                  onClick={() => setShowAdvancedProvider(prev => !prev)}
+                  className="text-xs text-bronze-600 hover:text-bronze-800 underline"
+                >
+                  {showAdvancedProvider ? '收起字段映射 -' : '字段映射 (高级) +'}
+                </button>
+                {showAdvancedProvider && (
+                  <div className="space-y-3 p-4 bg-parchment-100/50 rounded-xl border border-parchment-200">
+                    <div>
+                      <label className="block text-xs font-bold text-ink-700 mb-1">最大输出字段</label>
+                      <select
+                        value={provider.maxTokensField}
+                        onChange={(e) => updateProvider({ maxTokensField: e.target.value as ProviderConfig['maxTokensField'] })}
+                        className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 font-mono text-sm focus:outline-none focus:border-bronze-500 transition-all"
+                      >
+                        <option value="max_tokens">max_tokens</option>
+                        <option value="max_completion_tokens">max_completion_tokens</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-ink-700 mb-1">推理字段 (按优先级，逗号分隔)</label>
+                      <input
+                        type="text"
+                        value={provider.reasoningFields.join(', ')}
+                        onChange={(e) => updateProvider({ reasoningFields: e.target.value.split(',').map(f => f.trim()).filter(Boolean) })}
+                        placeholder="reasoning_content, reasoning"
+                        className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 font-mono text-sm focus:outline-none focus:border-bronze-500 transition-all"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-ink-700 mb-1">附加请求参数 (JSON)</label>
+                      <textarea
+                        value={extraBodyText}
+                        onChange={(e) => setExtraBodyText(e.target.value)}
+                        className="w-full h-20 bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 font-mono text-xs resize-none focus:outline-none focus:border-bronze-500 transition-all"
+                      />
+                    </div>
+                    <button
+                      onClick={resetProviderConfig}
+                      className="text-xs text-bronze-600 hover:text-bronze-800 underline flex items-center gap-1"
+                    >
+                      <RefreshIcon className="w-3 h-3" /> 恢复该提供方默认配置
+                    </button>
+                  </div>
+                )}
               </div>
 
+              {/* API Key Section */}
+              {provider.authScheme !== 'none' && (
+                <div className="space-y-3">
+                  <label className="block text-sm font-bold text-ink-900 tracking-wide uppercase flex items-center gap-2">
+                    <KeyIcon className="w-4 h-4 text-bronze-600" />
+                    {provider.name} API Key
+                  </label>
+                  <div className="relative">
+                    <input 
+                      type="password" 
+                      value={apiKey}
+                      onChange={(e) => setApiKey(e.target.value)}
+                      placeholder={provider.keyPlaceholder || 'sk-...'}
+                      className="w-full bg-parchment-50 border border-parchment-300 rounded-xl px-4 py-3 text-ink-900 focus:outline-none focus:border-bronze-500 focus:ring-1 focus:ring-bronze-500 transition-all font-mono"
+                    />
+                  </div>
+                  <p className="text-xs text-ink-500 flex justify-between px-1">
+                    <span>每个提供方的密钥单独存储在本地浏览器。</span>
+                    {provider.keyUrl && (
+                      <a href={provider.keyUrl} target="_blank" rel="noreferrer" className="text-bronze-600 hover:text-bronze-500 underline">获取 Key &rarr;</a>
+                    )}
+                  </p>
+                  {provider.creditsPath && (
+                    <div className="flex items-center justify-between px-3 py-2 rounded-lg bg-parchment-100 border border-parchment-200 text-xs">
+                      <span className="text-ink-700">
+                        剩余额度：
+                        <span className="font-mono font-bold text-bronze-700">
+                          {keyCredits
+                            ? (keyCredits.remaining === null ? '不限额' : `${keyCredits.remaining.toFixed(2)} ${keyCredits.currency}`)
+                            : (isFetchingCredits ? '查询中…' : '未知')}
+                        </span>
+                        {keyCredits?.used !== undefined && (
+                          <span className="text-ink-400 ml-2">已用 {keyCredits.used.toFixed(2)} {keyCredits.currency}</span>
+                        )}
+                      </span>
+                      <button
+                        onClick={refreshKeyCredits}
+                        disabled={isFetchingCredits || !apiKey}
+                        className="text-bronze-600 hover:text-bronze-800 disabled:opacity-40"
+                        title="刷新额度"
+                      >
+                        <RefreshIcon className={`w-3.5 h-3.5 ${isFetchingCredits ? 'animate-spin' : ''}`} />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Model Parameters Board */}
               <div className="space-y-4 p-5 bg-parchment-100/50 rounded-2xl border border-parchment-200">
                 <div className="flex items-center justify-between">
@@ -351,15 +1423,15 @@ function App() {
                 {/* Model ID Input */}
                 <div>
                    <label className="block text-sm font-bold text-ink-700 mb-2">模型 ID (Model ID)</label>
-                   <input 
-                     type="text" 
+                   <ModelPicker
+                     provider={provider}
+                     apiKey={apiKey}
+                     canFetch={isProviderReady}
                      value={modelId}
-                     onChange={(e) => setModelId(e.target.value)}
-                     placeholder={DEFAULT_MODEL_ID}
-                     className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 font-mono text-sm focus:outline-none focus:border-bronze-500 transition-all"
+                     onChange={setModelId}
                    />
                    <p className="text-[10px] text-ink-400 mt-1">
-                     默认: <code className="bg-parchment-200 px-1 rounded text-bronze-700">{DEFAULT_MODEL_ID}</code>
+                     默认: <code className="bg-parchment-200 px-1 rounded text-bronze-700">{provider.defaultModelId || '未设置'}</code>
                    </p>
                 </div>
                 
@@ -398,10 +1470,224 @@ function App() {
 
                 <div className="pt-2 border-t border-parchment-200">
                    <p className="text-xs text-ink-500 leading-relaxed">
-                     <strong className="text-ink-700">配置说明：</strong> 若遇到 "Provider returned error"，请检查 Model ID 是否正确。推荐使用 DeepSeek R1 以获得完整的推理思考过程。
+                     <strong className="text-ink-700">配置说明：</strong> 模型列表中带 <BrainIcon className="w-3 h-3 inline text-bronze-500" /> 标记的模型会输出完整的推理思考过程；列表缓存在本地，离线时同样可用。
                    </p>
                 </div>
               </div>
+
+              {/* Context Budget */}
+              <div className="space-y-3 p-5 bg-parchment-100/50 rounded-2xl border border-parchment-200">
+                <h4 className="font-bold text-ink-900 text-sm uppercase tracking-wide flex items-center gap-2">
+                  <BrainIcon className="w-4 h-4 text-bronze-600" />
+                  上下文管理
+                </h4>
+                <div>
+                  <label className="block text-xs font-bold text-ink-700 mb-1">超出上下文窗口时</label>
+                  <select
+                    value={contextConfig.policy}
+                    onChange={(e) => setContextConfig(prev => ({ ...prev, policy: e.target.value as ContextPolicy }))}
+                    className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 text-sm focus:outline-none focus:border-bronze-500 transition-all"
+                  >
+                    <option value="keep-pinned">丢弃最早消息，保留置顶消息</option>
+                    <option value="drop-oldest">丢弃最早消息</option>
+                    <option value="summarize">用模型总结较早的对话</option>
+                  </select>
+                </div>
+                <div className="flex gap-3">
+                  <div className="flex-1">
+                    <label className="block text-xs font-bold text-ink-700 mb-1">上下文窗口 (tokens)</label>
+                    <input
+                      type="number"
+                      min={1024}
+                      step={1024}
+                      value={contextLimitDraft}
+                      onChange={(e) => setContextLimitDraft(e.target.value)}
+                      placeholder={String(getContextLimit(modelId.trim()))}
+                      className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 font-mono text-sm focus:outline-none focus:border-bronze-500 transition-all"
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <label className="block text-xs font-bold text-ink-700 mb-1">最大输出 (tokens)</label>
+                    <input
+                      type="number"
+                      min={256}
+                      step={1024}
+                      value={contextConfig.maxOutputTokens}
+                      onChange={(e) => setContextConfig(prev => ({ ...prev, maxOutputTokens: Math.max(256, parseInt(e.target.value, 10) || 256) }))}
+                      className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 font-mono text-sm focus:outline-none focus:border-bronze-500 transition-all"
+                    />
+                  </div>
+                </div>
+                <p className="text-[10px] text-ink-400">上下文窗口按当前模型 ID 单独保存；留空则使用内置估计值。</p>
+                <div className="flex gap-3">
+                  <div className="flex-1">
+                    <label className="block text-xs font-bold text-ink-700 mb-1">历史思考过程回传 (本对话)</label>
+                    <select
+                      value={reasoningReplay.policy}
+                      onChange={(e) => setReasoningReplay(prev => ({ ...prev, policy: e.target.value as ReasoningReplay['policy'] }))}
+                      className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 text-sm focus:outline-none focus:border-bronze-500 transition-all"
+                    >
+                      {(Object.keys(REASONING_REPLAY_LABELS) as ReasoningReplay['policy'][]).map(policy => (
+                        <option key={policy} value={policy}>{REASONING_REPLAY_LABELS[policy]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {reasoningReplay.policy === 'last-n' && (
+                    <div className="w-24">
+                      <label className="block text-xs font-bold text-ink-700 mb-1">N (轮)</label>
+                      <input
+                        type="number"
+                        min={1}
+                        max={20}
+                        value={reasoningReplay.lastTurns}
+                        onChange={(e) => setReasoningReplay(prev => ({ ...prev, lastTurns: Math.max(1, parseInt(e.target.value, 10) || 1) }))}
+                        className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 font-mono text-sm focus:outline-none focus:border-bronze-500 transition-all"
+                      />
+                    </div>
+                  )}
+                </div>
+                <p className="text-[10px] text-ink-400">
+                  {provider.reasoningInputField
+                    ? `${provider.name} 支持 ${provider.reasoningInputField} 字段；若被拒绝 (400) 会自动改为拼接到正文重发。`
+                    : `${provider.name} 不支持 reasoning 字段，将改为以 <think> 标签拼接到回答正文前。`}
+                </p>
+              </div>
+
+              {/* Cost & Budget */}
+              <div className="space-y-3 p-5 bg-parchment-100/50 rounded-2xl border border-parchment-200">
+                <h4 className="font-bold text-ink-900 text-sm uppercase tracking-wide flex items-center gap-2">
+                  <CoinIcon className="w-4 h-4 text-bronze-600" />
+                  费用与预算
+                </h4>
+                <div className="flex gap-3">
+                  <div className="flex-1">
+                    <label className="block text-xs font-bold text-ink-700 mb-1">输入价格 ($/百万 tokens)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={pricingDraft.prompt}
+                      onChange={(e) => setPricingDraft(prev => ({ ...prev, prompt: e.target.value }))}
+                      placeholder={(() => {
+                        const price = getModelPricing(provider, modelId.trim());
+                        return price ? String(+(price.prompt * 1e6).toFixed(4)) : '未知';
+                      })()}
+                      className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 font-mono text-sm focus:outline-none focus:border-bronze-500 transition-all"
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <label className="block text-xs font-bold text-ink-700 mb-1">输出价格 ($/百万 tokens)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={pricingDraft.completion}
+                      onChange={(e) => setPricingDraft(prev => ({ ...prev, completion: e.target.value }))}
+                      placeholder={(() => {
+                        const price = getModelPricing(provider, modelId.trim());
+                        return price ? String(+(price.completion * 1e6).toFixed(4)) : '未知';
+                      })()}
+                      className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 font-mono text-sm focus:outline-none focus:border-bronze-500 transition-all"
+                    />
+                  </div>
+                </div>
+                <p className="text-[10px] text-ink-400">价格按当前模型 ID 单独保存；留空则使用提供方公布的价格。</p>
+                <div className="flex gap-3">
+                  <div className="flex-1">
+                    <label className="block text-xs font-bold text-ink-700 mb-1">每日预算 ($)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={budgetConfig.dailyLimit || ''}
+                      onChange={(e) => setBudgetConfig(prev => ({ ...prev, dailyLimit: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                      placeholder="不限"
+                      className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 font-mono text-sm focus:outline-none focus:border-bronze-500 transition-all"
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <label className="block text-xs font-bold text-ink-700 mb-1">单会话预算 ($)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={budgetConfig.conversationLimit || ''}
+                      onChange={(e) => setBudgetConfig(prev => ({ ...prev, conversationLimit: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                      placeholder="不限"
+                      className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 font-mono text-sm focus:outline-none focus:border-bronze-500 transition-all"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-ink-700 mb-1">超出预算时</label>
+                  <select
+                    value={budgetConfig.action}
+                    onChange={(e) => setBudgetConfig(prev => ({ ...prev, action: e.target.value as BudgetConfig['action'] }))}
+                    className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 text-sm focus:outline-none focus:border-bronze-500 transition-all"
+                  >
+                    <option value="warn">提醒，确认后仍可发送</option>
+                    <option value="block">阻止发送</option>
+                  </select>
+                </div>
+                <p className="text-[10px] text-ink-400">
+                  今日已花费 {formatCost(dailySpend)}，本会话 {formatCost(conversationCost)}。
+                </p>
+              </div>
+
+              {/* Retry Policy */}
+              <div className="space-y-3 p-5 bg-parchment-100/50 rounded-2xl border border-parchment-200">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-bold text-ink-900 text-sm uppercase tracking-wide flex items-center gap-2">
+                    <RefreshIcon className="w-4 h-4 text-bronze-600" />
+                    自动重试
+                  </h4>
+                  <input
+                    type="checkbox"
+                    checked={retryConfig.enabled}
+                    onChange={(e) => setRetryConfig(prev => ({ ...prev, enabled: e.target.checked }))}
+                    className="w-4 h-4 accent-bronze-600"
+                  />
+                </div>
+                {retryConfig.enabled && (
+                  <>
+                    <div className="flex gap-3">
+                      <div className="flex-1">
+                        <label className="block text-xs font-bold text-ink-700 mb-1">最大重试次数</label>
+                        <input
+                          type="number"
+                          min={1}
+                          max={10}
+                          value={retryConfig.maxRetries}
+                          onChange={(e) => setRetryConfig(prev => ({ ...prev, maxRetries: Math.max(1, Math.min(10, parseInt(e.target.value, 10) || 1)) }))}
+                          className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 font-mono text-sm focus:outline-none focus:border-bronze-500 transition-all"
+                        />
+                      </div>
+                      <div className="flex-1">
+                        <label className="block text-xs font-bold text-ink-700 mb-1">初始等待 (秒)</label>
+                        <input
+                          type="number"
+                          min={0.5}
+                          max={30}
+                          step={0.5}
+                          value={retryConfig.baseDelayMs / 1000}
+                          onChange={(e) => setRetryConfig(prev => ({ ...prev, baseDelayMs: Math.round(Math.max(0.5, parseFloat(e.target.value) || 1) * 1000) }))}
+                          className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 font-mono text-sm focus:outline-none focus:border-bronze-500 transition-all"
+                        />
+                      </div>
+                    </div>
+                    <label className="flex items-center gap-2 text-xs text-ink-700">
+                      <input
+                        type="checkbox"
+                        checked={retryConfig.autoResume}
+                        onChange={(e) => setRetryConfig(prev => ({ ...prev, autoResume: e.target.checked }))}
+                        className="w-3.5 h-3.5 accent-bronze-600"
+                      />
+                      流中断时从已生成内容续写 (而非从头重新生成)
+                    </label>
+                    <p className="text-[10px] text-ink-400">遇到 429 / 5xx 或连接中断时按指数退避重试，并遵循服务端的 Retry-After。</p>
+                  </>
+                )}
+              </div>
               
               <div className="flex gap-3 pt-2">
                  <button 
@@ -422,112 +1708,231 @@ function App() {
         </div>
       )}
 
-      {/* Header */}
-      <header className="flex-none h-20 border-b border-parchment-200 bg-parchment-50/90 backdrop-blur-xl sticky top-0 z-10 shadow-sm">
-        <div className="max-w-7xl mx-auto px-6 h-full flex items-center justify-between">
-          <div className="flex items-center gap-4">
-            {/* Logo Section */}
+      {/* Conversation Sidebar */}
+      <ConversationSidebar
+        conversations={conversations}
+        activeConversationId={activeConversationId}
+        isOpen={isSidebarOpen}
+        isLoading={isBusy}
+        onClose={() => setIsSidebarOpen(false)}
+        onNew={handleNewConversation}
+        onSelect={handleSelectConversation}
+        onRename={handleRenameConversation}
+        onTogglePin={handleTogglePinConversation}
+        onDelete={handleDeleteConversation}
+        onImport={handleImportConversation}
+        onSearch={() => setShowSearch(true)}
+      />
+
+      <div className="flex flex-col flex-1 min-w-0 h-full relative">
+        {/* Header */}
+        <header className="flex-none h-20 border-b border-parchment-200 bg-parchment-50/90 backdrop-blur-xl sticky top-0 z-10 shadow-sm">
+          <div className="max-w-7xl mx-auto px-6 h-full flex items-center justify-between">
             <div className="flex items-center gap-4">
-              <div className="w-10 h-10 rounded-xl bg-bronze-600 flex items-center justify-center shadow-lg shadow-bronze-600/20 relative overflow-hidden group">
-                <div className="absolute inset-0 bg-white/10 animate-pulse-fast"></div>
-                <BrainIcon className="w-6 h-6 text-white relative z-10" />
-              </div>
-              <div>
-                <h1 className="text-2xl font-bold text-ink-900 tracking-tight leading-none font-serif flex items-center gap-3">
-                  DeepSeek <span className="text-xs bg-parchment-200 text-ink-700 px-2 py-0.5 rounded border border-parchment-300 font-sans tracking-widest">SPECIALE</span>
-                </h1>
+              <button
+                onClick={() => setIsSidebarOpen(prev => !prev)}
+                className="p-2.5 text-ink-500 hover:text-bronze-600 hover:bg-parchment-100 rounded-xl transition-colors"
+                title="会话列表"
+              >
+                <MenuIcon className="w-6 h-6" />
+              </button>
+              {/* Logo Section */}
+              <div className="flex items-center gap-4">
+                <div className="w-10 h-10 rounded-xl bg-bronze-600 flex items-center justify-center shadow-lg shadow-bronze-600/20 relative overflow-hidden group">
+                  <div className="absolute inset-0 bg-white/10 animate-pulse-fast"></div>
+                  <BrainIcon className="w-6 h-6 text-white relative z-10" />
+                </div>
+                <div>
+                  <h1 className="text-2xl font-bold text-ink-900 tracking-tight leading-none font-serif flex items-center gap-3">
+                    DeepSeek <span className="text-xs bg-parchment-200 text-ink-700 px-2 py-0.5 rounded border border-parchment-300 font-sans tracking-widest">SPECIALE</span>
+                  </h1>
+                </div>
               </div>
             </div>
-          </div>
 
-          {/* Center Timer */}
-          <div className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 pointer-events-none">
-             {isLoading && (
-               <div className="flex items-center gap-3 px-5 py-2 rounded-full bg-white border border-bronze-200 shadow-sm">
-                 <span className="relative flex h-2.5 w-2.5">
-                    <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-bronze-400 opacity-75"></span>
-                    <span className="relative inline-flex rounded-full h-2.5 w-2.5 bg-bronze-500"></span>
-                  </span>
-                 <span className="text-ink-900 text-xl font-mono font-bold tracking-wider min-w-[80px]">
-                   {(timerMs / 1000).toFixed(2)}s
-                 </span>
-               </div>
-             )}
-          </div>
+            {/* Center Timer */}
+            <div className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 pointer-events-none">
+               {isLoading && (
+                 <div className="flex items-center gap-3 px-5 py-2 rounded-full bg-white border border-bronze-200 shadow-sm">
+                   <span className="relative flex h-2.5 w-2.5">
+                      <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-bronze-400 opacity-75"></span>
+                      <span className="relative inline-flex rounded-full h-2.5 w-2.5 bg-bronze-500"></span>
+                    </span>
+                   <span className="text-ink-900 text-xl font-mono font-bold tracking-wider min-w-[80px]">
+                     {(timerMs / 1000).toFixed(2)}s
+                   </span>
+                 </div>
+               )}
+            </div>
+
+            <div className="flex items-center gap-3">
+               <span
+                 className={`hidden md:inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-mono border ${budgetNotice ? 'bg-red-50 text-red-700 border-red-200' : 'bg-parchment-100 text-ink-500 border-parchment-200'}`}
+                 title={budgetNotice || '本会话花费 · 今日花费'}
+               >
+                 <CoinIcon className="w-3.5 h-3.5" />
+                 {formatCost(conversationCost)} · 今日 {formatCost(dailySpend)}
+               </span>
 
-          <div className="flex items-center gap-3">
-             {/* Action Buttons */}
-             <button 
-               onClick={handleExportChat}
-               disabled={messages.length === 0}
-               className="p-3 text-ink-500 hover:text-bronze-600 hover:bg-parchment-100 rounded-xl transition-colors"
-               title="导出对话"
-             >
-               <DownloadIcon className="w-6 h-6" />
-             </button>
+               {/* Action Buttons */}
+               <div className="relative">
+                 <button 
+                   onClick={() => setShowExportMenu(prev => !prev)}
+                   disabled={activePath.length === 0 && conversations.length === 0}
+                   className="p-3 text-ink-500 hover:text-bronze-600 hover:bg-parchment-100 rounded-xl transition-colors"
+                   title="导出对话"
+                 >
+                   <DownloadIcon className="w-6 h-6" />
+                 </button>
+                 {showExportMenu && (
+                   <>
+                     <div className="fixed inset-0 z-20" onClick={() => setShowExportMenu(false)} />
+                     <div className="absolute right-0 top-full mt-2 w-56 bg-white border border-parchment-200 rounded-xl shadow-xl py-1 z-30">
+                       <button onClick={handleExportChat} className="w-full px-4 py-2 text-left text-sm text-ink-700 hover:bg-parchment-100">
+                         Markdown <span className="text-xs text-ink-400">(当前分支，便于阅读)</span>
+                       </button>
+                       <button onClick={handleExportJson} className="w-full px-4 py-2 text-left text-sm text-ink-700 hover:bg-parchment-100">
+                         JSON <span className="text-xs text-ink-400">(完整备份，可重新导入)</span>
+                       </button>
+                       <button onClick={handleOpenDatasetExport} className="w-full px-4 py-2 text-left text-sm text-ink-700 hover:bg-parchment-100 border-t border-parchment-100">
+                         数据集 <span className="text-xs text-ink-400">(JSONL / ShareGPT / CSV)</span>
+                       </button>
+                     </div>
+                   </>
+                 )}
+               </div>
              
-             <button 
-               onClick={() => setShowSettings(true)}
-               className="p-3 text-ink-500 hover:text-bronze-600 hover:bg-parchment-100 rounded-xl transition-colors"
-               title="OpenRouter 设置"
-             >
-               <SettingsIcon className="w-6 h-6" />
-             </button>
-
-             <div className="h-8 w-px bg-parchment-300 hidden md:block mx-1"></div>
+               {supportsVoting(mode) && (
+                 <button 
+                   onClick={() => setShowSamplingSetup(true)}
+                   disabled={isSampling}
+                   className={`p-3 rounded-xl transition-colors disabled:opacity-30 ${isSamplingMode ? 'text-bronze-600 bg-bronze-50' : 'text-ink-500 hover:text-bronze-600 hover:bg-parchment-100'}`}
+                   title={isSamplingMode ? `多次采样投票已开启：${samplingConfig.samples} 次` : '多次采样投票'}
+                 >
+                   <VoteIcon className="w-6 h-6" />
+                 </button>
+               )}
+
+               <button 
+                 onClick={() => setShowCompareSetup(true)}
+                 disabled={isComparing}
+                 className={`p-3 rounded-xl transition-colors disabled:opacity-30 ${isCompareMode ? 'text-bronze-600 bg-bronze-50' : 'text-ink-500 hover:text-bronze-600 hover:bg-parchment-100'}`}
+                 title={isCompareMode ? `多模型对比已开启：${compareModelIds.join(' vs ')}` : '多模型对比'}
+               >
+                 <ColumnsIcon className="w-6 h-6" />
+               </button>
+
+               <button 
+                 onClick={() => setShowSettings(true)}
+                 className="p-3 text-ink-500 hover:text-bronze-600 hover:bg-parchment-100 rounded-xl transition-colors"
+                 title="提供方与模型设置"
+               >
+                 <SettingsIcon className="w-6 h-6" />
+               </button>
+
+               <div className="h-8 w-px bg-parchment-300 hidden md:block mx-1"></div>
              
-             <button 
-               onClick={handleClearChat}
-               disabled={messages.length === 0 || isLoading}
-               className="p-3 text-ink-500 hover:text-red-600 hover:bg-red-50 rounded-xl transition-colors disabled:opacity-30"
-             >
-               <TrashIcon className="w-6 h-6" />
-             </button>
-          </div>
-        </div>
-      </header>
-
-      {/* Main Chat Area */}
-      <main className="flex-1 min-h-0 overflow-y-auto p-4 md:p-6 scroll-smooth relative z-[1]">
-        <div className="max-w-5xl mx-auto flex flex-col min-h-full">
-          {messages.length === 0 ? (
-            <div className="flex-1 flex flex-col items-center justify-center text-ink-300 mt-10">
-               <div className="w-24 h-24 mb-6 rounded-3xl bg-parchment-100 flex items-center justify-center">
-                 <BrainIcon className="w-12 h-12 text-parchment-300" />
-               </div>
-               <h2 className="text-3xl font-serif text-ink-900 mb-2 font-bold">DeepSeek V3.2 Speciale</h2>
-               <p className="text-lg text-ink-500">等待输入指令...</p>
+               <button 
+                 onClick={handleNewConversation}
+                 disabled={activePath.length === 0 || isBusy}
+                 className="p-3 text-ink-500 hover:text-bronze-600 hover:bg-parchment-100 rounded-xl transition-colors disabled:opacity-30"
+                 title="新对话"
+               >
+                 <PlusIcon className="w-6 h-6" />
+               </button>
             </div>
-          ) : (
-            <div className="flex-1 pb-4">
-              {messages.map((msg) => (
-                <ChatMessage 
-                  key={msg.id} 
-                  message={msg} 
-                  onDelete={handleDeleteMessage}
-                  onEdit={handleEditMessage}
-                  onRetry={handleRetryMessage}
-                  isLoading={isLoading}
-                />
-              ))}
-              <div ref={messagesEndRef} />
-            </div>
-          )}
-        </div>
-      </main>
-
-      {/* Input Area */}
-      <footer className="flex-none z-10 bg-gradient-to-t from-parchment-50 via-parchment-50 to-transparent pt-4">
-        <ChatInput 
-          onSend={handleSendMessage} 
-          onStop={handleStopGeneration}
-          isLoading={isLoading} 
-          disabled={!apiKey}
-          currentMode={mode}
-          onModeChange={setMode}
-          modelId={modelId}
-        />
-      </footer>
+          </div>
+        </header>
+
+        {/* Main Chat Area */}
+        <main className="flex-1 min-h-0 overflow-y-auto p-4 md:p-6 scroll-smooth relative z-[1]">
+          <div className="max-w-5xl mx-auto flex flex-col min-h-full">
+            {activePath.length === 0 ? (
+              <div className="flex-1 flex flex-col items-center justify-center text-ink-300 mt-10">
+                 <div className="w-24 h-24 mb-6 rounded-3xl bg-parchment-100 flex items-center justify-center">
+                   <BrainIcon className="w-12 h-12 text-parchment-300" />
+                 </div>
+                 <h2 className="text-3xl font-serif text-ink-900 mb-2 font-bold">DeepSeek V3.2 Speciale</h2>
+                 <p className="text-lg text-ink-500">等待输入指令...</p>
+              </div>
+            ) : (
+              <div className="flex-1 pb-4">
+                {activePath.map((msg) => {
+                  const siblings = getSiblings(childrenIndex, msg);
+                  return (
+                    <React.Fragment key={msg.id}>
+                      <ChatMessage 
+                        message={msg} 
+                        modeLabel={modes.find(m => m.id === msg.mode)?.label}
+                        onDelete={handleDeleteMessage}
+                        onEdit={handleEditMessage}
+                        onRetry={handleRetryMessage}
+                        onResume={handleResumeMessage}
+                        onTogglePin={handleTogglePinMessage}
+                        onSwitchBranch={handleSwitchBranch}
+                        onTest={(id) => setTestingMessageId(prev => prev === id ? null : id)}
+                        branchIndex={siblings.findIndex(sibling => sibling.id === msg.id)}
+                        branchCount={siblings.length}
+                        isLoading={isBusy}
+                        isHighlighted={msg.id === highlightedMessageId}
+                      />
+                      {compareRun?.parentId === msg.id && (
+                        <CompareView
+                          run={compareRun}
+                          onStop={handleStopCompareColumn}
+                          onPromote={handlePromoteCompareColumn}
+                          onClose={() => setCompareRun(null)}
+                        />
+                      )}
+                      {samplingRun?.parentId === msg.id && (
+                        <SamplingView
+                          run={samplingRun}
+                          onStop={handleStopGeneration}
+                          onPromote={handlePromoteSample}
+                          onClose={() => setSamplingRun(null)}
+                        />
+                      )}
+                      {testingMessageId === msg.id && (
+                        <TestHarnessPanel
+                          answer={msg.text}
+                          testCases={testCases}
+                          isLoading={isLoading}
+                          onChange={setTestCases}
+                          onSendFailures={handleSendFailedCases}
+                          onClose={() => setTestingMessageId(null)}
+                        />
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+                <div ref={messagesEndRef} />
+              </div>
+            )}
+          </div>
+        </main>
+
+        {/* Input Area */}
+        <footer className="flex-none z-10 bg-gradient-to-t from-parchment-50 via-parchment-50 to-transparent pt-4">
+          <ChatInput 
+            onSend={handleSendMessage} 
+            onStop={handleStopGeneration}
+            isLoading={isBusy} 
+            disabled={!isProviderReady}
+            modes={modes}
+            currentMode={mode}
+            onModeChange={handleModeChange}
+            onManageModes={() => setShowModeManager(true)}
+            templates={templates}
+            onManageTemplates={() => setShowTemplateManager(true)}
+            modelId={isCompareMode ? compareModelIds.join(' vs ') : isSamplingActive ? `${modelId} ×${samplingConfig.samples}` : modelId}
+            supportsImages={imageSupport}
+            providerName={provider.name}
+            contextUsedTokens={contextBaseTokens}
+            contextLimit={contextLimit}
+            outputReserveTokens={getOutputReserve(contextLimit, contextConfig)}
+          />
+        </footer>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,107 @@
+import React, { useMemo } from 'react';
+import { BirthInfo } from '../types';
+import {
+  HEAVENLY_STEMS, EARTHLY_BRANCHES, FIVE_ELEMENTS, computeBazi, getStemElement, getBranchElement
+} from '../services/bazi';
+import { FengshuiIcon } from './Icons';
+
+interface BaziChartViewProps {
+  birth: BirthInfo;
+}
+
+// 木 火 土 金 水, by FIVE_ELEMENTS index
+const ELEMENT_COLORS = ['text-emerald-700', 'text-red-600', 'text-amber-700', 'text-yellow-600', 'text-sky-700'];
+
+const BaziChartView: React.FC<BaziChartViewProps> = ({ birth }) => {
+  const result = useMemo(() => {
+    try {
+      return { chart: computeBazi(birth) };
+    } catch (e: any) {
+      return { error: e?.message || String(e) };
+    }
+  }, [birth]);
+
+  if (!result.chart) {
+    return (
+      <div className="p-3 rounded-xl bg-red-50 border border-red-200 text-sm text-red-600">
+        排盘失败：{result.error}
+      </div>
+    );
+  }
+
+  const { chart } = result;
+  const { years, months, days } = chart.luck.startOffset;
+
+  return (
+    <div className="w-full max-w-xl bg-white border border-parchment-200 rounded-2xl p-4 shadow-sm text-ink-900">
+      <div className="flex items-center gap-2 mb-1">
+        <FengshuiIcon className="w-4 h-4 text-bronze-600" />
+        <span className="text-sm font-bold font-serif">八字排盘</span>
+        <span className="ml-auto text-[10px] text-ink-400 font-mono">本地计算</span>
+      </div>
+      <div className="text-xs text-ink-500 mb-3 space-y-0.5">
+        <div>
+          {chart.localTime}（{birth.timeZone}，{chart.utcOffset}）· {birth.gender === 'male' ? '乾造' : '坤造'}
+          {birth.place && ` · ${birth.place}`}
+        </div>
+        <div>农历 {chart.lunarDate}</div>
+        {chart.trueSolarTime && (
+          <div>真太阳时 {chart.trueSolarTime.time}（经度 {birth.longitude}°，{chart.trueSolarTime.correctionMinutes >= 0 ? '+' : ''}{chart.trueSolarTime.correctionMinutes} 分钟）</div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 text-center">
+        {chart.pillars.map(pillar => (
+          <div key={pillar.label} className="rounded-xl bg-parchment-50 border border-parchment-200 py-2">
+            <div className="text-[10px] text-ink-400">{pillar.label}</div>
+            <div className="text-[11px] text-bronze-700 font-bold mt-1">{pillar.tenGod}</div>
+            <div className={`text-2xl font-serif font-bold ${ELEMENT_COLORS[getStemElement(pillar.stem)]}`}>
+              {HEAVENLY_STEMS[pillar.stem]}
+            </div>
+            <div className={`text-2xl font-serif font-bold ${ELEMENT_COLORS[getBranchElement(pillar.branch)]}`}>
+              {EARTHLY_BRANCHES[pillar.branch]}
+            </div>
+            <div className="mt-1 space-y-0.5">
+              {pillar.hiddenStems.map(hidden => (
+                <div key={hidden.stem} className="text-[10px] text-ink-500">
+                  <span className={ELEMENT_COLORS[getStemElement(hidden.stem)]}>{HEAVENLY_STEMS[hidden.stem]}</span> {hidden.tenGod}
+                </div>
+              ))}
+            </div>
+            <div className="text-[10px] text-ink-400 mt-1">{pillar.nayin}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-ink-700">
+        <span>日主 <b className={ELEMENT_COLORS[getStemElement(chart.dayMaster.stem)]}>{HEAVENLY_STEMS[chart.dayMaster.stem]}{chart.dayMaster.element}</b></span>
+        <span className="flex gap-2">
+          {FIVE_ELEMENTS.map((element, index) => (
+            <span key={element} className={ELEMENT_COLORS[index]}>{element}{chart.elementCounts[element]}</span>
+          ))}
+        </span>
+      </div>
+      <div className="mt-1 text-[11px] text-ink-500">
+        生于{chart.previousJie.name}（{chart.previousJie.time}）后，{chart.nextJie.name}（{chart.nextJie.time}）前
+      </div>
+
+      <div className="mt-3 pt-3 border-t border-parchment-200">
+        <div className="text-xs text-ink-700 mb-2">
+          大运{chart.luck.forward ? '顺行' : '逆行'}，{years} 年 {months} 个月 {days} 天起运（约 {chart.luck.startDate}）
+        </div>
+        <div className="flex gap-1.5 overflow-x-auto pb-1">
+          {chart.luck.pillars.map(luck => (
+            <div key={luck.startAge} className="shrink-0 w-12 rounded-lg bg-parchment-50 border border-parchment-200 py-1 text-center">
+              <div className="text-[10px] text-ink-400">{luck.startAge}岁</div>
+              <div className="text-sm font-serif font-bold">{luck.name}</div>
+              <div className="text-[10px] text-bronze-700">{luck.tenGod}</div>
+              <div className="text-[9px] text-ink-400 font-mono">{luck.startYear}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BaziChartView;
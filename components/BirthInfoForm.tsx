@@ -0,0 +1,334 @@
+import React, { useMemo, useState } from 'react';
+import { BirthInfo } from '../types';
+import { isValidTimeZone, formatWallTime, utcToZonedTime } from '../services/zonedTime';
+import { getLunarMonths, getLunarMonthName, getLunarDayName, lunarToSolar, solarToLunar } from '../services/lunarCalendar';
+import { getSolarTerms } from '../services/solarTerms';
+import { DayBoundary, computeBazi } from '../services/bazi';
+import { FengshuiIcon, ChevronRightIcon } from './Icons';
+
+interface BirthInfoFormProps {
+  attached?: BirthInfo; // Birth data already attached to the draft
+  disabled?: boolean;
+  onAttach: (birth: BirthInfo) => void;
+}
+
+// Approximate longitudes for the birthplace picker; any other place can be typed in by hand
+const CITY_LONGITUDES: Record<string, number> = {
+  北京: 116.41, 上海: 121.47, 天津: 117.2, 重庆: 106.55, 广州: 113.26, 深圳: 114.06, 杭州: 120.16,
+  南京: 118.8, 成都: 104.07, 武汉: 114.31, 西安: 108.94, 沈阳: 123.43, 哈尔滨: 126.64, 长春: 125.32,
+  济南: 117.12, 青岛: 120.38, 郑州: 113.63, 长沙: 112.94, 南昌: 115.86, 福州: 119.3, 厦门: 118.09,
+  合肥: 117.23, 昆明: 102.83, 贵阳: 106.63, 南宁: 108.37, 海口: 110.2, 兰州: 103.83, 西宁: 101.78,
+  银川: 106.23, 呼和浩特: 111.75, 乌鲁木齐: 87.62, 拉萨: 91.11, 太原: 112.55, 石家庄: 114.51,
+  香港: 114.17, 澳门: 113.54, 台北: 121.56
+};
+
+interface Draft {
+  calendar: 'solar' | 'lunar';
+  solarDate: string;
+  lunarYear: string;
+  lunarMonth: string; // "<month>" or "<month>L" for a leap month
+  lunarDay: number;
+  time: string;
+  timeZone: string;
+  gender: BirthInfo['gender'];
+  place: string;
+  longitude: string;
+  dayBoundary: DayBoundary;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const draftFromBirth = (birth?: BirthInfo): Draft => {
+  const base: Draft = {
+    calendar: 'solar', solarDate: '', lunarYear: String(new Date().getFullYear()), lunarMonth: '1', lunarDay: 1,
+    time: '12:00', timeZone: 'Asia/Shanghai', gender: 'male', place: '', longitude: '', dayBoundary: 'zichu'
+  };
+  if (!birth) return base;
+  const [year, month, day] = birth.date.split('-').map(Number);
+  const lunar = solarToLunar({ year, month, day });
+  return {
+    ...base,
+    calendar: birth.calendar || 'solar',
+    solarDate: birth.date,
+    lunarYear: String(lunar.year),
+    lunarMonth: `${lunar.month}${lunar.isLeap ? 'L' : ''}`,
+    lunarDay: lunar.day,
+    time: birth.time,
+    timeZone: birth.timeZone,
+    gender: birth.gender,
+    place: birth.place || '',
+    longitude: birth.longitude !== undefined ? String(birth.longitude) : '',
+    dayBoundary: birth.dayBoundary || 'zichu'
+  };
+};
+
+// Resolves the draft into BirthInfo, converting a lunar date to its Gregorian day
+const buildBirth = (draft: Draft): BirthInfo => {
+  let date = draft.solarDate;
+  if (draft.calendar === 'lunar') {
+    const solar = lunarToSolar({
+      year: Number(draft.lunarYear),
+      month: parseInt(draft.lunarMonth, 10),
+      day: draft.lunarDay,
+      isLeap: draft.lunarMonth.endsWith('L')
+    });
+    date = `${solar.year}-${pad(solar.month)}-${pad(solar.day)}`;
+  }
+  if (!date) throw new Error('请填写出生日期。');
+  if (!isValidTimeZone(draft.timeZone)) throw new Error('无法识别的时区，请填写 IANA 名称 (如 Asia/Shanghai) 或 UTC 偏移 (如 +08:00)。');
+  const longitude = draft.longitude.trim() ? Number(draft.longitude) : undefined;
+  if (longitude !== undefined && Number.isNaN(longitude)) throw new Error('经度应为数字，东经为正、西经为负。');
+  return {
+    date,
+    time: draft.time,
+    timeZone: draft.timeZone.trim(),
+    gender: draft.gender,
+    calendar: draft.calendar,
+    ...(longitude !== undefined ? { longitude } : {}),
+    ...(draft.place.trim() ? { place: draft.place.trim() } : {}),
+    ...(draft.dayBoundary === 'midnight' ? { dayBoundary: draft.dayBoundary } : {})
+  };
+};
+
+const BirthInfoForm: React.FC<BirthInfoFormProps> = ({ attached, disabled, onAttach }) => {
+  const [isExpanded, setIsExpanded] = useState(!attached);
+  const [showTerms, setShowTerms] = useState(false);
+  const [draft, setDraft] = useState<Draft>(() => draftFromBirth(attached));
+
+  const update = (patch: Partial<Draft>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const result = useMemo(() => {
+    try {
+      const birth = buildBirth(draft);
+      return { birth, chart: computeBazi(birth) };
+    } catch (e: any) {
+      return { error: e?.message || String(e) };
+    }
+  }, [draft]);
+
+  const lunarMonths = useMemo(() => {
+    const year = Number(draft.lunarYear);
+    return year >= 1800 && year <= 2149 ? getLunarMonths(year) : [];
+  }, [draft.lunarYear]);
+  const selectedLunarMonth = lunarMonths.find(m => `${m.month}${m.isLeap ? 'L' : ''}` === draft.lunarMonth);
+
+  const termYear = result.birth ? Number(result.birth.date.slice(0, 4)) : null;
+  const terms = useMemo(() => (showTerms && termYear ? getSolarTerms(termYear) : []), [showTerms, termYear]);
+
+  const handlePlaceChange = (place: string) => {
+    const longitude = CITY_LONGITUDES[place.trim()];
+    update(longitude !== undefined ? { place, longitude: String(longitude) } : { place });
+  };
+
+  const inputClass = 'w-full bg-white border border-parchment-300 rounded-lg px-2.5 py-1.5 text-ink-900 text-sm focus:outline-none focus:border-bronze-500 transition-all disabled:opacity-50';
+  const labelClass = 'block text-[11px] font-bold text-ink-700 mb-1';
+
+  return (
+    <div className="mb-3 bg-parchment-100 border border-parchment-300 rounded-2xl">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left"
+      >
+        <FengshuiIcon className="w-4 h-4 text-bronze-600" />
+        <span className="text-sm font-bold text-ink-900">出生信息</span>
+        <span className="text-xs text-ink-500 truncate flex-1">
+          {attached
+            ? `已附加：${attached.date} ${attached.time}${attached.place ? ` · ${attached.place}` : ''}`
+            : '填写后随提问附上本地排盘，无需再与模型来回确认阴历阳历和真太阳时'}
+        </span>
+        <ChevronRightIcon className={`w-4 h-4 text-ink-400 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="col-span-2">
+              <label className={labelClass}>
+                出生日期
+                <span className="ml-2 inline-flex rounded-md border border-parchment-300 overflow-hidden align-middle">
+                  {(['solar', 'lunar'] as const).map(calendar => (
+                    <span
+                      key={calendar}
+                      onClick={() => update({ calendar })}
+                      className={`px-2 cursor-pointer font-normal ${draft.calendar === calendar ? 'bg-bronze-600 text-white' : 'bg-white text-ink-500'}`}
+                    >
+                      {calendar === 'solar' ? '公历' : '农历'}
+                    </span>
+                  ))}
+                </span>
+              </label>
+              {draft.calendar === 'solar' ? (
+                <input
+                  type="date"
+                  value={draft.solarDate}
+                  min="1800-01-01"
+                  max="2150-12-31"
+                  disabled={disabled}
+                  onChange={(e) => update({ solarDate: e.target.value })}
+                  className={inputClass}
+                />
+              ) : (
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    value={draft.lunarYear}
+                    min={1800}
+                    max={2149}
+                    disabled={disabled}
+                    onChange={(e) => update({ lunarYear: e.target.value })}
+                    className={`${inputClass} w-24`}
+                  />
+                  <select
+                    value={draft.lunarMonth}
+                    disabled={disabled}
+                    onChange={(e) => update({ lunarMonth: e.target.value })}
+                    className={inputClass}
+                  >
+                    {lunarMonths.map(m => (
+                      <option key={`${m.month}${m.isLeap ? 'L' : ''}`} value={`${m.month}${m.isLeap ? 'L' : ''}`}>
+                        {getLunarMonthName(m.month, m.isLeap)}{m.length === 30 ? '(大)' : '(小)'}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={draft.lunarDay}
+                    disabled={disabled}
+                    onChange={(e) => update({ lunarDay: Number(e.target.value) })}
+                    className={inputClass}
+                  >
+                    {Array.from({ length: selectedLunarMonth?.length || 30 }, (_, i) => (
+                      <option key={i + 1} value={i + 1}>{getLunarDayName(i + 1)}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+            <div>
+              <label className={labelClass}>出生时间 (钟表时间)</label>
+              <input
+                type="time"
+                value={draft.time}
+                disabled={disabled}
+                onChange={(e) => update({ time: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>性别</label>
+              <select
+                value={draft.gender}
+                disabled={disabled}
+                onChange={(e) => update({ gender: e.target.value as BirthInfo['gender'] })}
+                className={inputClass}
+              >
+                <option value="male">男</option>
+                <option value="female">女</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>出生地</label>
+              <input
+                type="text"
+                list="birth-place-options"
+                value={draft.place}
+                disabled={disabled}
+                placeholder="城市，可选"
+                onChange={(e) => handlePlaceChange(e.target.value)}
+                className={inputClass}
+              />
+              <datalist id="birth-place-options">
+                {Object.keys(CITY_LONGITUDES).map(city => <option key={city} value={city} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className={labelClass}>经度 (东经为正)</label>
+              <input
+                type="number"
+                step="0.01"
+                value={draft.longitude}
+                disabled={disabled}
+                placeholder="填写后校正真太阳时"
+                onChange={(e) => update({ longitude: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>时区</label>
+              <input
+                type="text"
+                value={draft.timeZone}
+                disabled={disabled}
+                placeholder="Asia/Shanghai 或 +08:00"
+                onChange={(e) => update({ timeZone: e.target.value })}
+                className={`${inputClass} font-mono ${isValidTimeZone(draft.timeZone) ? '' : 'border-red-400'}`}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>子时换日</label>
+              <select
+                value={draft.dayBoundary}
+                disabled={disabled}
+                onChange={(e) => update({ dayBoundary: e.target.value as DayBoundary })}
+                className={inputClass}
+                title="23:00–24:00 出生时日柱取当日还是次日"
+              >
+                <option value="zichu">23:00 换日 (子初)</option>
+                <option value="midnight">0:00 换日 (早晚子时)</option>
+              </select>
+            </div>
+          </div>
+
+          {result.chart ? (
+            <div className="p-2.5 rounded-xl bg-white/70 border border-parchment-200 text-xs text-ink-700 space-y-1">
+              <div>公历 {result.birth.date} · 农历 {result.chart.lunarDate}</div>
+              {result.chart.trueSolarTime && (
+                <div>
+                  真太阳时 {result.chart.trueSolarTime.time}
+                  （较钟表 {result.chart.trueSolarTime.correctionMinutes >= 0 ? '+' : ''}{result.chart.trueSolarTime.correctionMinutes} 分钟，均时差 {result.chart.trueSolarTime.equationOfTime.toFixed(1)} 分钟）
+                </div>
+              )}
+              <div>
+                生于{result.chart.previousJie.name} ({result.chart.previousJie.time}) 之后 · 八字 <b className="font-serif text-ink-900">{result.chart.pillars.map(p => p.name).join(' ')}</b>
+              </div>
+            </div>
+          ) : (
+            <div className="p-2.5 rounded-xl bg-white/70 border border-parchment-200 text-xs text-red-500">{result.error}</div>
+          )}
+
+          {showTerms && terms.length > 0 && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-x-4 gap-y-0.5 p-2.5 rounded-xl bg-white/70 border border-parchment-200 text-[11px] font-mono text-ink-500">
+              {terms.map(term => (
+                <div key={term.name} className={term.isJie ? 'text-ink-900' : ''}>
+                  <span className="font-sans font-bold">{term.name}</span> {formatWallTime(utcToZonedTime(term.time, draft.timeZone)).slice(5)}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setShowTerms(!showTerms)}
+              disabled={!termYear}
+              className="text-xs text-bronze-600 hover:text-bronze-800 disabled:opacity-50"
+            >
+              {showTerms ? '收起节气' : `${termYear || ''} 年二十四节气`}
+            </button>
+            <button
+              onClick={() => {
+                if (!result.birth) return;
+                onAttach(result.birth);
+                setIsExpanded(false);
+              }}
+              disabled={disabled || !result.chart}
+              className="ml-auto px-4 py-1.5 rounded-lg bg-bronze-600 text-white text-xs font-bold hover:bg-bronze-500 transition-colors disabled:opacity-50"
+            >
+              {attached ? '更新排盘' : '附加到提问'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BirthInfoForm;
@@ -1,23 +1,75 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { SendIcon, MathIcon, CodeIcon, BrainIcon, CpuIcon, PaperclipIcon, XIcon, StopIcon, FengshuiIcon } from './Icons';
-import { ReasoningMode } from '../types';
+import { SendIcon, PaperclipIcon, XIcon, StopIcon, SettingsIcon, FengshuiIcon, HexagramIcon, MODE_ICONS } from './Icons';
+import { ImageAttachment, MessageArtifact, ReasoningMode } from '../types';
+import { ModeDefinition } from '../services/modeRegistry';
+import { PromptTemplate, extractVariables, fillTemplate, matchTemplates } from '../services/promptTemplates';
+import { estimateImageTokens, estimateTokens } from '../services/tokenBudget';
+import { describeArtifact, getArtifactLabel } from '../services/messageArtifacts';
+import { ACCEPTED_EXTENSIONS, ExtractedFile, extractFile } from '../services/fileExtraction';
+import { MAX_IMAGES_PER_MESSAGE, isImageFile, prepareImage } from '../services/imageAttachments';
+import BirthInfoForm from './BirthInfoForm';
+import HexagramCastForm from './HexagramCastForm';
 
 interface ChatInputProps {
-  onSend: (message: string, attachments: { name: string; content: string }[]) => void;
+  onSend: (
+    message: string,
+    attachments: { name: string; content: string }[],
+    artifacts: MessageArtifact[],
+    images: ImageAttachment[]
+  ) => boolean | void; // false keeps the draft
   onStop: () => void;
   isLoading: boolean;
   disabled?: boolean;
+  modes: ModeDefinition[];
   currentMode: ReasoningMode;
   onModeChange: (mode: ReasoningMode) => void;
+  onManageModes?: () => void;
+  templates?: PromptTemplate[];
+  onManageTemplates?: () => void;
   modelId?: string;
+  supportsImages?: boolean; // undefined when it isn't known whether the model takes images
+  providerName?: string;
+  contextUsedTokens?: number; // System prompt + active history
+  contextLimit?: number;
+  outputReserveTokens?: number;
 }
 
-const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading, disabled, currentMode, onModeChange, modelId }) => {
+const formatTokens = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}K` : String(tokens);
+
+// Files are extracted as soon as they're picked so counts and problems show before sending
+interface SelectedFile {
+  file: File;
+  result?: ExtractedFile; // Undefined while extracting
+}
+
+// Images are downscaled as soon as they're added, for the same reason
+interface SelectedImage {
+  file: File;
+  image?: ImageAttachment; // Undefined while processing or after an error
+  error?: string;
+}
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp', 'gif', 'bmp'];
+
+const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading, disabled, modes, currentMode, onModeChange, onManageModes, templates = [], onManageTemplates, modelId, supportsImages, providerName = 'OpenRouter', contextUsedTokens = 0, contextLimit, outputReserveTokens = 0 }) => {
   const [input, setInput] = useState('');
-  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [selectedFiles, setSelectedFiles] = useState<SelectedFile[]>([]);
+  const [artifacts, setArtifacts] = useState<MessageArtifact[]>([]);
+  const [selectedImages, setSelectedImages] = useState<SelectedImage[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Slash menu: typing `/keyword` on an otherwise empty input lists matching templates
+  const [slashIndex, setSlashIndex] = useState(0);
+  const [isSlashDismissed, setIsSlashDismissed] = useState(false);
+  const [pendingTemplate, setPendingTemplate] = useState<PromptTemplate | null>(null);
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+
+  const slashQuery = /^\/(\S*)$/.exec(input)?.[1];
+  const slashMatches = slashQuery !== undefined ? matchTemplates(templates, currentMode, slashQuery) : [];
+  const isSlashMenuOpen = slashQuery !== undefined && !isSlashDismissed && !pendingTemplate;
+
   useEffect(() => {
     if (textareaRef.current) {
       textareaRef.current.style.height = 'auto';
@@ -25,107 +77,366 @@ const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading, disabl
     }
   }, [input]);
 
+  const handleInputChange = (value: string) => {
+    setInput(value);
+    setSlashIndex(0);
+    setIsSlashDismissed(false);
+  };
+
+  const applyTemplate = (template: PromptTemplate) => {
+    if (extractVariables(template.body).length === 0) {
+      setInput(template.body);
+    } else {
+      setPendingTemplate(template);
+      setTemplateValues({});
+    }
+    textareaRef.current?.focus();
+  };
+
+  const submitTemplateForm = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingTemplate) return;
+    setInput(fillTemplate(pendingTemplate.body, templateValues));
+    setPendingTemplate(null);
+    textareaRef.current?.focus();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (isSlashMenuOpen && slashMatches.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setSlashIndex(prev => (prev + step + slashMatches.length) % slashMatches.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        applyTemplate(slashMatches[Math.min(slashIndex, slashMatches.length - 1)]);
+        return;
+      }
+    }
+    if (isSlashMenuOpen && e.key === 'Escape') {
+      setIsSlashDismissed(true);
+      return;
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
     }
   };
 
+  const addImages = (files: File[]) => {
+    const accepted = files.slice(0, Math.max(0, MAX_IMAGES_PER_MESSAGE - selectedImages.length));
+    const skipped = files.length - accepted.length;
+    setSelectedImages(prev => [
+      ...prev,
+      ...accepted.map(file => ({ file })),
+      ...(skipped > 0 ? [{ file: files[accepted.length], error: `每条消息最多 ${MAX_IMAGES_PER_MESSAGE} 张图片，已忽略 ${skipped} 张` }] : [])
+    ]);
+    accepted.forEach(file => {
+      prepareImage(file)
+        .then(image => ({ image }), (e: any) => ({ error: e?.message || String(e) }))
+        .then(patch => {
+          setSelectedImages(prev => prev.map(selected => selected.file === file ? { ...selected, ...patch } : selected));
+        });
+    });
+  };
+
+  // Pictures go to the image strip, everything else through text extraction
+  const addFiles = (files: File[]) => {
+    const images = files.filter(isImageFile);
+    const documents = files.filter(file => !isImageFile(file));
+    if (images.length > 0) addImages(images);
+    if (documents.length === 0) return;
+    setSelectedFiles(prev => [...prev, ...documents.map(file => ({ file }))]);
+    documents.forEach(file => {
+      extractFile(file).then(result => {
+        setSelectedFiles(prev => prev.map(selected => selected.file === file ? { ...selected, result } : selected));
+      });
+    });
+  };
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      setSelectedFiles(prev => [...prev, ...Array.from(e.target.files || [])]);
+      addFiles(Array.from(e.target.files));
       // Reset input value so the same file can be selected again if needed
       e.target.value = '';
     }
   };
 
+  // A pasted screenshot arrives as a file; text copied from Office apps also carries a
+  // rendered picture of itself, so the image is only taken when there is no text
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const images = Array.from(e.clipboardData.files).filter(isImageFile);
+    if (images.length === 0 || e.clipboardData.getData('text/plain')) return;
+    e.preventDefault();
+    addImages(images);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files') || isLoading || disabled) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    setIsDragging(false);
+    if (e.dataTransfer.files.length === 0 || isLoading || disabled) return;
+    e.preventDefault();
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
   const removeFile = (index: number) => {
     setSelectedFiles(prev => prev.filter((_, i) => i !== index));
   };
 
-  const readFileContent = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        resolve(e.target?.result as string);
-      };
-      reader.onerror = (e) => reject(e);
-      reader.readAsText(file);
-    });
+  // One artifact of each kind; attaching again replaces it
+  const attachArtifact = (artifact: MessageArtifact) => {
+    setArtifacts(prev => [...prev.filter(existing => existing.kind !== artifact.kind), artifact]);
+    textareaRef.current?.focus();
   };
 
-  const handleSend = async () => {
-    if ((input.trim() || selectedFiles.length > 0) && !isLoading && !disabled) {
-      let attachments: { name: string; content: string }[] = [];
-      
-      if (selectedFiles.length > 0) {
-        try {
-          const filePromises = selectedFiles.map(async (file) => ({
-            name: file.name,
-            content: await readFileContent(file)
-          }));
-          attachments = await Promise.all(filePromises);
-        } catch (error) {
-          console.error("Failed to read files", error);
-          alert("无法读取部分文件内容");
-          return;
-        }
-      }
+  const isExtracting = selectedFiles.some(selected => !selected.result) || selectedImages.some(selected => !selected.image && !selected.error);
+  const usableFiles = selectedFiles.flatMap(selected => selected.result && !selected.result.error ? [selected.result] : []);
+  const readyImages = selectedImages.flatMap(selected => selected.image ? [selected.image] : []);
+  const hasContent = !!input.trim() || usableFiles.length > 0 || artifacts.length > 0 || readyImages.length > 0;
 
-      onSend(input.trim(), attachments);
+  const handleSend = () => {
+    if (hasContent && !isExtracting && !isLoading && !disabled) {
+      const attachments = usableFiles.map(result => ({ name: result.name, content: result.content }));
+      if (onSend(input.trim(), attachments, artifacts, readyImages) === false) return;
       
       setInput('');
       setSelectedFiles([]);
+      setArtifacts([]);
+      setSelectedImages([]);
       if (textareaRef.current) {
         textareaRef.current.style.height = 'auto';
       }
     }
   };
 
-  const modes: { id: ReasoningMode; label: string; icon: React.FC<{className?: string}> }[] = [
-    { id: 'general', label: '通用模式', icon: CpuIcon },
-    { id: 'math', label: '数学证明', icon: MathIcon },
-    { id: 'coding', label: '编程竞赛', icon: CodeIcon },
-    { id: 'logic', label: '逻辑分析', icon: BrainIcon },
-    { id: 'fengshui', label: '命理大师', icon: FengshuiIcon },
-  ];
+  // Files still extracting count ~0.3 tokens per byte, which is close for both code and CJK text
+  const draftTokens = estimateTokens(input)
+    + selectedFiles.reduce((sum, { file, result }) => sum + (result ? result.tokens : Math.ceil(file.size * 0.3)), 0)
+    + artifacts.reduce((sum, artifact) => sum + estimateTokens(describeArtifact(artifact)), 0)
+    + readyImages.reduce((sum, image) => sum + estimateImageTokens(image), 0);
+  const contextTotal = contextUsedTokens + draftTokens;
+  const contextRatio = contextLimit ? contextTotal / contextLimit : 0;
+  const willTrim = !!contextLimit && contextTotal + outputReserveTokens > contextLimit;
+
+  const currentModeLabel = modes.find(mode => mode.id === currentMode)?.label || currentMode;
 
   return (
     <div className="w-full max-w-5xl mx-auto p-4 md:p-6">
       {/* Mode Selector */}
       <div className="flex gap-3 mb-4 overflow-x-auto pb-2 scrollbar-hide justify-center md:justify-start">
-        {modes.map((mode) => (
+        {modes.map((mode) => {
+          const ModeIcon = MODE_ICONS[mode.icon] || MODE_ICONS.chat;
+          return (
+            <button
+              key={mode.id}
+              onClick={() => onModeChange(mode.id)}
+              disabled={isLoading || disabled}
+              className={`
+                flex items-center gap-2 px-4 py-2 rounded-full text-sm font-bold transition-all whitespace-nowrap border shadow-sm
+                ${currentMode === mode.id 
+                  ? 'bg-bronze-600 text-white border-bronze-700 shadow-bronze-600/20' 
+                  : 'bg-white text-ink-500 border-parchment-200 hover:bg-parchment-100 hover:text-ink-900'}
+              `}
+            >
+              <ModeIcon className="w-4 h-4" />
+              {mode.label}
+            </button>
+          );
+        })}
+        {onManageModes && (
           <button
-            key={mode.id}
-            onClick={() => onModeChange(mode.id)}
-            disabled={isLoading || disabled}
-            className={`
-              flex items-center gap-2 px-4 py-2 rounded-full text-sm font-bold transition-all whitespace-nowrap border shadow-sm
-              ${currentMode === mode.id 
-                ? 'bg-bronze-600 text-white border-bronze-700 shadow-bronze-600/20' 
-                : 'bg-white text-ink-500 border-parchment-200 hover:bg-parchment-100 hover:text-ink-900'}
-            `}
+            onClick={onManageModes}
+            disabled={isLoading}
+            className="flex items-center px-3 py-2 rounded-full text-ink-400 border border-dashed border-parchment-300 hover:text-bronze-600 hover:border-bronze-300 transition-all"
+            title="管理推理模式"
           >
-            <mode.icon className="w-4 h-4" />
-            {mode.label}
+            <SettingsIcon className="w-4 h-4" />
           </button>
-        ))}
+        )}
       </div>
 
-      <div className={`
-        relative flex flex-col w-full p-4 glass-panel rounded-3xl transition-all duration-300
-        ${(input || selectedFiles.length > 0) ? 'border-bronze-500/30 shadow-lg shadow-bronze-900/5' : 'border-parchment-200'}
-      `}>
-        {/* File Preview Chips */}
-        {selectedFiles.length > 0 && (
+      <div
+        onDragOver={handleDragOver}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+        }}
+        onDrop={handleDrop}
+        className={`
+          relative flex flex-col w-full p-4 glass-panel rounded-3xl transition-all duration-300
+          ${isDragging
+            ? 'border-bronze-500 ring-2 ring-bronze-400/40'
+            : (input || selectedFiles.length > 0 || artifacts.length > 0 || selectedImages.length > 0) ? 'border-bronze-500/30 shadow-lg shadow-bronze-900/5' : 'border-parchment-200'}
+        `}
+      >
+        {/* Slash Command Menu */}
+        {isSlashMenuOpen && (
+          <div className="absolute bottom-full left-4 right-4 mb-2 bg-white border border-parchment-200 rounded-2xl shadow-xl overflow-hidden z-20">
+            <div className="max-h-64 overflow-y-auto py-1">
+              {slashMatches.map((template, index) => (
+                <button
+                  key={template.id}
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => applyTemplate(template)}
+                  onMouseEnter={() => setSlashIndex(index)}
+                  className={`w-full flex items-center gap-3 px-4 py-2 text-left transition-colors ${index === slashIndex ? 'bg-bronze-50' : 'hover:bg-parchment-100'}`}
+                >
+                  <span className="font-mono text-sm text-bronze-700 min-w-[80px]">/{template.command || template.id}</span>
+                  <span className="text-sm text-ink-900 flex-1 truncate">{template.name}</span>
+                  {extractVariables(template.body).length > 0 && (
+                    <span className="text-[10px] text-ink-400">{extractVariables(template.body).length} 个变量</span>
+                  )}
+                </button>
+              ))}
+              {slashMatches.length === 0 && (
+                <div className="px-4 py-3 text-sm text-ink-400">当前模式下没有匹配的模板</div>
+              )}
+            </div>
+            {onManageTemplates && (
+              <button
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={onManageTemplates}
+                className="w-full px-4 py-2 text-xs text-bronze-600 hover:bg-parchment-100 border-t border-parchment-200 text-left"
+              >
+                管理模板...
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Template Variable Form */}
+        {pendingTemplate && (
+          <form onSubmit={submitTemplateForm} className="mb-3 p-3 bg-parchment-100 border border-parchment-300 rounded-2xl space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-bold text-ink-900">{pendingTemplate.name}</span>
+              <button
+                type="button"
+                onClick={() => setPendingTemplate(null)}
+                className="p-0.5 hover:bg-bronze-100 rounded-full transition-colors text-ink-400 hover:text-ink-900"
+              >
+                <XIcon className="w-4 h-4" />
+              </button>
+            </div>
+            {extractVariables(pendingTemplate.body).map((name, index) => (
+              <div key={name} className="flex items-start gap-2">
+                <label className="text-xs font-bold text-ink-700 w-28 pt-2 truncate" title={name}>{name}</label>
+                <textarea
+                  autoFocus={index === 0}
+                  rows={1}
+                  value={templateValues[name] || ''}
+                  onChange={(e) => setTemplateValues(prev => ({ ...prev, [name]: e.target.value }))}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) submitTemplateForm(e);
+                  }}
+                  className="flex-1 bg-white border border-parchment-300 rounded-lg px-3 py-1.5 text-ink-900 text-sm resize-y focus:outline-none focus:border-bronze-500 transition-all"
+                />
+              </div>
+            ))}
+            <div className="flex justify-end">
+              <button type="submit" className="px-4 py-1.5 rounded-lg bg-bronze-600 text-white text-xs font-bold hover:bg-bronze-500 transition-colors">
+                填入输入框 (Ctrl+Enter)
+              </button>
+            </div>
+          </form>
+        )}
+
+        {/* Structured birth data for the fengshui mode */}
+        {currentMode === 'fengshui' && (
+          <>
+            <BirthInfoForm
+              attached={artifacts.flatMap(artifact => artifact.kind === 'bazi' ? [artifact.birth] : [])[0]}
+              disabled={isLoading || disabled}
+              onAttach={birth => attachArtifact({ kind: 'bazi', birth })}
+            />
+            <HexagramCastForm
+              attached={artifacts.flatMap(artifact => artifact.kind === 'liuyao' ? [artifact.cast] : [])[0]}
+              disabled={isLoading || disabled}
+              onAttach={cast => attachArtifact({ kind: 'liuyao', cast })}
+            />
+          </>
+        )}
+
+        {/* Image Thumbnails */}
+        {selectedImages.length > 0 && (
+          <div className="mb-3">
+            <div className="flex flex-wrap gap-2">
+              {selectedImages.map(({ file, image, error }, index) => (
+                <div
+                  key={index}
+                  className={`relative w-16 h-16 rounded-lg border overflow-hidden flex items-center justify-center ${error ? 'bg-red-50 border-red-200' : 'bg-parchment-100 border-parchment-300'}`}
+                  title={error || (image ? `${file.name || '粘贴的图片'} · ${image.width}×${image.height}` : '正在处理图片...')}
+                >
+                  {image
+                    ? <img src={image.dataUrl} alt={file.name} className="w-full h-full object-cover" />
+                    : <span className={`text-[10px] px-1 text-center ${error ? 'text-red-500' : 'text-ink-400'}`}>{error ? '无法使用' : '处理中...'}</span>}
+                  <button
+                    onClick={() => setSelectedImages(prev => prev.filter((_, i) => i !== index))}
+                    className="absolute top-0.5 right-0.5 p-0.5 bg-white/90 rounded-full text-ink-400 hover:text-ink-900 shadow-sm"
+                  >
+                    <XIcon className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            {selectedImages.some(selected => selected.error) && (
+              <div className="mt-1 text-[11px] text-red-500">
+                {selectedImages.flatMap(selected => selected.error ? [selected.error] : []).join('；')}
+              </div>
+            )}
+            {readyImages.length > 0 && supportsImages !== true && (
+              <div className="mt-1 text-[11px] text-amber-600">
+                {supportsImages === false
+                  ? `当前模型 ${modelId} 不支持图片输入，请求可能被拒绝或图片被忽略`
+                  : `未能确认 ${modelId || '当前模型'} 支持图片输入；识图请选择视觉模型（如 GPT-4o、Gemini、Qwen-VL）`}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* File and Chart Preview Chips */}
+        {(selectedFiles.length > 0 || artifacts.length > 0) && (
           <div className="flex flex-wrap gap-2 mb-3">
-            {selectedFiles.map((file, index) => (
-              <div key={index} className="flex items-center gap-2 p-2 bg-parchment-100 border border-parchment-300 rounded-lg w-fit max-w-[200px]">
+            {artifacts.map((artifact, index) => (
+              <div key={`artifact-${index}`} className="flex items-center gap-2 p-2 bg-bronze-50 border border-bronze-200 rounded-lg w-fit">
                 <div className="p-1 bg-white rounded shrink-0 shadow-sm">
-                  <PaperclipIcon className="w-4 h-4 text-bronze-600" />
+                  {artifact.kind === 'liuyao'
+                    ? <HexagramIcon className="w-4 h-4 text-bronze-600" />
+                    : <FengshuiIcon className="w-4 h-4 text-bronze-600" />}
+                </div>
+                <span className="text-sm text-ink-700">{getArtifactLabel(artifact)}</span>
+                <button
+                  onClick={() => setArtifacts(prev => prev.filter((_, i) => i !== index))}
+                  className="p-0.5 hover:bg-bronze-100 rounded-full transition-colors text-ink-400 hover:text-ink-900 shrink-0"
+                >
+                  <XIcon className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            {selectedFiles.map(({ file, result }, index) => (
+              <div
+                key={index}
+                className={`flex items-center gap-2 p-2 border rounded-lg w-fit max-w-[260px] ${result?.error ? 'bg-red-50 border-red-200' : 'bg-parchment-100 border-parchment-300'}`}
+                title={result?.error || result?.warning || file.name}
+              >
+                <div className="p-1 bg-white rounded shrink-0 shadow-sm">
+                  <PaperclipIcon className={`w-4 h-4 ${result?.error ? 'text-red-500' : 'text-bronze-600'}`} />
+                </div>
+                <div className="min-w-0">
+                  <div className="text-sm text-ink-700 truncate">{file.name}</div>
+                  <div className={`text-[10px] truncate ${result?.error ? 'text-red-500' : result?.warning ? 'text-amber-600' : 'text-ink-400'}`}>
+                    {!result
+                      ? '正在提取文本...'
+                      : result.error
+                        ? `${result.error}，不会发送`
+                        : `${result.chars.toLocaleString()} 字符 · ≈${formatTokens(result.tokens)} tokens${result.warning ? ` · ${result.warning}` : ''}`}
+                  </div>
                 </div>
-                <span className="text-sm text-ink-700 truncate">{file.name}</span>
                 <button 
                   onClick={() => removeFile(index)}
                   className="p-0.5 hover:bg-bronze-100 rounded-full transition-colors text-ink-400 hover:text-ink-900 shrink-0"
@@ -143,7 +454,7 @@ const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading, disabl
             onClick={() => fileInputRef.current?.click()}
             disabled={isLoading || disabled}
             className="p-3 mb-1 text-ink-400 hover:text-bronze-600 hover:bg-parchment-100 rounded-2xl transition-colors disabled:opacity-50"
-            title="上传上下文文件 (支持多选)"
+            title="上传上下文文件或图片 (支持多选；PDF、Word、Excel、CSV、Notebook、文本及图片，图片也可直接粘贴或拖入)"
           >
             <PaperclipIcon className="w-6 h-6" />
           </button>
@@ -153,15 +464,16 @@ const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading, disabl
             onChange={handleFileSelect}
             className="hidden"
             multiple
-            accept=".txt,.md,.json,.csv,.py,.js,.ts,.tsx,.html,.css,.xml,.yaml,.yml,.ini,.conf,.log"
+            accept={[...ACCEPTED_EXTENSIONS, ...IMAGE_EXTENSIONS].map(extension => `.${extension}`).join(',')}
           />
 
           <textarea
             ref={textareaRef}
             value={input}
-            onChange={(e) => setInput(e.target.value)}
+            onChange={(e) => handleInputChange(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder={disabled ? "请先配置 OpenRouter API Key" : `输入你的问题 (${currentMode} 模式)...`}
+            onPaste={handlePaste}
+            placeholder={disabled ? `请先配置 ${providerName} API Key` : `输入你的问题 (${currentModeLabel})，输入 / 使用模板...`}
             rows={1}
             disabled={isLoading || disabled}
             className="flex-1 bg-transparent text-ink-900 placeholder-ink-300 text-lg md:text-xl resize-none focus:outline-none max-h-[300px] py-4 scrollbar-hide font-serif leading-relaxed selection:bg-bronze-100"
@@ -181,10 +493,10 @@ const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading, disabl
             ) : (
               <button
                 onClick={handleSend}
-                disabled={(!input.trim() && selectedFiles.length === 0) || disabled}
+                disabled={!hasContent || isExtracting || disabled}
                 className={`
                   p-3 rounded-2xl transition-all duration-200 flex items-center justify-center
-                  ${(input.trim() || selectedFiles.length > 0) && !disabled
+                  ${hasContent && !isExtracting && !disabled
                     ? 'bg-bronze-600 text-white hover:bg-bronze-500 shadow-md shadow-bronze-600/20 scale-100' 
                     : 'bg-parchment-200 text-ink-300 cursor-not-allowed scale-95 opacity-50'}
                 `}
@@ -199,10 +511,27 @@ const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, isLoading, disabl
       <div className="flex justify-between items-center mt-4 px-2">
         <div className="flex items-center gap-2">
            <span className="w-2 h-2 rounded-full bg-green-500 shadow-[0_0_8px_rgba(34,197,94,0.4)]"></span>
-           <span className="text-xs text-ink-400 font-bold uppercase tracking-widest">OpenRouter System Online</span>
+           <span className="text-xs text-ink-400 font-bold uppercase tracking-widest">{providerName} System Online</span>
         </div>
+        {contextLimit && (
+          <div
+            className="flex items-center gap-2 text-xs font-mono text-ink-400"
+            title={willTrim ? '超出上下文窗口，发送时将按策略裁剪较早的消息' : `已为回答预留 ${formatTokens(outputReserveTokens)} tokens`}
+          >
+            <span>上下文</span>
+            <div className="w-24 h-1.5 rounded-full bg-parchment-200 overflow-hidden">
+              <div
+                className={`h-full rounded-full transition-all ${willTrim ? 'bg-red-500' : contextRatio > 0.6 ? 'bg-amber-500' : 'bg-bronze-500'}`}
+                style={{ width: `${Math.min(100, contextRatio * 100)}%` }}
+              />
+            </div>
+            <span className={willTrim ? 'text-red-500 font-bold' : ''}>
+              ≈{formatTokens(contextTotal)} / {formatTokens(contextLimit)}
+            </span>
+          </div>
+        )}
         <p className="text-xs text-ink-400 font-mono">
-          MODEL: {modelId ? modelId.toUpperCase() : 'DEEPSEEK V3.2 SPECIALE'} / {currentMode.toUpperCase()}
+          MODEL: {modelId ? modelId.toUpperCase() : 'DEEPSEEK V3.2 SPECIALE'} / {currentModeLabel.toUpperCase()}
         </p>
       </div>
     </div>
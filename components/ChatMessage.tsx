@@ -1,20 +1,36 @@
 import React, { useState, useEffect } from 'react';
-import ReactMarkdown from 'react-markdown';
-import { Message, Role } from '../types';
-import { UserIcon, BotIcon, BrainIcon, TrashIcon, CopyIcon, EditIcon, RefreshIcon } from './Icons';
+import { ImageAttachment, Message, Role } from '../types';
+import { UserIcon, BotIcon, BrainIcon, TrashIcon, CopyIcon, EditIcon, RefreshIcon, ChevronLeftIcon, ChevronRightIcon, PinIcon, PlayIcon } from './Icons';
+import { formatCost } from '../services/pricing';
+import { splitMathSegments } from '../services/mathText';
+import { getMessageImages } from '../services/messageArtifacts';
+import MarkdownContent from './MarkdownContent';
+import MathFormula from './MathFormula';
+import BaziChartView from './BaziChartView';
+import LiuyaoChartView from './LiuyaoChartView';
 
 interface ChatMessageProps {
   message: Message;
+  modeLabel?: string; // Display name of message.mode
   onDelete?: (id: string) => void;
   onEdit?: (id: string, newText: string) => void;
   onRetry?: (id: string) => void;
+  onResume?: (id: string) => void;
+  onTogglePin?: (id: string) => void;
+  onSwitchBranch?: (id: string, direction: -1 | 1) => void;
+  onTest?: (id: string) => void; // Opens the sample-case panel for this answer
+  branchIndex?: number; // Position among sibling edits/regenerations
+  branchCount?: number;
   isLoading?: boolean;
+  isHighlighted?: boolean; // Target of a search jump
 }
 
-const ChatMessage: React.FC<ChatMessageProps> = ({ message, onDelete, onEdit, onRetry, isLoading }) => {
+const ChatMessage: React.FC<ChatMessageProps> = ({ message, modeLabel, onDelete, onEdit, onRetry, onResume, onTogglePin, onSwitchBranch, onTest, branchIndex = 0, branchCount = 1, isLoading, isHighlighted }) => {
   const isUser = message.role === Role.USER;
+  const images = getMessageImages(message);
   const [isReasoningCollapsed, setIsReasoningCollapsed] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [previewImage, setPreviewImage] = useState<ImageAttachment | null>(null);
   
   // Edit Mode State
   const [isEditing, setIsEditing] = useState(false);
@@ -24,6 +40,11 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, onDelete, onEdit, on
     setEditText(message.text);
   }, [message.text]);
 
+  // A search hit may be inside the reasoning, so make sure it is visible
+  useEffect(() => {
+    if (isHighlighted) setIsReasoningCollapsed(false);
+  }, [isHighlighted]);
+
   const handleCopy = () => {
     const textToCopy = message.reasoning 
       ? `【深度推理过程】\n${message.reasoning}\n\n【回答】\n${message.text}`
@@ -48,7 +69,10 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, onDelete, onEdit, on
   };
 
   return (
-    <div className={`flex w-full ${isUser ? 'justify-end' : 'justify-start'} mb-8 animate-fadeIn group relative`}>
+    <div
+      id={`message-${message.id}`}
+      className={`flex w-full ${isUser ? 'justify-end' : 'justify-start'} mb-8 animate-fadeIn group relative rounded-3xl transition-shadow duration-700 ${isHighlighted ? 'ring-2 ring-bronze-400 ring-offset-4 ring-offset-parchment-50' : ''}`}
+    >
       <div className={`flex max-w-[98%] md:max-w-[90%] gap-4 ${isUser ? 'flex-row-reverse' : 'flex-row'}`}>
         
         {/* Avatar */}
@@ -71,9 +95,48 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, onDelete, onEdit, on
             <span className="text-xs text-ink-400 font-mono">
               {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })}
             </span>
+            {branchCount > 1 && onSwitchBranch && (
+              <span className="inline-flex items-center gap-0.5 text-xs text-ink-500 font-mono select-none">
+                <button
+                  onClick={() => onSwitchBranch(message.id, -1)}
+                  disabled={isLoading || branchIndex === 0}
+                  className="p-0.5 rounded hover:bg-parchment-200 hover:text-bronze-600 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                  title="上一个分支"
+                >
+                  <ChevronLeftIcon className="w-3.5 h-3.5" />
+                </button>
+                {branchIndex + 1}/{branchCount}
+                <button
+                  onClick={() => onSwitchBranch(message.id, 1)}
+                  disabled={isLoading || branchIndex === branchCount - 1}
+                  className="p-0.5 rounded hover:bg-parchment-200 hover:text-bronze-600 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                  title="下一个分支"
+                >
+                  <ChevronRightIcon className="w-3.5 h-3.5" />
+                </button>
+              </span>
+            )}
+            {message.pinned && (
+              <span className="text-bronze-600" title="已置顶：裁剪上下文时保留">
+                <PinIcon className="w-3 h-3" />
+              </span>
+            )}
             {!isUser && message.mode && (
               <span className="text-[10px] px-2 py-0.5 rounded-full bg-bronze-100 text-bronze-700 font-mono uppercase border border-bronze-200">
-                {message.mode}
+                {modeLabel || message.mode}
+              </span>
+            )}
+            {!isUser && message.modelId && (
+              <span className="text-[10px] px-2 py-0.5 rounded-full bg-parchment-100 text-ink-500 font-mono border border-parchment-200" title="生成此回答的模型">
+                {message.modelId}
+              </span>
+            )}
+            {!isUser && message.vote && (
+              <span
+                className="text-[10px] px-2 py-0.5 rounded-full bg-emerald-50 text-emerald-700 font-mono border border-emerald-200"
+                title={`多次采样投票：${message.vote.votes}/${message.vote.total} 个采样给出答案 ${message.vote.answer}`}
+              >
+                投票 {message.vote.votes}/{message.vote.total}
               </span>
             )}
             {!isUser && message.thinkingTime && (
@@ -82,11 +145,21 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, onDelete, onEdit, on
                  {(message.thinkingTime / 1000).toFixed(2)}s
                </span>
             )}
+            {!isUser && message.finishReason === 'length' && (
+               <span className="text-[10px] px-2 py-0.5 rounded-full bg-amber-50 text-amber-700 border border-amber-200" title="达到最大输出长度，回答可能不完整">
+                 已截断
+               </span>
+            )}
             {!isUser && message.usage && (
                <span className="text-[10px] text-ink-400 font-mono hidden md:inline-flex items-center ml-2 opacity-60">
                  {message.usage.total_tokens} T
                </span>
             )}
+            {!isUser && message.cost !== undefined && (
+               <span className="text-[10px] text-ink-400 font-mono hidden md:inline-flex items-center opacity-60" title="本条回答花费">
+                 {formatCost(message.cost)}
+               </span>
+            )}
             
             {/* Action Buttons (Always Visible) */}
             <div className={`
@@ -123,6 +196,16 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, onDelete, onEdit, on
                 </button>
               )}
 
+              {onTogglePin && !isEditing && !message.isStreaming && (
+                <button 
+                  onClick={() => onTogglePin(message.id)}
+                  className={`p-1.5 hover:bg-parchment-200 rounded transition-colors ${message.pinned ? 'text-bronze-600' : 'text-ink-300 hover:text-bronze-600'}`}
+                  title={message.pinned ? '取消置顶' : '置顶 (上下文裁剪时保留)'}
+                >
+                  <PinIcon className="w-4 h-4" />
+                </button>
+              )}
+
               {onDelete && !isEditing && (
                 <button 
                   onClick={() => onDelete(message.id)}
@@ -194,7 +277,11 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, onDelete, onEdit, on
 
                     {(!isReasoningCollapsed || (message.isStreaming && !message.text)) && (
                       <div className="p-4 rounded-lg bg-parchment-100 text-ink-700 whitespace-pre-wrap leading-relaxed reasoning-block shadow-inner max-h-[600px] overflow-y-auto scrollbar-thin text-base font-serif border-t-2 border-bronze-500/20">
-                        {message.reasoning || <span className="animate-pulse text-bronze-500 italic">正在进行逻辑推演...</span>}
+                        {message.reasoning
+                          ? splitMathSegments(message.reasoning).map((segment, i) => segment.type === 'math'
+                            ? <MathFormula key={i} source={segment.value} display={segment.display} />
+                            : <React.Fragment key={i}>{segment.value}</React.Fragment>)
+                          : <span className="animate-pulse text-bronze-500 italic">正在进行逻辑推演...</span>}
                         {message.isStreaming && !message.text && message.reasoning && (
                           <span className="inline-block w-1.5 h-3 ml-1 align-middle bg-bronze-500 animate-pulse" />
                         )}
@@ -221,13 +308,43 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, onDelete, onEdit, on
                         prose-li:marker:text-bronze-500
                         ${isUser ? 'prose-invert prose-p:text-parchment-50 prose-headings:text-parchment-50 prose-strong:text-white prose-code:text-parchment-100 prose-code:bg-white/10 prose-a:text-parchment-200' : ''}
                       `}>
-                        <ReactMarkdown>{contentToShow}</ReactMarkdown>
+                        <MarkdownContent content={contentToShow} isStreaming={message.isStreaming} />
                       </div>
                     );
                   }
                   return null;
                 })()}
 
+                {/* Retry / interruption status */}
+                {!isUser && message.isStreaming && message.retryNotice && (
+                  <div className="mt-3 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 font-mono animate-pulse">
+                    {message.retryNotice}
+                  </div>
+                )}
+                {!isUser && message.interrupted && !message.isStreaming && (
+                  <div className="mt-4 flex items-center gap-3 text-xs text-red-600 bg-red-50 border border-red-200 rounded-lg px-3 py-2">
+                    <span className="flex-1 min-w-0 truncate" title={message.error}>生成中断：{message.error}</span>
+                    {onResume && (
+                      <button
+                        onClick={() => onResume(message.id)}
+                        disabled={isLoading}
+                        className="shrink-0 px-2.5 py-1 rounded-md bg-white border border-red-200 text-red-600 font-bold hover:bg-red-100 transition-colors disabled:opacity-50"
+                      >
+                        继续生成
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {!isUser && onTest && !message.isStreaming && message.text.includes('```') && (
+                  <button
+                    onClick={() => onTest(message.id)}
+                    className="mt-4 flex items-center gap-1.5 text-xs text-bronze-700 hover:text-bronze-900 bg-bronze-50 border border-bronze-200 rounded-lg px-2.5 py-1 transition-colors"
+                  >
+                    <PlayIcon className="w-3 h-3" /> 用样例测试代码
+                  </button>
+                )}
+
                 {/* Blinking Cursor for Streaming text */}
                 {message.isStreaming && message.text && (
                   <span className={`inline-block w-2.5 h-5 ml-1 align-middle animate-pulse ${isUser ? 'bg-parchment-50' : 'bg-bronze-500'}`} />
@@ -240,6 +357,41 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, onDelete, onEdit, on
               </>
             )}
           </div>
+
+          {/* Pictures sent with the prompt; click for full size */}
+          {images.length > 0 && (
+            <div className={`mt-3 flex flex-wrap gap-2 ${isUser ? 'justify-end' : 'justify-start'}`}>
+              {images.map((image, index) => (
+                <button
+                  key={index}
+                  onClick={() => setPreviewImage(image)}
+                  className="w-24 h-24 rounded-xl overflow-hidden border border-parchment-300 bg-parchment-100 shadow-sm hover:border-bronze-400 transition-colors"
+                  title={`${image.name || '图片'} · ${image.width}×${image.height}`}
+                >
+                  <img src={image.dataUrl} alt={image.name || '图片'} className="w-full h-full object-cover" />
+                </button>
+              ))}
+            </div>
+          )}
+          {previewImage && (
+            <div
+              className="fixed inset-0 z-50 flex items-center justify-center bg-ink-900/30 backdrop-blur-sm p-4 animate-fadeIn"
+              onClick={() => setPreviewImage(null)}
+            >
+              <img
+                src={previewImage.dataUrl}
+                alt={previewImage.name || '图片'}
+                className="max-w-full max-h-full rounded-xl shadow-xl bg-white"
+              />
+            </div>
+          )}
+
+          {/* Locally computed charts sent along with the prompt */}
+          {message.artifacts?.map((artifact, index) => (
+            <div key={index} className="mt-3 w-full flex justify-end">
+              {artifact.kind === 'bazi' ? <BaziChartView birth={artifact.birth} /> : <LiuyaoChartView cast={artifact.cast} />}
+            </div>
+          ))}
         </div>
       </div>
     </div>
@@ -0,0 +1,95 @@
+import React, { useState, useMemo } from 'react';
+import { highlightCode, getCodeFileExtension } from '../services/codeHighlight';
+import { isRunnableLanguage } from '../services/codeRunner';
+import { CopyIcon, DownloadIcon, PlayIcon } from './Icons';
+import CodeRunPanel from './CodeRunPanel';
+
+interface CodeBlockProps {
+  code: string;
+  language?: string; // From the fence info string, e.g. ```python
+  isStreaming?: boolean;
+}
+
+const CodeBlock: React.FC<CodeBlockProps> = ({ code, language, isStreaming }) => {
+  const [copied, setCopied] = useState(false);
+  const [showLineNumbers, setShowLineNumbers] = useState(true);
+  const [wrapLines, setWrapLines] = useState(false);
+  const [showRunner, setShowRunner] = useState(false);
+
+  const highlighted = useMemo(() => highlightCode(code, language, !isStreaming), [code, language, isStreaming]);
+  const label = highlighted.language || 'text';
+  // Unlabelled blocks run by the detected language; labelled ones by the fence, since a
+  // `jsx` block highlights as javascript but the sandbox can't run JSX
+  const runLanguage = language || highlighted.language;
+  const canRun = !isStreaming && isRunnableLanguage(runLanguage);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(code).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([code], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `snippet.${getCodeFileExtension(highlighted.language)}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const toggleClass = (active: boolean) =>
+    `px-1.5 py-0.5 rounded transition-colors ${active ? 'text-parchment-50 bg-white/10' : 'text-ink-400 hover:text-parchment-50'}`;
+
+  return (
+    <div className="not-prose my-4 rounded-xl border border-ink-700 bg-ink-900 overflow-hidden text-sm">
+      <div className="flex items-center gap-1 px-3 py-1.5 border-b border-ink-700 bg-black/20 text-[11px] font-mono">
+        <span className="mr-auto text-parchment-200 lowercase">{label}</span>
+        {canRun && (
+          <button onClick={() => setShowRunner(prev => !prev)} className={`flex items-center gap-1 ${toggleClass(showRunner)}`} title="在离线沙箱中运行">
+            <PlayIcon className="w-3 h-3" />
+            运行
+          </button>
+        )}
+        <button onClick={() => setShowLineNumbers(prev => !prev)} className={toggleClass(showLineNumbers)} title="显示行号">
+          行号
+        </button>
+        <button onClick={() => setWrapLines(prev => !prev)} className={toggleClass(wrapLines)} title="自动换行">
+          换行
+        </button>
+        <button onClick={handleDownload} className="p-1 rounded text-ink-400 hover:text-parchment-50 transition-colors" title="下载为文件">
+          <DownloadIcon className="w-3.5 h-3.5" />
+        </button>
+        <button onClick={handleCopy} className="flex items-center gap-1 px-1.5 py-0.5 rounded text-ink-400 hover:text-parchment-50 transition-colors" title="复制代码">
+          <CopyIcon className="w-3.5 h-3.5" />
+          {copied && <span>已复制</span>}
+        </button>
+      </div>
+      <pre className={`hljs !bg-transparent py-3 font-mono leading-relaxed text-parchment-50 ${wrapLines ? '' : 'overflow-x-auto'}`}>
+        <code
+          className="grid"
+          style={{ gridTemplateColumns: `${showLineNumbers ? 'auto ' : ''}${wrapLines ? 'minmax(0, 1fr)' : 'max-content'}` }}
+        >
+          {highlighted.lines.map((line, i) => (
+            <React.Fragment key={i}>
+              {showLineNumbers && (
+                <span className="select-none text-right pr-4 pl-3 text-ink-500">{i + 1}</span>
+              )}
+              <span
+                className={`pr-4 ${showLineNumbers ? '' : 'pl-4'} ${wrapLines ? 'whitespace-pre-wrap break-all' : 'whitespace-pre'}`}
+                dangerouslySetInnerHTML={{ __html: line || ' ' }}
+              />
+            </React.Fragment>
+          ))}
+        </code>
+      </pre>
+      {canRun && showRunner && <CodeRunPanel code={code} language={runLanguage!} />}
+    </div>
+  );
+};
+
+export default CodeBlock;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import {
+  RunResult, RUN_STATUS_LABELS, RUN_TIMEOUT_OPTIONS, DEFAULT_RUN_TIMEOUT_MS, MEMORY_LIMIT_MB, STALL_LIMIT_MS, runSandboxed
+} from '../services/codeRunner';
+import { PlayIcon } from './Icons';
+
+interface CodeRunPanelProps {
+  code: string;
+  language: string;
+}
+
+// Stdin, run controls and captured output shown under a runnable code block
+const CodeRunPanel: React.FC<CodeRunPanelProps> = ({ code, language }) => {
+  const [stdin, setStdin] = useState('');
+  const [timeoutMs, setTimeoutMs] = useState(DEFAULT_RUN_TIMEOUT_MS);
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<RunResult | null>(null);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    try {
+      setResult(await runSandboxed(code, language, { stdin, timeoutMs }));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const failed = result && result.status !== 'ok' && !(result.status === 'exit' && result.exitCode === 0);
+
+  return (
+    <div className="border-t border-ink-700 bg-black/20 p-3 space-y-2 font-mono text-xs">
+      <textarea
+        value={stdin}
+        onChange={(e) => setStdin(e.target.value)}
+        placeholder="标准输入 (stdin)，可留空"
+        rows={Math.min(6, Math.max(2, stdin.split('\n').length))}
+        className="w-full bg-ink-900 border border-ink-700 rounded-lg px-3 py-2 text-parchment-50 placeholder-ink-500 resize-y focus:outline-none focus:border-bronze-500"
+      />
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleRun}
+          disabled={isRunning}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-bronze-600 text-white font-bold hover:bg-bronze-500 transition-colors disabled:opacity-50"
+        >
+          <PlayIcon className="w-3 h-3" />
+          {isRunning ? '运行中...' : '运行'}
+        </button>
+        <select
+          value={timeoutMs}
+          onChange={(e) => setTimeoutMs(Number(e.target.value))}
+          className="bg-ink-900 border border-ink-700 rounded-lg px-2 py-1.5 text-parchment-200 focus:outline-none"
+          title="超时时间"
+        >
+          {RUN_TIMEOUT_OPTIONS.map(ms => <option key={ms} value={ms}>{ms / 1000}s 超时</option>)}
+        </select>
+        <span
+          className="ml-auto text-ink-400"
+          title={`浏览器能测量内存时，超过 ${MEMORY_LIMIT_MB} MB 即终止；卡在单次操作中 ${STALL_LIMIT_MS / 1000} 秒无响应也会终止`}
+        >
+          离线沙箱 · 无网络访问 · 内存上限 {MEMORY_LIMIT_MB} MB
+        </span>
+      </div>
+      {result && (
+        <div className="rounded-lg border border-ink-700 bg-ink-900 overflow-hidden">
+          <div className={`px-3 py-1.5 border-b border-ink-700 ${failed ? 'text-red-300' : 'text-emerald-300'}`}>
+            {RUN_STATUS_LABELS[result.status]}
+            {result.exitCode !== undefined && ` (退出码 ${result.exitCode})`}
+            <span className="text-ink-400"> · {result.durationMs} ms</span>
+          </div>
+          <pre className="max-h-72 overflow-auto px-3 py-2 whitespace-pre-wrap break-all">
+            {result.stdout && <span className="text-parchment-50">{result.stdout}</span>}
+            {result.stderr && <span className="text-red-300">{result.stderr}</span>}
+            {!result.stdout && !result.stderr && <span className="text-ink-500 italic">(无输出)</span>}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CodeRunPanel;
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { loadModelCatalog } from '../services/modelCatalog';
+import { MIN_COMPARE_MODELS, MAX_COMPARE_MODELS, normalizeCompareModelIds } from '../services/compareRun';
+import { ColumnsIcon, PlusIcon, TrashIcon } from './Icons';
+
+interface CompareSetupDialogProps {
+  providerId: string;
+  modelIds: string[];
+  isEnabled: boolean;
+  onSave: (modelIds: string[], enabled: boolean) => void;
+  onClose: () => void;
+}
+
+const CompareSetupDialog: React.FC<CompareSetupDialogProps> = ({ providerId, modelIds, isEnabled, onSave, onClose }) => {
+  const [draft, setDraft] = useState<string[]>(() => {
+    const initial = [...modelIds];
+    while (initial.length < MIN_COMPARE_MODELS) initial.push('');
+    return initial;
+  });
+  const catalogModels = loadModelCatalog(providerId)?.models || [];
+  const validIds = normalizeCompareModelIds(draft);
+
+  const updateAt = (index: number, value: string) => {
+    setDraft(prev => prev.map((id, i) => i === index ? value : id));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-ink-900/30 backdrop-blur-sm p-4 animate-fadeIn">
+      <div className="bg-white border border-parchment-200 rounded-3xl p-6 w-full max-w-lg shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center gap-3 mb-2">
+          <ColumnsIcon className="w-6 h-6 text-bronze-600" />
+          <h3 className="text-xl font-bold text-ink-900 font-serif">多模型对比</h3>
+        </div>
+        <p className="text-sm text-ink-500 mb-5">
+          开启后，每次发送都会把同一提示词和当前分支的历史同时发给 {MIN_COMPARE_MODELS}–{MAX_COMPARE_MODELS} 个模型，分栏显示。选中满意的回答即可采用到对话中。
+        </p>
+
+        <div className="flex-1 overflow-y-auto space-y-2">
+          {draft.map((id, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <span className="w-6 text-xs font-bold text-ink-400 text-right">{index + 1}</span>
+              <input
+                type="text"
+                value={id}
+                onChange={(e) => updateAt(index, e.target.value)}
+                list="compare-model-options"
+                placeholder="模型 ID，例如 deepseek/deepseek-r1"
+                className="flex-1 bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 font-mono text-sm focus:outline-none focus:border-bronze-500 transition-all"
+              />
+              <button
+                onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))}
+                disabled={draft.length <= MIN_COMPARE_MODELS}
+                className="p-2 text-ink-300 hover:text-red-500 rounded transition-colors disabled:opacity-30 disabled:hover:text-ink-300"
+                title="移除"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <datalist id="compare-model-options">
+            {catalogModels.map(model => <option key={model.id} value={model.id}>{model.name}</option>)}
+          </datalist>
+          {draft.length < MAX_COMPARE_MODELS && (
+            <button
+              onClick={() => setDraft(prev => [...prev, ''])}
+              className="ml-8 flex items-center gap-1 px-3 py-1.5 rounded-lg border border-parchment-300 text-sm text-ink-700 hover:bg-parchment-100 transition-colors"
+            >
+              <PlusIcon className="w-3.5 h-3.5" /> 添加模型
+            </button>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3 mt-6">
+          {isEnabled && (
+            <button
+              onClick={() => onSave(validIds, false)}
+              className="px-4 py-2.5 rounded-xl text-sm text-red-600 hover:bg-red-50 transition-colors"
+            >
+              关闭对比
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="ml-auto px-5 py-2.5 rounded-xl text-sm text-ink-500 hover:bg-parchment-100 transition-colors"
+          >
+            取消
+          </button>
+          <button
+            onClick={() => onSave(validIds, true)}
+            disabled={validIds.length < MIN_COMPARE_MODELS}
+            className="px-5 py-2.5 rounded-xl text-sm bg-bronze-600 text-white font-bold hover:bg-bronze-500 transition-colors disabled:opacity-50"
+          >
+            {isEnabled ? '保存' : '开启对比'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompareSetupDialog;
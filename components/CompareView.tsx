@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { CompareColumn, CompareRun } from '../services/compareRun';
+import { formatCost } from '../services/pricing';
+import MarkdownContent from './MarkdownContent';
+import { BrainIcon, ColumnsIcon, StopIcon, XIcon } from './Icons';
+
+interface CompareViewProps {
+  run: CompareRun;
+  onStop: (index: number) => void;
+  onPromote: (index: number) => void;
+  onClose: () => void;
+}
+
+const CompareColumnCard: React.FC<{
+  column: CompareColumn;
+  onStop: () => void;
+  onPromote: () => void;
+}> = ({ column, onStop, onPromote }) => {
+  const [isReasoningOpen, setIsReasoningOpen] = useState(false);
+  const isThinking = column.isStreaming && !column.text;
+
+  return (
+    <div className="flex flex-col min-w-0 rounded-2xl border border-parchment-200 bg-white shadow-[0_2px_8px_rgba(0,0,0,0.04)]">
+      <div className="flex items-center gap-2 px-4 py-2.5 border-b border-parchment-200 bg-parchment-100/60 rounded-t-2xl">
+        <span className="flex-1 min-w-0 truncate font-mono text-xs font-bold text-ink-900" title={column.modelId}>{column.modelId}</span>
+        {column.isStreaming && (
+          <button
+            onClick={onStop}
+            className="p-1 text-ink-400 hover:text-red-500 rounded hover:bg-parchment-200 transition-colors"
+            title="停止此模型"
+          >
+            <StopIcon className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 px-4 py-1.5 border-b border-parchment-100 text-[10px] font-mono text-ink-500">
+        <span title="首个 token 用时">
+          {column.thinkingTime !== undefined ? `${(column.thinkingTime / 1000).toFixed(2)}s` : column.isStreaming ? '等待中...' : '—'}
+        </span>
+        {column.usage && <span title="总 token 数">{column.usage.total_tokens} T</span>}
+        {column.cost !== undefined && <span title="花费">{formatCost(column.cost)}</span>}
+        {column.finishReason === 'length' && <span className="text-amber-700">已截断</span>}
+      </div>
+
+      <div className="flex-1 px-4 py-3 text-sm leading-7 text-ink-900 min-h-[8rem]">
+        {(column.reasoning || isThinking) && (
+          <div className="mb-3">
+            <button
+              onClick={() => setIsReasoningOpen(prev => !prev)}
+              className="flex items-center gap-1.5 w-full text-left text-xs text-bronze-700 bg-bronze-50 border border-bronze-200 rounded-lg px-2 py-1.5"
+            >
+              <BrainIcon className={`w-4 h-4 ${isThinking ? 'animate-pulse text-bronze-500' : 'text-bronze-600'}`} />
+              <span className="font-bold">{isThinking ? '深度思考中...' : '思维链'}</span>
+              {column.reasoning && <span className="ml-auto text-[10px] font-mono text-bronze-500">{column.reasoning.length} 字</span>}
+            </button>
+            {(isReasoningOpen || isThinking) && column.reasoning && (
+              <div className="mt-2 p-3 rounded-lg bg-parchment-100 text-ink-700 whitespace-pre-wrap text-xs leading-relaxed max-h-64 overflow-y-auto scrollbar-thin">
+                {column.reasoning}
+              </div>
+            )}
+          </div>
+        )}
+        {column.text && (
+          <div className="markdown-body prose prose-sm max-w-none prose-code:text-bronze-800 prose-code:before:content-none prose-code:after:content-none">
+            <MarkdownContent content={column.text} isStreaming={column.isStreaming} />
+          </div>
+        )}
+        {column.error && (
+          <div className="mt-3 text-xs text-red-600 bg-red-50 border border-red-200 rounded-lg px-3 py-2 break-words">{column.error}</div>
+        )}
+      </div>
+
+      <div className="px-4 py-2.5 border-t border-parchment-100">
+        {column.promotedMessageId ? (
+          <span className="text-xs font-bold text-emerald-700">已采用到对话</span>
+        ) : (
+          <button
+            onClick={onPromote}
+            disabled={column.isStreaming || !column.text}
+            className="px-3 py-1.5 rounded-lg text-xs font-bold border border-bronze-200 bg-bronze-50 text-bronze-700 hover:bg-bronze-100 transition-colors disabled:opacity-40"
+          >
+            采用此回答
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Columns of a compare run, shown under the prompt they answer
+const CompareView: React.FC<CompareViewProps> = ({ run, onStop, onPromote, onClose }) => (
+  <div className="mb-8 animate-fadeIn">
+    <div className="flex items-center gap-2 mb-3 text-sm text-ink-500">
+      <ColumnsIcon className="w-4 h-4 text-bronze-600" />
+      <span className="font-bold text-ink-900">多模型对比</span>
+      <span className="text-xs">{run.columns.length} 个模型 · 同一提示词与历史</span>
+      <button
+        onClick={onClose}
+        disabled={run.columns.some(column => column.isStreaming)}
+        className="ml-auto p-1 text-ink-400 hover:text-ink-900 rounded hover:bg-parchment-200 transition-colors disabled:opacity-30"
+        title="关闭对比结果"
+      >
+        <XIcon className="w-4 h-4" />
+      </button>
+    </div>
+    <div className={`grid gap-3 grid-cols-1 ${run.columns.length === 2 ? 'md:grid-cols-2' : run.columns.length === 3 ? 'md:grid-cols-3' : 'md:grid-cols-2 xl:grid-cols-4'}`}>
+      {run.columns.map((column, index) => (
+        <CompareColumnCard
+          key={column.modelId}
+          column={column}
+          onStop={() => onStop(index)}
+          onPromote={() => onPromote(index)}
+        />
+      ))}
+    </div>
+  </div>
+);
+
+export default CompareView;
@@ -0,0 +1,175 @@
+import React, { useState, useRef } from 'react';
+import { Conversation } from '../types';
+import { PlusIcon, PinIcon, EditIcon, TrashIcon, ChatBubbleIcon, XIcon, UploadIcon, SearchIcon } from './Icons';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeConversationId: string;
+  isOpen: boolean;
+  isLoading?: boolean;
+  onClose: () => void;
+  onNew: () => void;
+  onSelect: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onTogglePin: (id: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onSearch: () => void;
+}
+
+const formatUpdatedAt = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })
+    : date.toLocaleDateString('zh-CN', { month: '2-digit', day: '2-digit' });
+};
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  conversations, activeConversationId, isOpen, isLoading, onClose, onNew, onSelect, onRename, onTogglePin, onDelete, onImport, onSearch
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [renameText, setRenameText] = useState('');
+
+  const startRename = (conversation: Conversation) => {
+    setRenamingId(conversation.id);
+    setRenameText(conversation.title);
+  };
+
+  const commitRename = () => {
+    if (renamingId && renameText.trim()) {
+      onRename(renamingId, renameText.trim());
+    }
+    setRenamingId(null);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <aside className="flex-none w-72 h-full flex flex-col bg-parchment-100 border-r border-parchment-200 z-20 fixed md:relative inset-y-0 left-0 shadow-xl md:shadow-none animate-fadeIn">
+      <div className="h-20 flex-none flex items-center gap-2 px-4 border-b border-parchment-200">
+        <button
+          onClick={onNew}
+          disabled={isLoading}
+          className="flex-1 flex items-center justify-center gap-2 bg-bronze-600 hover:bg-bronze-500 text-white font-bold py-2.5 rounded-xl transition-all shadow-md shadow-bronze-600/20 disabled:opacity-50"
+        >
+          <PlusIcon className="w-4 h-4" />
+          新对话
+        </button>
+        <button
+          onClick={onSearch}
+          className="p-2.5 text-ink-500 hover:text-bronze-600 hover:bg-parchment-200 rounded-xl transition-colors"
+          title="搜索会话 (Ctrl+K)"
+        >
+          <SearchIcon className="w-5 h-5" />
+        </button>
+        <button
+          onClick={() => importInputRef.current?.click()}
+          disabled={isLoading}
+          className="p-2.5 text-ink-500 hover:text-bronze-600 hover:bg-parchment-200 rounded-xl transition-colors disabled:opacity-50"
+          title="导入会话 (JSON / Markdown)"
+        >
+          <UploadIcon className="w-5 h-5" />
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,.md,.markdown,.txt"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) onImport(file);
+          }}
+        />
+        <button
+          onClick={onClose}
+          className="p-2.5 text-ink-400 hover:text-ink-900 hover:bg-parchment-200 rounded-xl transition-colors md:hidden"
+          title="收起"
+        >
+          <XIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-1">
+        {conversations.length === 0 && (
+          <p className="text-xs text-ink-400 text-center mt-8">暂无历史会话</p>
+        )}
+        {conversations.map(conversation => {
+          const isActive = conversation.id === activeConversationId;
+          return (
+            <div
+              key={conversation.id}
+              onClick={() => !isLoading && renamingId !== conversation.id && onSelect(conversation.id)}
+              className={`
+                group flex items-center gap-2 px-3 py-2.5 rounded-xl cursor-pointer transition-colors border
+                ${isActive
+                  ? 'bg-white border-bronze-200 shadow-sm'
+                  : 'border-transparent hover:bg-parchment-200/60'}
+                ${isLoading && !isActive ? 'opacity-50 cursor-not-allowed' : ''}
+              `}
+            >
+              {conversation.pinned
+                ? <PinIcon className="w-4 h-4 text-bronze-600 shrink-0" />
+                : <ChatBubbleIcon className="w-4 h-4 text-ink-400 shrink-0" />}
+
+              {renamingId === conversation.id ? (
+                <input
+                  value={renameText}
+                  onChange={(e) => setRenameText(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  onClick={(e) => e.stopPropagation()}
+                  className="flex-1 min-w-0 bg-parchment-50 border border-bronze-300 rounded px-2 py-0.5 text-sm text-ink-900 focus:outline-none"
+                  autoFocus
+                />
+              ) : (
+                <div className="flex-1 min-w-0">
+                  <p className={`text-sm truncate ${isActive ? 'font-bold text-ink-900' : 'text-ink-700'}`}>
+                    {conversation.title}
+                  </p>
+                  <p className="text-[10px] text-ink-400 font-mono uppercase">
+                    {formatUpdatedAt(conversation.updatedAt)} · {conversation.mode}
+                  </p>
+                </div>
+              )}
+
+              {renamingId !== conversation.id && (
+                <div className="hidden group-hover:flex items-center gap-0.5 shrink-0" onClick={(e) => e.stopPropagation()}>
+                  <button
+                    onClick={() => onTogglePin(conversation.id)}
+                    className="p-1 hover:bg-parchment-200 rounded text-ink-300 hover:text-bronze-600 transition-colors"
+                    title={conversation.pinned ? '取消置顶' : '置顶'}
+                  >
+                    <PinIcon className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => startRename(conversation)}
+                    className="p-1 hover:bg-parchment-200 rounded text-ink-300 hover:text-bronze-600 transition-colors"
+                    title="重命名"
+                  >
+                    <EditIcon className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => onDelete(conversation.id)}
+                    disabled={isLoading && isActive}
+                    className="p-1 hover:bg-red-50 rounded text-ink-300 hover:text-red-500 transition-colors disabled:opacity-30"
+                    title="删除会话"
+                  >
+                    <TrashIcon className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+};
+
+export default ConversationSidebar;
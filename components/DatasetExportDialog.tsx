@@ -0,0 +1,170 @@
+import React, { useState, useMemo } from 'react';
+import { Conversation, ReasoningMode } from '../types';
+import { ModeDefinition } from '../services/modeRegistry';
+import {
+  DatasetFormat, ReasoningPlacement, DATASET_FORMAT_LABELS, REASONING_PLACEMENT_LABELS,
+  buildDataset, countDatasetTurns, filterConversationsByMode
+} from '../services/datasetExport';
+import { DownloadIcon, XIcon } from './Icons';
+
+interface DatasetExportDialogProps {
+  conversations: Conversation[];
+  modes: ModeDefinition[];
+  onDownload: (content: string, fileName: string, mimeType: string) => void;
+  onClose: () => void;
+}
+
+const DatasetExportDialog: React.FC<DatasetExportDialogProps> = ({ conversations, modes, onDownload, onClose }) => {
+  const [format, setFormat] = useState<DatasetFormat>('openai-jsonl');
+  const [reasoning, setReasoning] = useState<ReasoningPlacement>('think-prefix');
+  const [includeSystemPrompt, setIncludeSystemPrompt] = useState(true);
+  const [modeFilter, setModeFilter] = useState<ReasoningMode[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(
+    () => new Set(conversations.map(c => c.id))
+  );
+
+  const visible = useMemo(() => filterConversationsByMode(conversations, modeFilter), [conversations, modeFilter]);
+  const chosen = visible.filter(c => selectedIds.has(c.id));
+  const turnCount = useMemo(() => countDatasetTurns(chosen), [chosen]);
+  const allVisibleSelected = visible.length > 0 && visible.every(c => selectedIds.has(c.id));
+
+  // Only modes that actually occur in saved conversations are offered as filters
+  const usedModes = modes.filter(mode => conversations.some(c => c.mode === mode.id));
+
+  const toggleConversation = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAllVisible = () => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      visible.forEach(c => allVisibleSelected ? next.delete(c.id) : next.add(c.id));
+      return next;
+    });
+  };
+
+  const toggleModeFilter = (id: ReasoningMode) => {
+    setModeFilter(prev => prev.includes(id) ? prev.filter(m => m !== id) : [...prev, id]);
+  };
+
+  const handleExport = () => {
+    const { content, fileName, mimeType } = buildDataset(chosen, modes, { format, reasoning, includeSystemPrompt });
+    onDownload(content, fileName, mimeType);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-ink-900/30 backdrop-blur-sm p-4 animate-fadeIn">
+      <div className="bg-white border border-parchment-200 rounded-3xl p-6 w-full max-w-2xl shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-2xl font-bold text-ink-900 font-serif">导出数据集</h3>
+            <p className="text-ink-500 text-sm mt-1">每个会话导出当前显示的分支，失败或中断的回答会被跳过。</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-ink-400 hover:text-ink-900 rounded-lg hover:bg-parchment-100 transition-colors">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 mb-3">
+          <div>
+            <label className="block text-xs font-bold text-ink-700 mb-1">格式</label>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as DatasetFormat)}
+              className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 text-sm focus:outline-none focus:border-bronze-500 transition-all"
+            >
+              {(Object.keys(DATASET_FORMAT_LABELS) as DatasetFormat[]).map(id => (
+                <option key={id} value={id}>{DATASET_FORMAT_LABELS[id]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-ink-700 mb-1">思考过程</label>
+            <select
+              value={reasoning}
+              onChange={(e) => setReasoning(e.target.value as ReasoningPlacement)}
+              className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 text-sm focus:outline-none focus:border-bronze-500 transition-all"
+            >
+              {(Object.keys(REASONING_PLACEMENT_LABELS) as ReasoningPlacement[]).map(id => (
+                <option key={id} value={id}>{format === 'csv' && id !== 'none' ? '单独一列' : REASONING_PLACEMENT_LABELS[id]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {format !== 'csv' && (
+          <label className="flex items-center gap-2 text-sm text-ink-700 mb-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeSystemPrompt}
+              onChange={(e) => setIncludeSystemPrompt(e.target.checked)}
+              className="accent-bronze-600"
+            />
+            包含系统提示词
+          </label>
+        )}
+
+        {usedModes.length > 1 && (
+          <div className="flex flex-wrap gap-1.5 mb-3">
+            {usedModes.map(mode => (
+              <button
+                key={mode.id}
+                onClick={() => toggleModeFilter(mode.id)}
+                className={`px-3 py-1 rounded-full text-xs border transition-colors ${modeFilter.includes(mode.id) ? 'bg-bronze-600 text-white border-bronze-700' : 'bg-white text-ink-500 border-parchment-200 hover:text-ink-900'}`}
+              >
+                {mode.label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex-1 min-h-0 border border-parchment-200 rounded-xl overflow-hidden flex flex-col">
+          <label className="flex items-center gap-2 px-3 py-2 bg-parchment-100 border-b border-parchment-200 text-xs font-bold text-ink-700 cursor-pointer">
+            <input type="checkbox" checked={allVisibleSelected} onChange={toggleAllVisible} className="accent-bronze-600" />
+            全选 ({chosen.length}/{visible.length})
+          </label>
+          <div className="flex-1 overflow-y-auto">
+            {visible.map(conversation => (
+              <label key={conversation.id} className="flex items-center gap-2 px-3 py-2 text-sm hover:bg-parchment-50 cursor-pointer border-b border-parchment-100 last:border-b-0">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(conversation.id)}
+                  onChange={() => toggleConversation(conversation.id)}
+                  className="accent-bronze-600"
+                />
+                <span className="flex-1 truncate text-ink-900">{conversation.title}</span>
+                <span className="text-[10px] text-ink-400">{modes.find(m => m.id === conversation.mode)?.label || conversation.mode}</span>
+              </label>
+            ))}
+            {visible.length === 0 && (
+              <p className="text-xs text-ink-400 text-center py-6">没有符合条件的会话</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex gap-4 pt-4">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 rounded-xl border border-parchment-300 text-ink-700 font-bold hover:bg-parchment-100 transition-colors"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={turnCount === 0}
+            className="flex-1 py-3 rounded-xl bg-bronze-600 text-white font-bold hover:bg-bronze-500 shadow-lg shadow-bronze-600/20 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            <DownloadIcon className="w-4 h-4" />
+            导出 {turnCount} 轮问答
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DatasetExportDialog;
@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { HexagramCast } from '../types';
+import { LINE_NAMES, LINE_VALUE_LABELS, LineValue, tossCoins } from '../services/liuyao';
+import { isValidTimeZone } from '../services/zonedTime';
+import { ChevronRightIcon, HexagramIcon } from './Icons';
+import LiuyaoChartView from './LiuyaoChartView';
+
+interface HexagramCastFormProps {
+  attached?: HexagramCast; // Casting already attached to the draft
+  disabled?: boolean;
+  onAttach: (cast: HexagramCast) => void;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const nowParts = () => {
+  const now = new Date();
+  return {
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    time: `${pad(now.getHours())}:${pad(now.getMinutes())}`
+  };
+};
+
+const LOCAL_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || 'Asia/Shanghai';
+
+const HexagramCastForm: React.FC<HexagramCastFormProps> = ({ attached, disabled, onAttach }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [method, setMethod] = useState<HexagramCast['method']>(attached?.method || 'coins');
+  const [lines, setLines] = useState<LineValue[]>(attached?.lines || []);
+  const [tosses, setTosses] = useState<boolean[][]>([]);
+  const [date, setDate] = useState(attached?.date || nowParts().date);
+  const [time, setTime] = useState(attached?.time || nowParts().time);
+  const [timeZone, setTimeZone] = useState(attached?.timeZone || LOCAL_TIME_ZONE);
+
+  const isComplete = lines.length === 6;
+  const cast: HexagramCast | null = isComplete && isValidTimeZone(timeZone)
+    ? { lines, method, date, time, timeZone: timeZone.trim() }
+    : null;
+
+  const switchMethod = (next: HexagramCast['method']) => {
+    setMethod(next);
+    setTosses([]);
+    setLines(next === 'manual' ? [7, 7, 7, 7, 7, 7] : []);
+  };
+
+  // The casting time is when the first line is thrown
+  const tossLines = (count: number) => {
+    if (lines.length === 0) {
+      const now = nowParts();
+      setDate(now.date);
+      setTime(now.time);
+    }
+    const results = Array.from({ length: Math.min(count, 6 - lines.length) }, tossCoins);
+    setTosses(prev => [...prev, ...results.map(result => result.coins)]);
+    setLines(prev => [...prev, ...results.map(result => result.value)]);
+  };
+
+  const resetCoins = () => {
+    setTosses([]);
+    setLines([]);
+  };
+
+  const inputClass = 'w-full bg-white border border-parchment-300 rounded-lg px-2.5 py-1.5 text-ink-900 text-sm focus:outline-none focus:border-bronze-500 transition-all disabled:opacity-50';
+
+  return (
+    <div className="mb-3 bg-parchment-100 border border-parchment-300 rounded-2xl">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left"
+      >
+        <HexagramIcon className="w-4 h-4 text-bronze-600" />
+        <span className="text-sm font-bold text-ink-900">六爻起卦</span>
+        <span className="text-xs text-ink-500 truncate flex-1">
+          {attached ? '已附加卦象，可重新起卦后更新' : '铜钱摇卦或手动录入，本地装卦后随提问发送'}
+        </span>
+        <ChevronRightIcon className={`w-4 h-4 text-ink-400 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 space-y-3">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="inline-flex rounded-lg border border-parchment-300 overflow-hidden text-xs">
+              {(['coins', 'manual'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => switchMethod(option)}
+                  disabled={disabled}
+                  className={`px-3 py-1.5 ${method === option ? 'bg-bronze-600 text-white' : 'bg-white text-ink-500 hover:bg-parchment-50'}`}
+                >
+                  {option === 'coins' ? '铜钱摇卦' : '手动录入'}
+                </button>
+              ))}
+            </div>
+            <div className="w-36">
+              <label className="block text-[11px] font-bold text-ink-700 mb-1">起卦日期</label>
+              <input type="date" value={date} disabled={disabled} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+            </div>
+            <div className="w-24">
+              <label className="block text-[11px] font-bold text-ink-700 mb-1">时间</label>
+              <input type="time" value={time} disabled={disabled} onChange={(e) => setTime(e.target.value)} className={inputClass} />
+            </div>
+            <div className="w-40">
+              <label className="block text-[11px] font-bold text-ink-700 mb-1">时区</label>
+              <input
+                type="text"
+                value={timeZone}
+                disabled={disabled}
+                onChange={(e) => setTimeZone(e.target.value)}
+                className={`${inputClass} font-mono ${isValidTimeZone(timeZone) ? '' : 'border-red-400'}`}
+              />
+            </div>
+          </div>
+
+          {method === 'coins' ? (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => tossLines(1)}
+                  disabled={disabled || isComplete}
+                  className="px-3 py-1.5 rounded-lg bg-white border border-parchment-300 text-xs font-bold text-ink-700 hover:border-bronze-400 disabled:opacity-50"
+                >
+                  摇一爻 ({lines.length}/6)
+                </button>
+                <button
+                  onClick={() => tossLines(6)}
+                  disabled={disabled || isComplete}
+                  className="px-3 py-1.5 rounded-lg bg-white border border-parchment-300 text-xs text-ink-500 hover:border-bronze-400 disabled:opacity-50"
+                >
+                  一次摇完
+                </button>
+                {lines.length > 0 && (
+                  <button onClick={resetCoins} disabled={disabled} className="text-xs text-ink-400 hover:text-red-500">
+                    重新起卦
+                  </button>
+                )}
+                <span className="ml-auto text-[11px] text-ink-400">一背少阳，二背少阴，三背老阳，无背老阴</span>
+              </div>
+              {tosses.length > 0 && (
+                <div className="flex flex-col-reverse gap-1 text-xs">
+                  {tosses.map((coins, i) => (
+                    <div key={i} className="flex items-center gap-3">
+                      <span className="w-10 text-ink-400">{LINE_NAMES[i]}</span>
+                      <span className="font-serif tracking-widest">{coins.map(back => (back ? '背' : '字')).join(' ')}</span>
+                      <span className={lines[i] === 6 || lines[i] === 9 ? 'text-red-600 font-bold' : 'text-ink-700'}>{LINE_VALUE_LABELS[lines[i]]}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="flex flex-col-reverse gap-1.5">
+              {lines.map((value, i) => (
+                <div key={i} className="flex items-center gap-3 text-xs">
+                  <span className="w-10 text-ink-400">{LINE_NAMES[i]}</span>
+                  <select
+                    value={value}
+                    disabled={disabled}
+                    onChange={(e) => setLines(prev => prev.map((v, j) => (j === i ? Number(e.target.value) as LineValue : v)))}
+                    className="bg-white border border-parchment-300 rounded-lg px-2 py-1 text-ink-900 focus:outline-none focus:border-bronze-500"
+                  >
+                    {([7, 8, 9, 6] as LineValue[]).map(option => (
+                      <option key={option} value={option}>
+                        {LINE_VALUE_LABELS[option]}{option === 9 || option === 6 ? ' (动)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {cast && <LiuyaoChartView cast={cast} />}
+
+          <div className="flex justify-end">
+            <button
+              onClick={() => {
+                if (!cast) return;
+                onAttach(cast);
+                setIsExpanded(false);
+              }}
+              disabled={disabled || !cast}
+              className="px-4 py-1.5 rounded-lg bg-bronze-600 text-white text-xs font-bold hover:bg-bronze-500 transition-colors disabled:opacity-50"
+            >
+              {attached ? '更新卦象' : '附加到提问'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HexagramCastForm;
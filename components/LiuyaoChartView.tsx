@@ -0,0 +1,90 @@
+import React, { useMemo } from 'react';
+import { HexagramCast } from '../types';
+import { computeLiuyao, LINE_NAMES } from '../services/liuyao';
+
+interface LiuyaoChartViewProps {
+  cast: HexagramCast;
+}
+
+// A yang line is one solid bar, a yin line two halves
+const YaoBar: React.FC<{ isYang: boolean; isMoving?: boolean; muted?: boolean }> = ({ isYang, isMoving, muted }) => {
+  const color = muted ? 'bg-ink-300' : isMoving ? 'bg-red-600' : 'bg-ink-900';
+  return (
+    <div className="flex gap-2 w-16 h-2.5">
+      {isYang
+        ? <div className={`flex-1 rounded-sm ${color}`} />
+        : <><div className={`flex-1 rounded-sm ${color}`} /><div className={`flex-1 rounded-sm ${color}`} /></>}
+    </div>
+  );
+};
+
+const LiuyaoChartView: React.FC<LiuyaoChartViewProps> = ({ cast }) => {
+  const result = useMemo(() => {
+    try {
+      return { chart: computeLiuyao(cast) };
+    } catch (e: any) {
+      return { error: e?.message || String(e) };
+    }
+  }, [cast]);
+
+  if (!result.chart) {
+    return (
+      <div className="p-3 rounded-xl bg-red-50 border border-red-200 text-sm text-red-600">
+        装卦失败：{result.error}
+      </div>
+    );
+  }
+
+  const { chart } = result;
+  const { primary, changed } = chart;
+
+  return (
+    <div className="w-full max-w-xl bg-white border border-parchment-200 rounded-2xl p-4 shadow-sm text-ink-900">
+      <div className="flex items-baseline gap-2 mb-1">
+        <span className="text-lg font-bold font-serif">{primary.name}</span>
+        <span className="text-xs text-ink-500">{primary.palace}{primary.generation} · {primary.palaceElement}</span>
+        {changed && (
+          <>
+            <span className="text-ink-400">之</span>
+            <span className="text-lg font-bold font-serif">{changed.name}</span>
+            <span className="text-xs text-ink-500">{changed.palace}{changed.generation}</span>
+          </>
+        )}
+        <span className="ml-auto text-[10px] text-ink-400 font-mono">本地装卦</span>
+      </div>
+      <div className="text-xs text-ink-500 mb-3">
+        {chart.cast.method === 'coins' ? '铜钱摇卦' : '手动录入'} · {chart.castTime}（{chart.cast.timeZone}）·
+        {' '}{chart.pillars[0]}年 {chart.pillars[1]}月 {chart.pillars[2]}日 {chart.pillars[3]}时 · 旬空 {chart.voidBranches}
+      </div>
+
+      <div className="space-y-1.5">
+        {[...chart.lines].reverse().map(line => (
+          <div key={line.position} className="grid grid-cols-[2.5rem_2.5rem_5.5rem_5rem_1.5rem_1fr] items-center gap-2 text-xs">
+            <span className="text-ink-400">{LINE_NAMES[line.position - 1]}</span>
+            <span className="text-ink-500">{line.spirit}</span>
+            <span className="font-serif">{line.relative} {line.najia}{line.element}</span>
+            <div className="flex items-center gap-1.5">
+              <YaoBar isYang={line.isYang} isMoving={line.isMoving} />
+              <span className="w-3 text-red-600 font-bold">{line.value === 9 ? '○' : line.value === 6 ? '×' : ''}</span>
+            </div>
+            <span className={`font-bold ${line.marker === '世' ? 'text-bronze-700' : 'text-ink-500'}`}>{line.marker || ''}</span>
+            {changed && (
+              <div className="flex items-center gap-2">
+                {line.changed ? (
+                  <>
+                    <YaoBar isYang={line.changed.isYang} />
+                    <span className="font-serif">{line.changed.relative} {line.changed.najia}{line.changed.element}</span>
+                  </>
+                ) : (
+                  <YaoBar isYang={line.isYang} muted />
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LiuyaoChartView;
@@ -0,0 +1,63 @@
+import React, { createContext, useContext } from 'react';
+import ReactMarkdown, { Components, ExtraProps } from 'react-markdown';
+import remarkMath from 'remark-math';
+import { normalizeMathDelimiters } from '../services/mathText';
+import MathFormula from './MathFormula';
+import CodeBlock from './CodeBlock';
+
+interface MarkdownContentProps {
+  content: string;
+  isStreaming?: boolean;
+}
+
+type Element = NonNullable<ExtraProps['node']>;
+
+const MATH_CLASS = /\bmath-(inline|display)\b/;
+const LANGUAGE_CLASS = /\blanguage-([^\s,]+)/;
+
+// Read by the code renderer; passing it through context keeps `components` stable, so
+// blocks aren't remounted (losing their toggles) when the stream finishes
+const StreamingContext = createContext(false);
+
+const classNameOf = (element: Element) => String(element.properties.className ?? '');
+
+const textOf = (element: Element): string =>
+  element.children.map(child => child.type === 'text' ? child.value : child.type === 'element' ? textOf(child) : '').join('');
+
+const FencedCode: React.FC<{ element: Element }> = ({ element }) => {
+  const isStreaming = useContext(StreamingContext);
+  return (
+    <CodeBlock
+      code={textOf(element).replace(/\n$/, '')}
+      language={LANGUAGE_CLASS.exec(classNameOf(element))?.[1]}
+      isStreaming={isStreaming}
+    />
+  );
+};
+
+// remark-math hands formulas over as <code class="math-inline"> and, for blocks,
+// <pre><code class="math-display">; both are swapped for KaTeX output here. Other
+// <pre><code> blocks are fenced code and get a highlighted CodeBlock.
+const components: Components = {
+  code: ({ node, className, children, ...props }) => {
+    const math = MATH_CLASS.exec(className || '');
+    if (math) return <MathFormula source={String(children)} display={math[1] === 'display'} />;
+    return <code className={className} {...props}>{children}</code>;
+  },
+  pre: ({ node, children, ...props }) => {
+    const child = node?.children[0];
+    if (child?.type !== 'element' || child.tagName !== 'code') return <pre {...props}>{children}</pre>;
+    if (MATH_CLASS.test(classNameOf(child))) return <>{children}</>;
+    return <FencedCode element={child} />;
+  }
+};
+
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ content, isStreaming = false }) => (
+  <StreamingContext.Provider value={isStreaming}>
+    <ReactMarkdown remarkPlugins={[remarkMath]} components={components}>
+      {normalizeMathDelimiters(content)}
+    </ReactMarkdown>
+  </StreamingContext.Provider>
+);
+
+export default MarkdownContent;
@@ -0,0 +1,62 @@
+import React, { useState, useMemo } from 'react';
+import katex from 'katex';
+import { CopyIcon } from './Icons';
+
+interface MathFormulaProps {
+  source: string;
+  display?: boolean;
+}
+
+// Renders one formula with KaTeX. Source that doesn't parse (often a formula still being
+// streamed) is shown as-is instead of KaTeX's red error text.
+const MathFormula: React.FC<MathFormulaProps> = ({ source, display = false }) => {
+  const [copied, setCopied] = useState(false);
+
+  const rendered = useMemo(() => {
+    try {
+      return { html: katex.renderToString(source, { displayMode: display, throwOnError: true, strict: 'ignore' }) };
+    } catch (e: any) {
+      return { error: e?.message || String(e) };
+    }
+  }, [source, display]);
+
+  const handleCopy = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    navigator.clipboard.writeText(source).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  };
+
+  const body = rendered.html
+    ? <span dangerouslySetInnerHTML={{ __html: rendered.html }} />
+    : <code className="font-mono text-[0.9em] text-ink-500" title={rendered.error}>{display ? `$$${source}$$` : `$${source}$`}</code>;
+
+  if (display) {
+    return (
+      <div className="group/math relative my-4 overflow-x-auto overflow-y-hidden">
+        {body}
+        <button
+          onClick={handleCopy}
+          className="absolute top-0 right-0 flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-sans text-ink-400 bg-parchment-50/90 border border-parchment-200 opacity-0 group-hover/math:opacity-100 hover:text-bronze-600 transition-opacity"
+          title="复制 LaTeX 源码"
+        >
+          <CopyIcon className="w-3 h-3" />
+          {copied ? '已复制' : 'LaTeX'}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <span
+      onClick={handleCopy}
+      className="cursor-copy rounded hover:bg-bronze-100/50 transition-colors"
+      title={copied ? '已复制' : '点击复制 LaTeX 源码'}
+    >
+      {body}
+    </span>
+  );
+};
+
+export default MathFormula;
@@ -0,0 +1,227 @@
+import React, { useState, useRef } from 'react';
+import {
+  ModeDefinition, MODE_ICON_IDS, createMode, cloneMode, exportModes, importModes, getBuiltInMode
+} from '../services/modeRegistry';
+import { MODE_ICONS, PlusIcon, CopyIcon, TrashIcon, RefreshIcon, DownloadIcon, PaperclipIcon, XIcon } from './Icons';
+
+interface ModeManagerProps {
+  modes: ModeDefinition[];
+  onSave: (modes: ModeDefinition[]) => void;
+  onClose: () => void;
+}
+
+const ModeManager: React.FC<ModeManagerProps> = ({ modes, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ModeDefinition[]>(modes);
+  const [selectedId, setSelectedId] = useState<string>(modes[0]?.id);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = draft.find(mode => mode.id === selectedId) || draft[0];
+
+  const updateSelected = (patch: Partial<ModeDefinition>) => {
+    setDraft(prev => prev.map(mode => mode.id === selected.id ? { ...mode, ...patch } : mode));
+  };
+
+  const addMode = (mode: ModeDefinition) => {
+    setDraft(prev => [...prev, mode]);
+    setSelectedId(mode.id);
+  };
+
+  const deleteSelected = () => {
+    if (selected.builtIn || !window.confirm(`确认删除模式「${selected.label}」?`)) return;
+    setDraft(prev => prev.filter(mode => mode.id !== selected.id));
+    setSelectedId(draft[0].id);
+  };
+
+  const resetSelected = () => {
+    const builtIn = getBuiltInMode(selected.id);
+    if (builtIn) updateSelected(builtIn);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportModes(draft)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `deepseek-speciale-modes-${new Date().toISOString().slice(0, 10)}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const next = importModes(draft, await file.text());
+      setDraft(next);
+      setSelectedId(next[next.length - 1].id);
+    } catch (error: any) {
+      alert(error.message);
+    }
+  };
+
+  const handleSave = () => {
+    if (draft.some(mode => !mode.label.trim())) {
+      alert("模式名称不能为空。");
+      return;
+    }
+    onSave(draft.map(mode => ({
+      ...mode,
+      label: mode.label.trim(),
+      preferredModelId: mode.preferredModelId?.trim() || undefined
+    })));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-ink-900/30 backdrop-blur-sm p-4 animate-fadeIn">
+      <div className="bg-white border border-parchment-200 rounded-3xl p-6 w-full max-w-3xl shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-2xl font-bold text-ink-900 font-serif">推理模式</h3>
+          <button onClick={onClose} className="p-2 text-ink-400 hover:text-ink-900 rounded-lg hover:bg-parchment-100 transition-colors">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 gap-4 min-h-0">
+          {/* Mode List */}
+          <div className="w-48 flex-shrink-0 flex flex-col gap-2">
+            <div className="flex-1 overflow-y-auto space-y-1">
+              {draft.map(mode => {
+                const ModeIcon = MODE_ICONS[mode.icon] || MODE_ICONS.chat;
+                return (
+                  <button
+                    key={mode.id}
+                    onClick={() => setSelectedId(mode.id)}
+                    className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-left transition-colors ${mode.id === selected.id ? 'bg-bronze-50 text-bronze-700 font-bold' : 'text-ink-700 hover:bg-parchment-100'}`}
+                  >
+                    <ModeIcon className="w-4 h-4 flex-shrink-0" />
+                    <span className="truncate flex-1">{mode.label || '未命名'}</span>
+                    {mode.builtIn && <span className="text-[10px] text-ink-400 font-normal">内置</span>}
+                  </button>
+                );
+              })}
+            </div>
+            <div className="grid grid-cols-2 gap-1 pt-2 border-t border-parchment-200">
+              <button onClick={() => addMode(createMode())} className="flex items-center justify-center gap-1 px-2 py-1.5 rounded-lg text-xs text-ink-600 hover:bg-parchment-100" title="新建模式">
+                <PlusIcon className="w-3.5 h-3.5" /> 新建
+              </button>
+              <button onClick={() => addMode(cloneMode(selected))} className="flex items-center justify-center gap-1 px-2 py-1.5 rounded-lg text-xs text-ink-600 hover:bg-parchment-100" title="复制当前模式">
+                <CopyIcon className="w-3.5 h-3.5" /> 复制
+              </button>
+              <button onClick={() => importInputRef.current?.click()} className="flex items-center justify-center gap-1 px-2 py-1.5 rounded-lg text-xs text-ink-600 hover:bg-parchment-100" title="从 JSON 导入">
+                <PaperclipIcon className="w-3.5 h-3.5" /> 导入
+              </button>
+              <button onClick={handleExport} className="flex items-center justify-center gap-1 px-2 py-1.5 rounded-lg text-xs text-ink-600 hover:bg-parchment-100" title="导出为 JSON">
+                <DownloadIcon className="w-3.5 h-3.5" /> 导出
+              </button>
+              <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+            </div>
+          </div>
+
+          {/* Mode Editor */}
+          {selected && (
+            <div className="flex-1 overflow-y-auto space-y-3 p-4 bg-parchment-100/50 rounded-2xl border border-parchment-200">
+              <div className="flex gap-3">
+                <div className="flex-1">
+                  <label className="block text-xs font-bold text-ink-700 mb-1">名称</label>
+                  <input
+                    type="text"
+                    value={selected.label}
+                    onChange={(e) => updateSelected({ label: e.target.value })}
+                    className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 text-sm focus:outline-none focus:border-bronze-500 transition-all"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-ink-700 mb-1">图标</label>
+                  <div className="flex gap-1">
+                    {MODE_ICON_IDS.map(iconId => {
+                      const Icon = MODE_ICONS[iconId];
+                      return (
+                        <button
+                          key={iconId}
+                          onClick={() => updateSelected({ icon: iconId })}
+                          className={`p-2 rounded-lg border transition-colors ${selected.icon === iconId ? 'bg-bronze-600 text-white border-bronze-700' : 'bg-white text-ink-500 border-parchment-200 hover:text-bronze-600'}`}
+                        >
+                          <Icon className="w-4 h-4" />
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex gap-3">
+                <div className="flex-1">
+                  <div className="flex justify-between mb-1">
+                    <label className="text-xs font-bold text-ink-700">默认 Temperature</label>
+                    <span className="text-xs font-mono font-bold text-bronze-700">{selected.temperature}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1.5"
+                    step="0.1"
+                    value={selected.temperature}
+                    onChange={(e) => updateSelected({ temperature: parseFloat(e.target.value) })}
+                    className="w-full h-2 bg-parchment-300 rounded-lg appearance-none cursor-pointer accent-bronze-600"
+                  />
+                </div>
+                <div className="flex-1">
+                  <label className="block text-xs font-bold text-ink-700 mb-1">首选模型 (可选)</label>
+                  <input
+                    type="text"
+                    value={selected.preferredModelId || ''}
+                    onChange={(e) => updateSelected({ preferredModelId: e.target.value })}
+                    placeholder="沿用当前模型"
+                    className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 font-mono text-sm focus:outline-none focus:border-bronze-500 transition-all placeholder:text-ink-300"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs font-bold text-ink-700 mb-1">系统提示词</label>
+                <textarea
+                  value={selected.systemPrompt}
+                  onChange={(e) => updateSelected({ systemPrompt: e.target.value })}
+                  className="w-full h-64 bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 text-sm resize-none focus:outline-none focus:border-bronze-500 transition-all"
+                />
+              </div>
+
+              <div className="flex justify-between items-center">
+                <span className="text-[10px] text-ink-400 font-mono">ID: {selected.id}</span>
+                {selected.builtIn ? (
+                  <button onClick={resetSelected} className="text-xs text-bronze-600 hover:text-bronze-800 underline flex items-center gap-1">
+                    <RefreshIcon className="w-3 h-3" /> 恢复内置设定
+                  </button>
+                ) : (
+                  <button onClick={deleteSelected} className="text-xs text-red-600 hover:text-red-800 flex items-center gap-1">
+                    <TrashIcon className="w-3 h-3" /> 删除模式
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-4 pt-4">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 rounded-xl border border-parchment-300 text-ink-700 font-bold hover:bg-parchment-100 transition-colors"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex-1 py-3 rounded-xl bg-bronze-600 text-white font-bold hover:bg-bronze-500 shadow-lg shadow-bronze-600/20 transition-colors"
+          >
+            保存模式
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModeManager;
@@ -0,0 +1,163 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ProviderConfig } from '../services/providers';
+import {
+  ModelCatalog, CatalogModel, loadModelCatalog, isCatalogStale, fetchModelCatalog,
+  loadFavoriteModels, toggleFavoriteModel, searchCatalog, validateModelId
+} from '../services/modelCatalog';
+import { StarIcon, SearchIcon, RefreshIcon, BrainIcon } from './Icons';
+
+interface ModelPickerProps {
+  provider: ProviderConfig;
+  apiKey: string;
+  canFetch: boolean; // False until the provider has the credentials it needs
+  value: string;
+  onChange: (modelId: string) => void;
+}
+
+const MAX_VISIBLE_MODELS = 100;
+
+const formatContextLength = (tokens?: number) => {
+  if (!tokens) return '—';
+  return tokens >= 1000000 ? `${+(tokens / 1048576).toFixed(1)}M` : `${Math.round(tokens / 1024)}K`;
+};
+
+const formatPricePerMillion = (pricing: CatalogModel['pricing']) => {
+  if (!pricing) return '';
+  if (pricing.prompt === 0 && pricing.completion === 0) return '免费';
+  return `$${+(pricing.prompt * 1e6).toFixed(2)} / $${+(pricing.completion * 1e6).toFixed(2)}`;
+};
+
+const ModelPicker: React.FC<ModelPickerProps> = ({ provider, apiKey, canFetch, value, onChange }) => {
+  const [catalog, setCatalog] = useState<ModelCatalog | undefined>(() => loadModelCatalog(provider.id));
+  const [favorites, setFavorites] = useState<string[]>(() => loadFavoriteModels(provider.id));
+  const [query, setQuery] = useState('');
+  const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
+  const [isFetching, setIsFetching] = useState(false);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+
+  const refresh = () => {
+    if (!canFetch) return;
+    setIsFetching(true);
+    setFetchError(null);
+    fetchModelCatalog(provider, apiKey)
+      .then(setCatalog)
+      .catch(err => setFetchError(err.message || '模型列表加载失败'))
+      .finally(() => setIsFetching(false));
+  };
+
+  // Show the cached list right away; refresh it in the background once a day
+  useEffect(() => {
+    setCatalog(loadModelCatalog(provider.id));
+    setFavorites(loadFavoriteModels(provider.id));
+    setFetchError(null);
+    if (isCatalogStale(provider.id)) refresh();
+  }, [provider.id, canFetch]);
+
+  const visibleModels = useMemo(() => {
+    const models = catalog?.models || [];
+    const matched = searchCatalog(showFavoritesOnly ? models.filter(m => favorites.includes(m.id)) : models, query);
+    // Favorites float to the top
+    return [...matched].sort((a, b) => Number(favorites.includes(b.id)) - Number(favorites.includes(a.id)));
+  }, [catalog, favorites, query, showFavoritesOnly]);
+
+  const warning = catalog ? validateModelId(provider.id, value) : null;
+
+  return (
+    <div className="space-y-2">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={provider.defaultModelId}
+        className={`w-full bg-parchment-50 border rounded-lg px-3 py-2 text-ink-900 font-mono text-sm focus:outline-none focus:border-bronze-500 transition-all ${warning ? 'border-amber-400' : 'border-parchment-300'}`}
+      />
+      {warning && <p className="text-[10px] text-amber-700">{warning}</p>}
+
+      <div className="border border-parchment-300 rounded-lg bg-parchment-50 overflow-hidden">
+        <div className="flex items-center gap-2 px-2 py-1.5 border-b border-parchment-200">
+          <SearchIcon className="w-3.5 h-3.5 text-ink-400 flex-shrink-0" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={catalog ? `搜索 ${catalog.models.length} 个模型...` : '模型列表未加载'}
+            className="flex-1 bg-transparent text-xs text-ink-900 focus:outline-none placeholder:text-ink-300"
+          />
+          <button
+            onClick={() => setShowFavoritesOnly(prev => !prev)}
+            className={`p-1 rounded transition-colors ${showFavoritesOnly ? 'text-bronze-600' : 'text-ink-300 hover:text-bronze-600'}`}
+            title="仅显示收藏"
+          >
+            <StarIcon className="w-3.5 h-3.5" filled={showFavoritesOnly} />
+          </button>
+          <button
+            onClick={refresh}
+            disabled={isFetching || !canFetch}
+            className="p-1 rounded text-ink-300 hover:text-bronze-600 disabled:opacity-40 transition-colors"
+            title={catalog ? `刷新模型列表 (上次: ${new Date(catalog.fetchedAt).toLocaleString('zh-CN')})` : '加载模型列表'}
+          >
+            <RefreshIcon className={`w-3.5 h-3.5 ${isFetching ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+
+        <div className="max-h-56 overflow-y-auto">
+          {visibleModels.slice(0, MAX_VISIBLE_MODELS).map(model => {
+            const isFavorite = favorites.includes(model.id);
+            const isSelected = model.id === value.trim();
+            return (
+              <div
+                key={model.id}
+                onClick={() => onChange(model.id)}
+                className={`flex items-center gap-2 px-2 py-1.5 cursor-pointer text-xs border-b border-parchment-100 last:border-b-0 transition-colors ${isSelected ? 'bg-bronze-50' : 'hover:bg-parchment-100'}`}
+              >
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setFavorites(toggleFavoriteModel(provider.id, model.id));
+                  }}
+                  className={`flex-shrink-0 ${isFavorite ? 'text-bronze-600' : 'text-ink-300 hover:text-bronze-600'}`}
+                  title={isFavorite ? '取消收藏' : '收藏'}
+                >
+                  <StarIcon className="w-3 h-3" filled={isFavorite} />
+                </button>
+                <div className="flex-1 min-w-0">
+                  <div className={`font-mono truncate ${isSelected ? 'text-bronze-700 font-bold' : 'text-ink-900'}`}>{model.id}</div>
+                  {model.name && <div className="text-[10px] text-ink-400 truncate">{model.name}</div>}
+                </div>
+                {model.reasoning && (
+                  <span title="输出思考过程"><BrainIcon className="w-3 h-3 text-bronze-500 flex-shrink-0" /></span>
+                )}
+                <span className="text-[10px] font-mono text-ink-500 w-12 text-right flex-shrink-0" title="上下文长度">
+                  {formatContextLength(model.contextLength)}
+                </span>
+                {model.pricing && (
+                  <span className="text-[10px] font-mono text-ink-400 w-24 text-right flex-shrink-0" title="输入 / 输出价格 ($/百万 tokens)">
+                    {formatPricePerMillion(model.pricing)}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+          {visibleModels.length > MAX_VISIBLE_MODELS && (
+            <div className="px-2 py-1.5 text-[10px] text-ink-400 text-center">
+              还有 {visibleModels.length - MAX_VISIBLE_MODELS} 个模型，请输入关键词缩小范围
+            </div>
+          )}
+          {catalog && visibleModels.length === 0 && (
+            <div className="px-2 py-3 text-[10px] text-ink-400 text-center">没有匹配的模型</div>
+          )}
+          {!catalog && (
+            <div className="px-2 py-3 text-[10px] text-ink-400 text-center">
+              {isFetching ? '正在加载模型列表...' : canFetch ? '点击右上角刷新加载模型列表' : '填写 API Key 后可加载模型列表'}
+            </div>
+          )}
+        </div>
+      </div>
+      {fetchError && (
+        <p className="text-[10px] text-red-600">{fetchError}{catalog ? '，显示的是缓存列表。' : ''}</p>
+      )}
+    </div>
+  );
+};
+
+export default ModelPicker;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { ModelPricing, formatCost } from '../services/pricing';
+import {
+  SamplingConfig, SAMPLE_COUNT_OPTIONS, CONCURRENCY_OPTIONS, estimateSamplingCost
+} from '../services/selfConsistency';
+import { VoteIcon } from './Icons';
+
+interface SamplingSetupDialogProps {
+  config: SamplingConfig;
+  isEnabled: boolean;
+  modelId: string;
+  temperature: number;
+  promptTokens: number; // System prompt + active history, before the new prompt
+  expectedCompletionTokens: number;
+  maxCompletionTokens: number;
+  pricing?: ModelPricing;
+  onSave: (config: SamplingConfig, enabled: boolean) => void;
+  onClose: () => void;
+}
+
+const SamplingSetupDialog: React.FC<SamplingSetupDialogProps> = ({
+  config, isEnabled, modelId, temperature, promptTokens, expectedCompletionTokens, maxCompletionTokens, pricing, onSave, onClose
+}) => {
+  const [draft, setDraft] = useState<SamplingConfig>(config);
+  const estimate = estimateSamplingCost(draft.samples, promptTokens, expectedCompletionTokens, maxCompletionTokens, pricing);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-ink-900/30 backdrop-blur-sm p-4 animate-fadeIn">
+      <div className="bg-white border border-parchment-200 rounded-3xl p-6 w-full max-w-lg shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center gap-3 mb-2">
+          <VoteIcon className="w-6 h-6 text-bronze-600" />
+          <h3 className="text-xl font-bold text-ink-900 font-serif">多次采样投票</h3>
+        </div>
+        <p className="text-sm text-ink-500 mb-5">
+          开启后，数学 / 逻辑模式下的每次发送会以当前温度 ({temperature}) 对同一问题采样多次，提取各次的最终答案 (优先 \boxed{'{}'}，其次「答案：」行或最后一行) 并投票，得票最多的答案置顶展示。
+        </p>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs font-bold text-ink-700 mb-1">采样次数 (N)</label>
+            <select
+              value={draft.samples}
+              onChange={(e) => setDraft(prev => ({ ...prev, samples: Number(e.target.value) }))}
+              className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 text-sm focus:outline-none focus:border-bronze-500 transition-all"
+            >
+              {SAMPLE_COUNT_OPTIONS.map(n => <option key={n} value={n}>{n} 次</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-ink-700 mb-1">并发上限</label>
+            <select
+              value={draft.concurrency}
+              onChange={(e) => setDraft(prev => ({ ...prev, concurrency: Number(e.target.value) }))}
+              className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 text-sm focus:outline-none focus:border-bronze-500 transition-all"
+            >
+              {CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>同时 {n} 个请求</option>)}
+            </select>
+          </div>
+        </div>
+
+        <div className="mt-4 p-3 rounded-xl bg-parchment-100/60 border border-parchment-200 text-xs text-ink-700 space-y-1">
+          <div className="font-mono truncate" title={modelId}>模型：{modelId}</div>
+          <div>每次请求约 {promptTokens.toLocaleString()} 输入 token + 新提示词，预计输出约 {expectedCompletionTokens.toLocaleString()} token</div>
+          <div className="font-bold text-ink-900">
+            {estimate
+              ? `预计总花费 ${formatCost(estimate.expected)}，最多 ${formatCost(estimate.max)}`
+              : '当前模型缺少价格信息，无法预估花费'}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3 mt-6">
+          {isEnabled && (
+            <button
+              onClick={() => onSave(draft, false)}
+              className="px-4 py-2.5 rounded-xl text-sm text-red-600 hover:bg-red-50 transition-colors"
+            >
+              关闭采样
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="ml-auto px-5 py-2.5 rounded-xl text-sm text-ink-500 hover:bg-parchment-100 transition-colors"
+          >
+            取消
+          </button>
+          <button
+            onClick={() => onSave(draft, true)}
+            className="px-5 py-2.5 rounded-xl text-sm bg-bronze-600 text-white font-bold hover:bg-bronze-500 transition-colors"
+          >
+            {isEnabled ? '保存' : '开启采样'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SamplingSetupDialog;
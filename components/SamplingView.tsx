@@ -0,0 +1,194 @@
+import React, { useState, useMemo } from 'react';
+import { SampleResult, SamplingRun, VoteBucket, tallyVotes } from '../services/selfConsistency';
+import { formatCost } from '../services/pricing';
+import MarkdownContent from './MarkdownContent';
+import MathFormula from './MathFormula';
+import { BrainIcon, StopIcon, VoteIcon, XIcon } from './Icons';
+
+interface SamplingViewProps {
+  run: SamplingRun;
+  onStop: () => void;
+  onPromote: (index: number) => void;
+  onClose: () => void;
+}
+
+const SAMPLE_STATUS_LABELS: Record<SampleResult['status'], string> = {
+  queued: '排队中',
+  streaming: '生成中',
+  done: '完成',
+  error: '失败'
+};
+
+// Extracted answers are usually LaTeX; plain words are shown as they are
+const AnswerText: React.FC<{ answer: string }> = ({ answer }) =>
+  /[\\^_{}]/.test(answer) ? <MathFormula source={answer} /> : <span className="break-words">{answer}</span>;
+
+const SampleDetail: React.FC<{ sample: SampleResult; index: number; onPromote: () => void }> = ({ sample, index, onPromote }) => {
+  const [isReasoningOpen, setIsReasoningOpen] = useState(false);
+
+  return (
+    <div className="rounded-xl border border-parchment-200 bg-white p-4 text-sm">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mb-3 text-[10px] font-mono text-ink-500">
+        <span className="text-xs font-bold text-ink-900 font-sans">采样 #{index + 1}</span>
+        {sample.thinkingTime !== undefined && <span>{(sample.thinkingTime / 1000).toFixed(2)}s</span>}
+        {sample.usage && <span>{sample.usage.total_tokens} T</span>}
+        {sample.cost !== undefined && <span>{formatCost(sample.cost)}</span>}
+        {sample.finishReason === 'length' && <span className="text-amber-700">已截断</span>}
+        <span className="ml-auto">
+          {sample.promotedMessageId ? (
+            <span className="text-xs font-bold text-emerald-700 font-sans">已采用到对话</span>
+          ) : (
+            <button
+              onClick={onPromote}
+              disabled={sample.status !== 'done' || !sample.text}
+              className="px-2.5 py-1 rounded-lg text-xs font-bold font-sans border border-bronze-200 bg-bronze-50 text-bronze-700 hover:bg-bronze-100 transition-colors disabled:opacity-40"
+            >
+              采用此回答
+            </button>
+          )}
+        </span>
+      </div>
+      {sample.reasoning && (
+        <div className="mb-3">
+          <button
+            onClick={() => setIsReasoningOpen(prev => !prev)}
+            className="flex items-center gap-1.5 text-xs text-bronze-700 bg-bronze-50 border border-bronze-200 rounded-lg px-2 py-1"
+          >
+            <BrainIcon className="w-3.5 h-3.5" /> 思维链 {isReasoningOpen ? '收起 -' : '展开 +'}
+          </button>
+          {isReasoningOpen && (
+            <div className="mt-2 p-3 rounded-lg bg-parchment-100 text-ink-700 whitespace-pre-wrap text-xs leading-relaxed max-h-64 overflow-y-auto scrollbar-thin">
+              {sample.reasoning}
+            </div>
+          )}
+        </div>
+      )}
+      {sample.text ? (
+        <div className="markdown-body prose prose-sm max-w-none prose-code:text-bronze-800 prose-code:before:content-none prose-code:after:content-none">
+          <MarkdownContent content={sample.text} isStreaming={sample.status === 'streaming'} />
+        </div>
+      ) : (
+        <p className="text-xs text-ink-400 italic">{sample.status === 'streaming' ? '正在推理...' : SAMPLE_STATUS_LABELS[sample.status]}</p>
+      )}
+      {sample.error && (
+        <div className="mt-3 text-xs text-red-600 bg-red-50 border border-red-200 rounded-lg px-3 py-2 break-words">{sample.error}</div>
+      )}
+    </div>
+  );
+};
+
+// Vote tally for a sampling run, shown under the prompt; the majority answer leads
+const SamplingView: React.FC<SamplingViewProps> = ({ run, onStop, onPromote, onClose }) => {
+  const tally = useMemo(() => tallyVotes(run.samples), [run.samples]);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const finished = run.samples.filter(s => s.status === 'done' || s.status === 'error').length;
+  const isRunning = finished < run.samples.length;
+  const totalCost = run.samples.reduce((sum, s) => sum + (s.cost || 0), 0);
+  const majority: VoteBucket | undefined = tally.buckets[0];
+  const unanswered = run.samples.filter(s => s.status === 'done' && !s.answer).length;
+
+  const bucketOf = (index: number) => tally.buckets.findIndex(bucket => bucket.sampleIndexes.includes(index));
+
+  return (
+    <div className="mb-8 p-4 rounded-2xl border border-parchment-200 bg-parchment-100/60 animate-fadeIn">
+      <div className="flex items-center gap-2 mb-3 text-sm text-ink-500">
+        <VoteIcon className="w-4 h-4 text-bronze-600" />
+        <span className="font-bold text-ink-900">多次采样投票</span>
+        <span className="text-xs font-mono truncate">
+          {run.modelId} · 完成 {finished}/{run.samples.length} · 并发 {run.concurrency}
+          {totalCost > 0 && ` · ${formatCost(totalCost)}`}
+        </span>
+        {isRunning ? (
+          <button
+            onClick={onStop}
+            className="ml-auto flex items-center gap-1 px-2 py-1 rounded-lg text-xs text-red-600 hover:bg-red-50 transition-colors"
+          >
+            <StopIcon className="w-3 h-3" /> 全部停止
+          </button>
+        ) : (
+          <button
+            onClick={onClose}
+            className="ml-auto p-1 text-ink-400 hover:text-ink-900 rounded hover:bg-parchment-200 transition-colors"
+            title="关闭采样结果"
+          >
+            <XIcon className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {majority ? (
+        <div className="mb-3 p-4 rounded-xl bg-white border-2 border-bronze-300">
+          <div className="flex items-center gap-2 mb-2 text-xs">
+            <span className="font-bold text-bronze-700">多数答案</span>
+            <span className={`px-1.5 py-0.5 rounded font-bold ${tally.agreement >= 0.5 ? 'bg-emerald-50 text-emerald-700' : 'bg-amber-50 text-amber-700'}`}>
+              一致率 {Math.round(tally.agreement * 100)}% ({majority.sampleIndexes.length}/{tally.voted})
+            </span>
+            {isRunning && <span className="text-ink-400">投票进行中</span>}
+            <button
+              onClick={() => onPromote(majority.sampleIndexes[0])}
+              disabled={majority.sampleIndexes.some(i => run.samples[i].promotedMessageId)}
+              className="ml-auto px-3 py-1.5 rounded-lg bg-bronze-600 text-white font-bold hover:bg-bronze-500 transition-colors disabled:opacity-50"
+            >
+              采用多数答案
+            </button>
+          </div>
+          <div className="text-lg text-ink-900"><AnswerText answer={majority.answer} /></div>
+        </div>
+      ) : (
+        <p className="mb-3 text-xs text-ink-400">{isRunning ? '等待第一个完成的采样...' : '没有提取到可投票的答案，请逐个查看采样。'}</p>
+      )}
+
+      {tally.buckets.length > 0 && (
+        <div className="mb-3 space-y-1.5">
+          {tally.buckets.map((bucket, i) => (
+            <div key={bucket.key} className="flex items-center gap-3 text-xs">
+              <div className="w-40 shrink-0 truncate text-ink-700" title={bucket.answer}><AnswerText answer={bucket.answer} /></div>
+              <div className="flex-1 h-2 rounded-full bg-parchment-200 overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${i === 0 ? 'bg-bronze-500' : 'bg-ink-300'}`}
+                  style={{ width: `${(bucket.sampleIndexes.length / run.samples.length) * 100}%` }}
+                />
+              </div>
+              <span className="shrink-0 max-w-[10rem] truncate text-right font-mono text-ink-500">
+                {bucket.sampleIndexes.length} 票 · {bucket.sampleIndexes.map(index => `#${index + 1}`).join(' ')}
+              </span>
+            </div>
+          ))}
+          {unanswered > 0 && <p className="text-[10px] text-ink-400">{unanswered} 个采样未能提取最终答案，不计票。</p>}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-1.5 mb-3">
+        {run.samples.map((sample, index) => {
+          const bucket = bucketOf(index);
+          return (
+            <button
+              key={index}
+              onClick={() => setSelectedIndex(prev => prev === index ? null : index)}
+              className={`px-2 py-1 rounded-lg border text-xs font-mono transition-colors ${
+                selectedIndex === index
+                  ? 'bg-ink-900 text-white border-ink-900'
+                  : bucket === 0
+                    ? 'bg-bronze-50 text-bronze-700 border-bronze-200 hover:bg-bronze-100'
+                    : 'bg-white text-ink-500 border-parchment-200 hover:bg-parchment-100'
+              } ${sample.status === 'streaming' ? 'animate-pulse' : ''}`}
+              title={sample.answer || SAMPLE_STATUS_LABELS[sample.status]}
+            >
+              #{index + 1} {sample.status === 'done' ? (sample.answer ? '✓' : '?') : sample.status === 'error' ? '✗' : '…'}
+            </button>
+          );
+        })}
+      </div>
+
+      {selectedIndex !== null && run.samples[selectedIndex] && (
+        <SampleDetail
+          sample={run.samples[selectedIndex]}
+          index={selectedIndex}
+          onPromote={() => onPromote(selectedIndex)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SamplingView;
@@ -0,0 +1,156 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Conversation, Role } from '../types';
+import { ModeDefinition } from '../services/modeRegistry';
+import { SearchHit, buildSearchIndex, searchConversations } from '../services/searchIndex';
+import { SearchIcon, XIcon } from './Icons';
+
+interface SearchDialogProps {
+  conversations: Conversation[];
+  modes: ModeDefinition[];
+  onJump: (conversationId: string, messageId: string) => void;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  [`${Role.USER}:text`]: '提问',
+  [`${Role.MODEL}:text`]: '回答',
+  [`${Role.MODEL}:reasoning`]: '思考过程'
+};
+
+// `<input type="date">` values are local calendar days
+const parseDay = (value: string): number | undefined =>
+  value ? new Date(`${value}T00:00:00`).getTime() : undefined;
+
+const HighlightedSnippet: React.FC<{ hit: SearchHit }> = ({ hit }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  hit.highlights.forEach(([start, end], i) => {
+    if (start > cursor) parts.push(hit.snippet.slice(cursor, start));
+    parts.push(<mark key={i} className="bg-bronze-100 text-bronze-800 rounded px-0.5">{hit.snippet.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(hit.snippet.slice(cursor));
+  return <p className="text-sm text-ink-700 leading-relaxed break-words">{parts}</p>;
+};
+
+const SearchDialog: React.FC<SearchDialogProps> = ({ conversations, modes, onJump, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [modeFilter, setModeFilter] = useState('');
+  const [modelFilter, setModelFilter] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const index = useMemo(() => buildSearchIndex(conversations), [conversations]);
+  const modelIds = useMemo(
+    () => [...new Set(index.documents.map(doc => doc.modelId))].sort(),
+    [index]
+  );
+
+  const hits = useMemo(() => {
+    const to = parseDay(toDate);
+    return searchConversations(index, query, {
+      mode: modeFilter || undefined,
+      modelId: modelFilter || undefined,
+      from: parseDay(fromDate),
+      to: to === undefined ? undefined : to + 24 * 60 * 60 * 1000
+    });
+  }, [index, query, modeFilter, modelFilter, fromDate, toDate]);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [hits]);
+
+  useEffect(() => {
+    listRef.current?.children[selectedIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'ArrowDown' && hits.length > 0) {
+      e.preventDefault();
+      setSelectedIndex(prev => (prev + 1) % hits.length);
+    } else if (e.key === 'ArrowUp' && hits.length > 0) {
+      e.preventDefault();
+      setSelectedIndex(prev => (prev - 1 + hits.length) % hits.length);
+    } else if (e.key === 'Enter' && hits[selectedIndex]) {
+      e.preventDefault();
+      onJump(hits[selectedIndex].conversationId, hits[selectedIndex].messageId);
+    }
+  };
+
+  const filterClass = "bg-parchment-50 border border-parchment-300 rounded-lg px-2 py-1.5 text-ink-700 text-xs focus:outline-none focus:border-bronze-500 transition-all";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-ink-900/30 backdrop-blur-sm p-4 pt-[10vh] animate-fadeIn" onClick={onClose}>
+      <div
+        className="bg-white border border-parchment-200 rounded-3xl w-full max-w-2xl shadow-2xl max-h-[80vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center gap-3 px-5 py-4 border-b border-parchment-200">
+          <SearchIcon className="w-5 h-5 text-ink-400 shrink-0" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="搜索所有会话的提问、回答与思考过程..."
+            className="flex-1 bg-transparent text-ink-900 placeholder-ink-400 focus:outline-none"
+            autoFocus
+          />
+          <button onClick={onClose} className="p-1.5 text-ink-400 hover:text-ink-900 rounded-lg hover:bg-parchment-100 transition-colors">
+            <XIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 px-5 py-2 border-b border-parchment-200 bg-parchment-50/60">
+          <select value={modeFilter} onChange={(e) => setModeFilter(e.target.value)} className={filterClass}>
+            <option value="">全部模式</option>
+            {modes.map(mode => <option key={mode.id} value={mode.id}>{mode.label}</option>)}
+          </select>
+          <select value={modelFilter} onChange={(e) => setModelFilter(e.target.value)} className={`${filterClass} max-w-[12rem]`}>
+            <option value="">全部模型</option>
+            {modelIds.map(id => <option key={id} value={id}>{id}</option>)}
+          </select>
+          <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className={filterClass} title="起始日期" />
+          <span className="text-xs text-ink-400">至</span>
+          <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className={filterClass} title="结束日期" />
+        </div>
+
+        <div ref={listRef} className="flex-1 overflow-y-auto p-2">
+          {hits.map((hit, i) => (
+            <button
+              key={`${hit.messageId}:${hit.field}`}
+              onClick={() => onJump(hit.conversationId, hit.messageId)}
+              onMouseEnter={() => setSelectedIndex(i)}
+              className={`w-full text-left px-3 py-2.5 rounded-xl transition-colors ${i === selectedIndex ? 'bg-parchment-100' : ''}`}
+            >
+              <div className="flex items-center gap-2 mb-1">
+                <span className="text-sm font-bold text-ink-900 truncate">{hit.conversationTitle}</span>
+                <span className={`text-[10px] px-1.5 py-0.5 rounded shrink-0 ${hit.field === 'reasoning' ? 'bg-bronze-50 text-bronze-700' : 'bg-parchment-200 text-ink-500'}`}>
+                  {FIELD_LABELS[`${hit.role}:${hit.field}`]}
+                </span>
+                <span className="ml-auto text-[10px] text-ink-400 font-mono shrink-0">
+                  {modes.find(m => m.id === hit.mode)?.label || hit.mode} · {new Date(hit.timestamp).toLocaleDateString('zh-CN')}
+                </span>
+              </div>
+              <HighlightedSnippet hit={hit} />
+            </button>
+          ))}
+          {query.trim() && hits.length === 0 && (
+            <p className="text-sm text-ink-400 text-center py-8">没有找到匹配的消息</p>
+          )}
+          {!query.trim() && (
+            <p className="text-xs text-ink-400 text-center py-8">
+              多个关键词用空格分隔，需同时出现 · ↑↓ 选择，Enter 跳转
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SearchDialog;
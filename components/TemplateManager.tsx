@@ -0,0 +1,210 @@
+import React, { useState, useRef } from 'react';
+import { ReasoningMode } from '../types';
+import { ModeDefinition } from '../services/modeRegistry';
+import {
+  PromptTemplate, createTemplate, exportTemplates, importTemplates, extractVariables
+} from '../services/promptTemplates';
+import { PlusIcon, TrashIcon, DownloadIcon, PaperclipIcon, XIcon } from './Icons';
+
+interface TemplateManagerProps {
+  templates: PromptTemplate[];
+  modes: ModeDefinition[];
+  currentMode: ReasoningMode;
+  onSave: (templates: PromptTemplate[]) => void;
+  onClose: () => void;
+}
+
+const TemplateManager: React.FC<TemplateManagerProps> = ({ templates, modes, currentMode, onSave, onClose }) => {
+  const [draft, setDraft] = useState<PromptTemplate[]>(templates);
+  const [selectedId, setSelectedId] = useState<string | undefined>(templates[0]?.id);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = draft.find(t => t.id === selectedId) || draft[0];
+
+  const updateSelected = (patch: Partial<PromptTemplate>) => {
+    setDraft(prev => prev.map(t => t.id === selected.id ? { ...t, ...patch } : t));
+  };
+
+  const toggleMode = (modeId: ReasoningMode) => {
+    updateSelected({
+      modes: selected.modes.includes(modeId)
+        ? selected.modes.filter(id => id !== modeId)
+        : [...selected.modes, modeId]
+    });
+  };
+
+  const addTemplate = () => {
+    const template = createTemplate(currentMode);
+    setDraft(prev => [...prev, template]);
+    setSelectedId(template.id);
+  };
+
+  const deleteSelected = () => {
+    if (!window.confirm(`确认删除模板「${selected.name}」?`)) return;
+    const remaining = draft.filter(t => t.id !== selected.id);
+    setDraft(remaining);
+    setSelectedId(remaining[0]?.id);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportTemplates(draft)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `deepseek-speciale-templates-${new Date().toISOString().slice(0, 10)}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const next = importTemplates(draft, await file.text());
+      setDraft(next);
+      setSelectedId(next[next.length - 1].id);
+    } catch (error: any) {
+      alert(error.message);
+    }
+  };
+
+  const handleSave = () => {
+    const commands = draft.map(t => t.command.trim()).filter(Boolean);
+    if (new Set(commands).size !== commands.length) {
+      alert("命令名称不能重复。");
+      return;
+    }
+    onSave(draft.map(t => ({ ...t, name: t.name.trim() || '未命名模板', command: t.command.trim().replace(/^\/+/, '') })));
+  };
+
+  const modeLabel = (id: ReasoningMode) => modes.find(m => m.id === id)?.label || id;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-ink-900/30 backdrop-blur-sm p-4 animate-fadeIn">
+      <div className="bg-white border border-parchment-200 rounded-3xl p-6 w-full max-w-3xl shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-2xl font-bold text-ink-900 font-serif">提示词模板</h3>
+          <button onClick={onClose} className="p-2 text-ink-400 hover:text-ink-900 rounded-lg hover:bg-parchment-100 transition-colors">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 gap-4 min-h-0">
+          {/* Template List */}
+          <div className="w-52 flex-shrink-0 flex flex-col gap-2">
+            <div className="flex-1 overflow-y-auto space-y-1">
+              {draft.map(t => (
+                <button
+                  key={t.id}
+                  onClick={() => setSelectedId(t.id)}
+                  className={`w-full flex flex-col px-3 py-2 rounded-lg text-left transition-colors ${t.id === selected?.id ? 'bg-bronze-50' : 'hover:bg-parchment-100'}`}
+                >
+                  <span className={`text-sm truncate ${t.id === selected?.id ? 'text-bronze-700 font-bold' : 'text-ink-700'}`}>{t.name}</span>
+                  <span className="text-[10px] font-mono text-ink-400 truncate">
+                    /{t.command || '—'} · {t.modes.length === 0 ? '全部模式' : t.modes.map(modeLabel).join('、')}
+                  </span>
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-1 pt-2 border-t border-parchment-200">
+              <button onClick={addTemplate} className="flex items-center justify-center gap-1 px-2 py-1.5 rounded-lg text-xs text-ink-600 hover:bg-parchment-100" title="新建模板">
+                <PlusIcon className="w-3.5 h-3.5" /> 新建
+              </button>
+              <button onClick={() => importInputRef.current?.click()} className="flex items-center justify-center gap-1 px-2 py-1.5 rounded-lg text-xs text-ink-600 hover:bg-parchment-100" title="从 JSON 导入">
+                <PaperclipIcon className="w-3.5 h-3.5" /> 导入
+              </button>
+              <button onClick={handleExport} className="flex items-center justify-center gap-1 px-2 py-1.5 rounded-lg text-xs text-ink-600 hover:bg-parchment-100" title="导出为 JSON">
+                <DownloadIcon className="w-3.5 h-3.5" /> 导出
+              </button>
+              <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+            </div>
+          </div>
+
+          {/* Template Editor */}
+          {selected ? (
+            <div className="flex-1 overflow-y-auto space-y-3 p-4 bg-parchment-100/50 rounded-2xl border border-parchment-200">
+              <div className="flex gap-3">
+                <div className="flex-1">
+                  <label className="block text-xs font-bold text-ink-700 mb-1">名称</label>
+                  <input
+                    type="text"
+                    value={selected.name}
+                    onChange={(e) => updateSelected({ name: e.target.value })}
+                    className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 text-sm focus:outline-none focus:border-bronze-500 transition-all"
+                  />
+                </div>
+                <div className="w-36">
+                  <label className="block text-xs font-bold text-ink-700 mb-1">命令</label>
+                  <div className="flex items-center bg-parchment-50 border border-parchment-300 rounded-lg px-3 focus-within:border-bronze-500 transition-all">
+                    <span className="text-ink-400 font-mono text-sm">/</span>
+                    <input
+                      type="text"
+                      value={selected.command}
+                      onChange={(e) => updateSelected({ command: e.target.value.replace(/\s/g, '') })}
+                      className="w-full bg-transparent py-2 text-ink-900 font-mono text-sm focus:outline-none"
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs font-bold text-ink-700 mb-1">适用模式 (都不选则全部可用)</label>
+                <div className="flex flex-wrap gap-1.5">
+                  {modes.map(mode => (
+                    <button
+                      key={mode.id}
+                      onClick={() => toggleMode(mode.id)}
+                      className={`px-3 py-1 rounded-full text-xs border transition-colors ${selected.modes.includes(mode.id) ? 'bg-bronze-600 text-white border-bronze-700' : 'bg-white text-ink-500 border-parchment-200 hover:text-ink-900'}`}
+                    >
+                      {mode.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs font-bold text-ink-700 mb-1">模板内容 (用 {'{{变量名}}'} 标记需要填写的部分)</label>
+                <textarea
+                  value={selected.body}
+                  onChange={(e) => updateSelected({ body: e.target.value })}
+                  className="w-full h-56 bg-parchment-50 border border-parchment-300 rounded-lg px-3 py-2 text-ink-900 text-sm font-mono resize-none focus:outline-none focus:border-bronze-500 transition-all"
+                />
+                <p className="text-[10px] text-ink-400 mt-1">
+                  变量：{extractVariables(selected.body).join('、') || '无'}
+                </p>
+              </div>
+
+              <div className="flex justify-end">
+                <button onClick={deleteSelected} className="text-xs text-red-600 hover:text-red-800 flex items-center gap-1">
+                  <TrashIcon className="w-3 h-3" /> 删除模板
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-sm text-ink-400">暂无模板</div>
+          )}
+        </div>
+
+        <div className="flex gap-4 pt-4">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 rounded-xl border border-parchment-300 text-ink-700 font-bold hover:bg-parchment-100 transition-colors"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex-1 py-3 rounded-xl bg-bronze-600 text-white font-bold hover:bg-bronze-500 shadow-lg shadow-bronze-600/20 transition-colors"
+          >
+            保存模板
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateManager;
@@ -0,0 +1,177 @@
+import React, { useState, useMemo } from 'react';
+import { TestCase } from '../types';
+import { RUN_TIMEOUT_OPTIONS, DEFAULT_RUN_TIMEOUT_MS } from '../services/codeRunner';
+import {
+  TestCaseResult, buildFailureReport, createTestCase, extractSolution, getVerdict, runTestCases
+} from '../services/testHarness';
+import { PlayIcon, PlusIcon, SendIcon, TrashIcon, XIcon } from './Icons';
+
+interface TestHarnessPanelProps {
+  answer: string;
+  testCases: TestCase[];
+  isLoading?: boolean;
+  onChange: (testCases: TestCase[]) => void;
+  onSendFailures: (prompt: string) => void;
+  onClose: () => void;
+}
+
+const DIFF_STYLES = {
+  same: 'text-ink-500',
+  expected: 'bg-red-50 text-red-700',
+  actual: 'bg-emerald-50 text-emerald-700'
+};
+const DIFF_MARKERS = { same: ' ', expected: '-', actual: '+' };
+
+const TestHarnessPanel: React.FC<TestHarnessPanelProps> = ({ answer, testCases, isLoading, onChange, onSendFailures, onClose }) => {
+  const [timeoutMs, setTimeoutMs] = useState(DEFAULT_RUN_TIMEOUT_MS);
+  const [results, setResults] = useState<Record<string, TestCaseResult>>({});
+  const [isRunning, setIsRunning] = useState(false);
+
+  const solution = useMemo(() => extractSolution(answer), [answer]);
+  const finished = testCases.map(c => results[c.id]).filter((r): r is TestCaseResult => !!r);
+  const failedCount = finished.filter(r => !r.passed).length;
+
+  const updateCase = (id: string, patch: Partial<TestCase>) => {
+    onChange(testCases.map(c => c.id === id ? { ...c, ...patch } : c));
+    setResults(prev => {
+      const { [id]: _stale, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleRunAll = async () => {
+    if (!solution?.runnable) return;
+    setIsRunning(true);
+    setResults({});
+    try {
+      await runTestCases(solution, testCases, timeoutMs, result => setResults(prev => ({ ...prev, [result.caseId]: result })));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleSendFailures = () => {
+    onSendFailures(buildFailureReport(testCases, finished, timeoutMs));
+  };
+
+  return (
+    <div className="mb-8 -mt-4 ml-14 mr-2 md:mr-28 p-4 rounded-2xl border border-parchment-200 bg-parchment-100/60 text-sm animate-fadeIn">
+      <div className="flex items-center gap-2 mb-3">
+        <h4 className="font-bold text-ink-900">样例测试</h4>
+        <span className="text-xs text-ink-500 truncate">
+          {!solution
+            ? '回答中没有代码块'
+            : solution.runnable
+              ? `最终代码：${solution.language} (${solution.code.split('\n').length} 行)`
+              : `最终代码是 ${solution.language || '未标注语言'}，本地沙箱仅能运行 JavaScript / TypeScript`}
+        </span>
+        <button onClick={onClose} className="ml-auto p-1 text-ink-400 hover:text-ink-900 rounded hover:bg-parchment-200 transition-colors" title="关闭">
+          <XIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {testCases.length === 0 && (
+          <p className="text-xs text-ink-400">还没有样例。点击「添加用例」，粘贴题目给出的输入和期望输出；样例随会话保存。</p>
+        )}
+        {testCases.map((testCase, index) => {
+          const result = results[testCase.id];
+          return (
+            <div key={testCase.id} className="rounded-xl border border-parchment-200 bg-white p-3">
+              <div className="flex items-center gap-2 mb-2">
+                <span className="text-xs font-bold text-ink-700">用例 {index + 1}</span>
+                {result && (
+                  <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${result.passed ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-700'}`}>
+                    {getVerdict(result)} · {result.run.durationMs} ms
+                  </span>
+                )}
+                <button
+                  onClick={() => onChange(testCases.filter(c => c.id !== testCase.id))}
+                  className="ml-auto p-1 text-ink-300 hover:text-red-500 rounded transition-colors"
+                  title="删除用例"
+                >
+                  <TrashIcon className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <textarea
+                  value={testCase.input}
+                  onChange={(e) => updateCase(testCase.id, { input: e.target.value })}
+                  placeholder="输入"
+                  rows={3}
+                  className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-2 py-1.5 text-ink-900 font-mono text-xs resize-y focus:outline-none focus:border-bronze-500"
+                />
+                <textarea
+                  value={testCase.expected}
+                  onChange={(e) => updateCase(testCase.id, { expected: e.target.value })}
+                  placeholder="期望输出"
+                  rows={3}
+                  className="w-full bg-parchment-50 border border-parchment-300 rounded-lg px-2 py-1.5 text-ink-900 font-mono text-xs resize-y focus:outline-none focus:border-bronze-500"
+                />
+              </div>
+              {result && !result.passed && (
+                <div className="mt-2 rounded-lg border border-parchment-200 overflow-hidden font-mono text-xs">
+                  <div className="px-2 py-1 bg-parchment-100 text-[10px] text-ink-500">
+                    <span className="text-red-700">- 期望</span> · <span className="text-emerald-700">+ 实际</span>
+                  </div>
+                  <pre className="max-h-48 overflow-auto">
+                    {result.diff.map((line, i) => (
+                      <div key={i} className={`px-2 whitespace-pre-wrap break-all ${DIFF_STYLES[line.type]}`}>
+                        {DIFF_MARKERS[line.type]} {line.text}
+                      </div>
+                    ))}
+                  </pre>
+                  {result.run.stderr.trim() && (
+                    <pre className="max-h-32 overflow-auto px-2 py-1 border-t border-parchment-200 text-red-700 whitespace-pre-wrap break-all">{result.run.stderr}</pre>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mt-3">
+        <button
+          onClick={() => onChange([...testCases, createTestCase()])}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-parchment-300 text-ink-700 hover:bg-white transition-colors"
+        >
+          <PlusIcon className="w-3.5 h-3.5" /> 添加用例
+        </button>
+        <select
+          value={timeoutMs}
+          onChange={(e) => setTimeoutMs(Number(e.target.value))}
+          className="bg-parchment-50 border border-parchment-300 rounded-lg px-2 py-1.5 text-ink-700 text-xs focus:outline-none"
+          title="单个用例时限"
+        >
+          {RUN_TIMEOUT_OPTIONS.map(ms => <option key={ms} value={ms}>{ms / 1000}s / 用例</option>)}
+        </select>
+        <button
+          onClick={handleRunAll}
+          disabled={!solution?.runnable || testCases.length === 0 || isRunning}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-bronze-600 text-white font-bold hover:bg-bronze-500 transition-colors disabled:opacity-50"
+        >
+          <PlayIcon className="w-3 h-3" />
+          {isRunning ? `运行中 ${finished.length}/${testCases.length}` : '运行全部'}
+        </button>
+        {!isRunning && finished.length > 0 && (
+          <span className={`text-xs font-bold ${failedCount ? 'text-red-700' : 'text-emerald-700'}`}>
+            通过 {finished.length - failedCount}/{finished.length}
+          </span>
+        )}
+        {!isRunning && failedCount > 0 && (
+          <button
+            onClick={handleSendFailures}
+            disabled={isLoading}
+            className="ml-auto flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-bronze-200 bg-bronze-50 text-bronze-700 font-bold hover:bg-bronze-100 transition-colors disabled:opacity-50"
+            title="把失败用例和实际输出发给模型，请它修正"
+          >
+            <SendIcon className="w-3.5 h-3.5" /> 发送失败用例给模型
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TestHarnessPanel;
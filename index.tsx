@@ -1,5 +1,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github-dark.css';
 import App from './App';
 
 const rootElement = document.getElementById('root');
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { BirthInfo } from '../types';
+import { computeBazi, formatBaziContext } from './bazi';
+
+const chart = (date: string, time: string, extra: Partial<BirthInfo> = {}) =>
+  computeBazi({ date, time, timeZone: 'Asia/Shanghai', gender: 'male', ...extra });
+
+const pillarNames = (birth: ReturnType<typeof chart>) => birth.pillars.map(p => p.name).join(' ');
+
+describe('computeBazi', () => {
+  it('computes the four pillars of a known date', () => {
+    // 2000-01-01 is a 戊午 day, before 立春, so still in 己卯 year and 丙子 month
+    expect(pillarNames(chart('2000-01-01', '12:00'))).toBe('己卯 丙子 戊午 戊午');
+  });
+
+  it('changes year and month at the 立春 instant, 2024-02-04 16:26:53 Beijing time', () => {
+    expect(pillarNames(chart('2024-02-04', '16:26'))).toBe('癸卯 乙丑 戊戌 庚申');
+    expect(pillarNames(chart('2024-02-04', '16:28'))).toBe('甲辰 丙寅 戊戌 庚申');
+  });
+
+  describe('the late 子 hour, 2000-01-01 23:30', () => {
+    it('moves to the next day under 子初换日', () => {
+      expect(pillarNames(chart('2000-01-01', '23:30'))).toBe('己卯 丙子 己未 甲子');
+    });
+
+    it('keeps the day but takes the next day\'s hour stem under 早晚子时', () => {
+      const midnight = chart('2000-01-01', '23:30', { dayBoundary: 'midnight' });
+      expect(pillarNames(midnight)).toBe('己卯 丙子 戊午 甲子');
+      expect(formatBaziContext(midnight)).toContain('早晚子时');
+    });
+
+    it('agrees with 子初换日 after midnight', () => {
+      expect(pillarNames(chart('2000-01-02', '00:30', { dayBoundary: 'midnight' })))
+        .toBe(pillarNames(chart('2000-01-02', '00:30')));
+    });
+  });
+
+  it('uses true solar time for the day and hour when the longitude is known', () => {
+    // Urumqi, 87.6°E, on Beijing time: (87.6 − 120) × 4 = −129.6 min, plus +2.1 min equation of time
+    const urumqi = chart('2024-06-01', '12:30', { longitude: 87.6 });
+    expect(urumqi.trueSolarTime).toMatchObject({ time: '2024-06-01 10:22', correctionMinutes: -127 });
+    expect(urumqi.trueSolarTime!.equationOfTime).toBeCloseTo(2.1, 1);
+    expect(urumqi.pillars[3].name).toBe('癸巳');
+    expect(chart('2024-06-01', '12:30').pillars[3].name).toBe('甲午');
+  });
+
+  it('runs luck forward for a yang-year male and backward for a female', () => {
+    expect(chart('2024-06-01', '12:30').luck.forward).toBe(true);
+    expect(chart('2024-06-01', '12:30', { gender: 'female' }).luck.forward).toBe(false);
+  });
+
+  it('rejects dates outside the supported range', () => {
+    expect(() => chart('1799-12-31', '12:00')).toThrow('1800–2150');
+  });
+});
@@ -0,0 +1,270 @@
+import { BirthInfo } from '../types';
+import { SolarTerm, findSurroundingJie, getEquationOfTime, getSunLongitude, getTrueSolarTime, normalizeDegrees } from './solarTerms';
+import { formatLunarDate, solarToLunar } from './lunarCalendar';
+import { WallTime, formatOffset, formatWallTime, getZoneOffsetMinutes, parseWallTime, utcToZonedTime, zonedTimeToUtc } from './zonedTime';
+
+// Four Pillars (八字) computed locally so the model doesn't have to do stem-branch
+// arithmetic. Year and month pillars change at the exact 立春 / 节 instants; the day
+// pillar changes at 23:00 (子初换日) unless the chart asks for 早晚子时. Day and hour use
+// true solar time when the birthplace longitude is known, otherwise the wall-clock time.
+
+// 子初换日: the day changes at 23:00. 早晚子时 ('midnight'): it changes at 00:00, and the
+// late 子 hour (夜子时, 23:00–24:00) keeps the day's pillar but takes the next day's hour stem.
+export type DayBoundary = NonNullable<BirthInfo['dayBoundary']>;
+
+export const HEAVENLY_STEMS = ['甲', '乙', '丙', '丁', '戊', '己', '庚', '辛', '壬', '癸'];
+export const EARTHLY_BRANCHES = ['子', '丑', '寅', '卯', '辰', '巳', '午', '未', '申', '酉', '戌', '亥'];
+export const FIVE_ELEMENTS = ['木', '火', '土', '金', '水'];
+
+// Element of each branch's main qi, by branch index
+const BRANCH_ELEMENTS = [4, 2, 0, 0, 2, 1, 1, 2, 3, 3, 2, 4];
+
+// 藏干, main qi first
+const HIDDEN_STEMS = [
+  [9], [5, 9, 7], [0, 2, 4], [1], [4, 1, 9], [2, 4, 6],
+  [3, 5], [5, 3, 1], [6, 8, 4], [7], [4, 7, 3], [8, 0]
+];
+
+// 纳音 for each pair of the sexagenary cycle
+const NAYIN = [
+  '海中金', '炉中火', '大林木', '路旁土', '剑锋金', '山头火', '涧下水', '城头土', '白蜡金', '杨柳木',
+  '泉中水', '屋上土', '霹雳火', '松柏木', '长流水', '沙中金', '山下火', '平地木', '壁上土', '金箔金',
+  '覆灯火', '天河水', '大驿土', '钗钏金', '桑柘木', '大溪水', '沙中土', '天上火', '石榴木', '大海水'
+];
+
+// [same polarity, opposite polarity], by how the other stem relates to the day master
+const TEN_GODS = {
+  same: ['比肩', '劫财'],
+  output: ['食神', '伤官'], // Day master produces it
+  wealth: ['偏财', '正财'], // Day master controls it
+  power: ['七杀', '正官'], // It controls the day master
+  resource: ['偏印', '正印'] // It produces the day master
+};
+
+const LUCK_PILLAR_COUNT = 10;
+const DAY_MS = 86400000;
+
+export interface Pillar {
+  label: '年柱' | '月柱' | '日柱' | '时柱';
+  stem: number;
+  branch: number;
+  name: string; // e.g. 甲子
+  tenGod: string; // Of the stem, relative to the day master; 日主 for the day stem
+  hiddenStems: { stem: number; tenGod: string }[];
+  nayin: string;
+}
+
+export interface Ganzhi {
+  stem: number;
+  branch: number;
+}
+
+export interface LuckPillar {
+  name: string;
+  stem: number;
+  branch: number;
+  tenGod: string;
+  startAge: number; // Full years at the start of this period
+  startYear: number;
+}
+
+export interface BaziChart {
+  birth: BirthInfo;
+  localTime: string; // Wall time as entered, YYYY-MM-DD HH:mm
+  utcOffset: string; // e.g. UTC+08:00, as in effect at birth
+  lunarDate: string; // Of the entered calendar date, e.g. 甲辰年(龙) 正月初一
+  trueSolarTime?: {
+    time: string; // YYYY-MM-DD HH:mm
+    correctionMinutes: number; // True solar minus wall-clock time
+    equationOfTime: number; // Minutes
+  };
+  pillars: Pillar[]; // Year, month, day, hour
+  dayMaster: { stem: number; element: string };
+  elementCounts: Record<string, number>; // The eight characters by element
+  previousJie: { name: string; time: string };
+  nextJie: { name: string; time: string };
+  luck: {
+    forward: boolean; // 顺行 or 逆行
+    startOffset: { years: number; months: number; days: number }; // From birth to the first period
+    startDate: string; // YYYY-MM-DD
+    pillars: LuckPillar[];
+  };
+}
+
+const mod = (n: number, m: number) => ((n % m) + m) % m;
+
+// Element indexes into FIVE_ELEMENTS
+export const getStemElement = (stem: number) => Math.floor(stem / 2);
+export const getBranchElement = (branch: number) => BRANCH_ELEMENTS[branch];
+
+// Index in the sexagenary cycle (0 = 甲子) of a stem-branch pair of matching polarity
+const cycleIndex = (stem: number, branch: number) => mod(6 * stem - 5 * branch, 60);
+
+const pairName = (stem: number, branch: number) => HEAVENLY_STEMS[stem] + EARTHLY_BRANCHES[branch];
+
+export const getTenGod = (dayStem: number, stem: number): string => {
+  const relation = mod(getStemElement(stem) - getStemElement(dayStem), 5);
+  const gods = [TEN_GODS.same, TEN_GODS.output, TEN_GODS.wealth, TEN_GODS.power, TEN_GODS.resource][relation];
+  return gods[dayStem % 2 === stem % 2 ? 0 : 1];
+};
+
+const parseBirthWallTime = (birth: BirthInfo): WallTime => {
+  const wall = parseWallTime(birth.date, birth.time);
+  if (wall.year < 1800 || wall.year > 2150) throw new Error('仅支持 1800–2150 年之间的出生日期。');
+  if (birth.longitude !== undefined && !(Math.abs(birth.longitude) <= 180)) throw new Error('出生地经度应在 -180 到 180 之间。');
+  return wall;
+};
+
+// Days since 1970-01-01 for a calendar date; the day cycle is anchored on 1970-01-01 = 辛巳 (17)
+const epochDay = (wall: WallTime) => Math.floor(Date.UTC(wall.year, wall.month - 1, wall.day) / DAY_MS);
+
+export const formatGanzhi = (pillar: Ganzhi): string => pairName(pillar.stem, pillar.branch);
+
+// Year, month, day and hour pillars. Year and month follow the sun's longitude at
+// `instant`; day and hour follow `wall`, the clock or true solar time at that instant.
+export const getGanzhiPillars = (
+  instant: Date,
+  wall: WallTime,
+  dayBoundary: DayBoundary = 'zichu'
+): [Ganzhi, Ganzhi, Ganzhi, Ganzhi] => {
+  const longitude = getSunLongitude(instant);
+
+  // The year starts at 立春 (315°); January and early February still belong to the previous one
+  const baziYear = wall.month <= 2 && longitude >= 270 && longitude < 315 ? wall.year - 1 : wall.year;
+  const yearIndex = mod(baziYear - 4, 60);
+  const yearStem = yearIndex % 10;
+
+  // Months run from one 节 to the next: 寅 month from 立春, 卯 from 惊蛰, …
+  const monthOffset = Math.floor(normalizeDegrees(longitude - 315) / 30);
+
+  const lateZi = wall.hour >= 23;
+  const dayIndex = mod(epochDay(wall) + 17 + (lateZi && dayBoundary === 'zichu' ? 1 : 0), 60);
+  const dayStem = dayIndex % 10;
+  const hourBranch = Math.floor((wall.hour + 1) / 2) % 12;
+  const hourDayStem = lateZi && dayBoundary === 'midnight' ? (dayStem + 1) % 10 : dayStem;
+
+  return [
+    { stem: yearStem, branch: yearIndex % 12 },
+    { stem: mod((yearStem % 5) * 2 + 2 + monthOffset, 10), branch: mod(2 + monthOffset, 12) }, // 五虎遁
+    { stem: dayStem, branch: dayIndex % 12 },
+    { stem: mod((hourDayStem % 5) * 2 + hourBranch, 10), branch: hourBranch } // 五鼠遁
+  ];
+};
+
+// 旬空: the two branches left over in the ten-day 旬 of a day pillar
+export const getVoidBranches = (day: Ganzhi): [number, number] => {
+  const xunBranch = mod(cycleIndex(day.stem, day.branch) - day.stem, 12);
+  return [(xunBranch + 10) % 12, (xunBranch + 11) % 12];
+};
+
+const buildPillar = (label: Pillar['label'], stem: number, branch: number, dayStem: number): Pillar => ({
+  label,
+  stem,
+  branch,
+  name: pairName(stem, branch),
+  tenGod: label === '日柱' ? '日主' : getTenGod(dayStem, stem),
+  hiddenStems: HIDDEN_STEMS[branch].map(hidden => ({ stem: hidden, tenGod: getTenGod(dayStem, hidden) })),
+  nayin: NAYIN[Math.floor(cycleIndex(stem, branch) / 2)]
+});
+
+const formatTerm = (term: SolarTerm, timeZone: string) => ({
+  name: term.name,
+  time: formatWallTime(utcToZonedTime(term.time, timeZone))
+});
+
+export const computeBazi = (birth: BirthInfo): BaziChart => {
+  const wall = parseBirthWallTime(birth);
+  const instant = zonedTimeToUtc(wall, birth.timeZone);
+  const solarInstant = birth.longitude !== undefined ? getTrueSolarTime(instant, birth.longitude) : null;
+  const pillarWall = solarInstant ? utcToZonedTime(solarInstant, '+00:00') : wall;
+
+  const [year, month, day, hour] = getGanzhiPillars(instant, pillarWall, birth.dayBoundary);
+  const dayStem = day.stem;
+  const pillars = [
+    buildPillar('年柱', year.stem, year.branch, dayStem),
+    buildPillar('月柱', month.stem, month.branch, dayStem),
+    buildPillar('日柱', day.stem, day.branch, dayStem),
+    buildPillar('时柱', hour.stem, hour.branch, dayStem)
+  ];
+
+  const elementCounts = Object.fromEntries(FIVE_ELEMENTS.map(element => [element, 0]));
+  for (const pillar of pillars) {
+    elementCounts[FIVE_ELEMENTS[getStemElement(pillar.stem)]]++;
+    elementCounts[FIVE_ELEMENTS[getBranchElement(pillar.branch)]]++;
+  }
+
+  // 阳男阴女顺行，阴男阳女逆行; three days to the 节 make one year of start age
+  const { previous, next } = findSurroundingJie(instant);
+  const forward = (year.stem % 2 === 0) === (birth.gender === 'male');
+  const daysToJie = Math.abs((forward ? next.time : previous.time).getTime() - instant.getTime()) / DAY_MS;
+  const startYears = daysToJie / 3;
+  const years = Math.floor(startYears);
+  const monthsFloat = (startYears - years) * 12;
+  const months = Math.floor(monthsFloat);
+  const days = Math.floor((monthsFloat - months) * 30);
+  const start = new Date(Date.UTC(wall.year + years, wall.month - 1 + months, wall.day + days));
+  const startDate = start.toISOString().slice(0, 10);
+
+  const offsetMinutes = getZoneOffsetMinutes(instant.getTime(), birth.timeZone);
+  const monthCycle = cycleIndex(month.stem, month.branch);
+  const luckPillars = Array.from({ length: LUCK_PILLAR_COUNT }, (_, i) => {
+    const index = mod(monthCycle + (forward ? i + 1 : -(i + 1)), 60);
+    return {
+      name: pairName(index % 10, index % 12),
+      stem: index % 10,
+      branch: index % 12,
+      tenGod: getTenGod(dayStem, index % 10),
+      startAge: years + i * 10,
+      startYear: start.getUTCFullYear() + i * 10
+    };
+  });
+
+  return {
+    birth,
+    localTime: formatWallTime(wall),
+    utcOffset: formatOffset(offsetMinutes),
+    lunarDate: formatLunarDate(solarToLunar(wall)),
+    ...(solarInstant ? {
+      trueSolarTime: {
+        time: formatWallTime(pillarWall),
+        correctionMinutes: Math.round((solarInstant.getTime() - instant.getTime()) / 60000 - offsetMinutes),
+        equationOfTime: getEquationOfTime(instant)
+      }
+    } : {}),
+    pillars,
+    dayMaster: { stem: dayStem, element: FIVE_ELEMENTS[getStemElement(dayStem)] },
+    elementCounts,
+    previousJie: formatTerm(previous, birth.timeZone),
+    nextJie: formatTerm(next, birth.timeZone),
+    luck: { forward, startOffset: { years, months, days }, startDate, pillars: luckPillars }
+  };
+};
+
+// Plain-text chart sent with the prompt. The model is told to take it as given.
+export const formatBaziContext = (chart: BaziChart): string => {
+  const { birth, luck } = chart;
+  const dayBoundary = birth.dayBoundary === 'midnight'
+    ? '0:00 换日，23:00 后为夜子时，时干按次日推（早晚子时）'
+    : '23:00 换日（子初换日）';
+  const pillarLines = chart.pillars.map(pillar =>
+    `${pillar.label}：${pillar.name}　天干十神 ${pillar.tenGod}　藏干 ${pillar.hiddenStems.map(h => `${HEAVENLY_STEMS[h.stem]}(${h.tenGod})`).join(' ')}　纳音 ${pillar.nayin}`);
+  const { years, months, days } = luck.startOffset;
+  return [
+    '【本地排盘结果（程序按天文节气计算，已校验）】请直接采用以下四柱与大运，不要重新推算。',
+    `出生时间：${chart.localTime}（${birth.timeZone}，${chart.utcOffset}），${birth.gender === 'male' ? '男' : '女'}${birth.place ? `，出生地 ${birth.place}` : ''}`,
+    `农历：${chart.lunarDate}${birth.calendar === 'lunar' ? '（用户按农历输入）' : ''}`,
+    ...(chart.trueSolarTime ? [
+      `真太阳时：${chart.trueSolarTime.time}（经度 ${birth.longitude}°，较钟表时间 ${chart.trueSolarTime.correctionMinutes >= 0 ? '+' : ''}${chart.trueSolarTime.correctionMinutes} 分钟，其中均时差 ${chart.trueSolarTime.equationOfTime.toFixed(1)} 分钟）`
+    ] : []),
+    `节气：生于${chart.previousJie.name}（${chart.previousJie.time}）之后、${chart.nextJie.name}（${chart.nextJie.time}）之前`,
+    `八字：${chart.pillars.map(p => p.name).join(' ')}`,
+    ...pillarLines,
+    `日主：${HEAVENLY_STEMS[chart.dayMaster.stem]}${chart.dayMaster.element}`,
+    `五行个数（天干与地支本气）：${FIVE_ELEMENTS.map(element => `${element}${chart.elementCounts[element]}`).join(' ')}`,
+    `大运：${luck.forward ? '顺行' : '逆行'}，出生后 ${years} 年 ${months} 个月 ${days} 天起运（约 ${luck.startDate}）`,
+    luck.pillars.map(p => `${p.startAge}岁(${p.startYear}) ${p.name}[${p.tenGod}]`).join('　'),
+    chart.trueSolarTime
+      ? `年柱、月柱按实际时刻与节气交接确定；日柱、时柱按真太阳时，${dayBoundary}。`
+      : `日柱${dayBoundary}；时间为出生地钟表时间，未做真太阳时校正。`
+  ].join('\n');
+};
@@ -0,0 +1,89 @@
+import hljs from 'highlight.js/lib/common';
+
+// Syntax highlighting for fenced code in answers. highlight.js returns one HTML string;
+// it is split into per-line fragments so line numbers stay aligned when lines wrap.
+
+export interface HighlightedCode {
+  language?: string; // highlight.js id (`javascript` for `js`, `mjs`…) when known or detected, else the fence label
+  lines: string[]; // HTML per line, every line's open spans closed and reopened
+}
+
+const EXTENSIONS: Record<string, string> = {
+  bash: 'sh', shell: 'sh', c: 'c', cpp: 'cpp', csharp: 'cs', css: 'css', diff: 'diff',
+  go: 'go', graphql: 'graphql', ini: 'ini', java: 'java', javascript: 'js', json: 'json',
+  kotlin: 'kt', less: 'less', lua: 'lua', makefile: 'mk', markdown: 'md', objectivec: 'm',
+  perl: 'pl', php: 'php', plaintext: 'txt', python: 'py', 'python-repl': 'py', r: 'r',
+  ruby: 'rb', rust: 'rs', scss: 'scss', sql: 'sql', swift: 'swift', typescript: 'ts',
+  vbnet: 'vb', wasm: 'wat', xml: 'xml', yaml: 'yml',
+  // Not bundled with the common highlight.js set, but common in answers
+  latex: 'tex', tex: 'tex', tsx: 'tsx', jsx: 'jsx', haskell: 'hs', scala: 'scala', dart: 'dart'
+};
+
+// Languages tried when a fence has no label; the full set misfires on short snippets
+const AUTO_DETECT_LANGUAGES = [
+  'python', 'cpp', 'c', 'java', 'javascript', 'typescript', 'go', 'rust', 'bash',
+  'json', 'sql', 'yaml', 'xml', 'css', 'markdown'
+];
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Spans may cross newlines (block comments, template strings); close them at each line
+// end and reopen them on the next line so every line is well-formed on its own.
+const splitHighlightedLines = (html: string): string[] => {
+  const lines: string[] = [];
+  const openTags: string[] = [];
+  let current = '';
+  for (const part of html.split(/(<span[^>]*>|<\/span>|\n)/)) {
+    if (part === '\n') {
+      lines.push(current + '</span>'.repeat(openTags.length));
+      current = openTags.join('');
+    } else if (part.startsWith('<span')) {
+      openTags.push(part);
+      current += part;
+    } else if (part === '</span>') {
+      openTags.pop();
+      current += part;
+    } else {
+      current += part;
+    }
+  }
+  lines.push(current);
+  return lines;
+};
+
+// Id of the definition an alias resolves to, e.g. `py` → `python`
+const getLanguageId = (language: string): string | undefined => {
+  const definition = hljs.getLanguage(language);
+  return definition && hljs.listLanguages().find(id => hljs.getLanguage(id) === definition);
+};
+
+// Unlabelled fences are auto-detected only when `detect` is set; doing it mid-stream
+// would let the guessed language, and so every color, change from one chunk to the next.
+export const highlightCode = (code: string, language: string | undefined, detect: boolean): HighlightedCode => {
+  const label = language?.toLowerCase();
+  const id = label ? getLanguageId(label) : undefined;
+  try {
+    if (id) {
+      const result = hljs.highlight(code, { language: id, ignoreIllegals: true });
+      return { language: id, lines: splitHighlightedLines(result.value) };
+    }
+    if (!label && detect && code.trim()) {
+      const result = hljs.highlightAuto(code, AUTO_DETECT_LANGUAGES);
+      return { language: result.language, lines: splitHighlightedLines(result.value) };
+    }
+  } catch (e) {
+    // A grammar that throws leaves the block as plain text
+  }
+  return { language: id || label, lines: escapeHtml(code).split('\n') };
+};
+
+export const getCodeFileExtension = (language?: string): string => {
+  if (!language) return 'txt';
+  const id = language.toLowerCase();
+  if (EXTENSIONS[id]) return EXTENSIONS[id];
+  // Aliases such as `py`, `c++` or `sh` resolve to the same definition as their language
+  const definition = hljs.getLanguage(id);
+  const canonical = definition && Object.keys(EXTENSIONS).find(name => hljs.getLanguage(name) === definition);
+  return (canonical && EXTENSIONS[canonical]) || (/^[a-z0-9]{1,6}$/.test(id) ? id : 'txt');
+};
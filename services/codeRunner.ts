@@ -0,0 +1,218 @@
+import { SANDBOX_TICK, sandboxFrameMain, sandboxWorkerMain } from './sandboxRuntime';
+
+// Runs JavaScript / TypeScript from answers in an offline sandbox (see sandboxRuntime).
+// TypeScript is stripped with sucrase first; ES module syntax is rewritten to the
+// CommonJS shims the sandbox provides. Loops and functions then get a tick call so the
+// worker keeps sending heartbeats while it computes.
+
+export type RunStatus = 'ok' | 'error' | 'exit' | 'timeout' | 'output-limit' | 'memory' | 'unresponsive';
+
+export interface RunResult {
+  status: RunStatus;
+  stdout: string;
+  stderr: string;
+  exitCode?: number;
+  durationMs: number;
+}
+
+export interface RunOptions {
+  stdin: string;
+  timeoutMs: number;
+}
+
+export const RUN_TIMEOUT_OPTIONS = [2000, 5000, 10000, 30000];
+export const DEFAULT_RUN_TIMEOUT_MS = 5000;
+
+export const RUN_STATUS_LABELS: Record<RunStatus, string> = {
+  ok: '运行完成',
+  error: '运行出错',
+  exit: '已退出',
+  timeout: '超时，已终止',
+  'output-limit': '输出过多，已终止',
+  memory: '内存超限，已终止',
+  unresponsive: '无响应，已终止'
+};
+
+// Runaway allocation is stopped mainly by the stall guard: ticks stop arriving while the
+// engine is stuck growing one allocation, which happens in every browser. The memory limit
+// is best effort on top of it, since heap sizes come only from Chromium's performance.memory
+// and, in cross-origin isolated pages, measureUserAgentSpecificMemory; Firefox and Safari
+// have neither, so there the stall guard and the timeout are the only limits.
+export const MEMORY_LIMIT_MB = 512;
+export const STALL_LIMIT_MS = 3000; // Silence after which a busy sandbox is assumed stuck
+
+const OUTPUT_LIMIT = 256 * 1024; // Characters across stdout and stderr
+const BOOT_GRACE_MS = 5000; // Time allowed for the frame and worker to start
+const HEARTBEAT_MS = 250;
+const MEMORY_POLL_MS = 1000;
+const MEMORY_LIMIT_BYTES = MEMORY_LIMIT_MB * 1024 * 1024;
+
+// No network, images, fonts or frames; scripts only from the frame itself and blobs
+const SANDBOX_CSP = "default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval' blob:; worker-src blob:";
+
+const TYPESCRIPT_LANGUAGES = ['typescript', 'ts'];
+const RUNNABLE_LANGUAGES = ['javascript', 'js', 'mjs', 'cjs', 'node', ...TYPESCRIPT_LANGUAGES];
+
+export const isRunnableLanguage = (language?: string): boolean =>
+  !!language && RUNNABLE_LANGUAGES.includes(language.toLowerCase());
+
+const transpile = async (code: string, language: string): Promise<string> => {
+  const { transform } = await import('sucrase');
+  const isTypeScript = TYPESCRIPT_LANGUAGES.includes(language.toLowerCase());
+  return transform(code, { transforms: isTypeScript ? ['typescript', 'imports'] : ['imports'] }).code;
+};
+
+// Inserts a tick at the top of every loop body and function body. Returns null when the
+// code doesn't parse; it then runs as is and only the timeout and heap cap apply.
+const instrument = async (code: string): Promise<string | null> => {
+  const { parse } = await import('acorn');
+  let ast: any;
+  try {
+    ast = parse(code, {
+      ecmaVersion: 'latest',
+      sourceType: 'script',
+      allowReturnOutsideFunction: true,
+      allowAwaitOutsideFunction: true
+    });
+  } catch (e) {
+    return null;
+  }
+
+  const inserts: { at: number; text: string; isCloser: boolean; order: number }[] = [];
+  const insert = (at: number, text: string, isCloser = false) => inserts.push({ at, text, isCloser, order: inserts.length });
+  const call = `${SANDBOX_TICK}();`;
+  const visit = (node: any) => {
+    if (!node || typeof node.type !== 'string') return;
+    const isLoop = /^(For|ForIn|ForOf|While|DoWhile)Statement$/.test(node.type);
+    const isFunction = /^(FunctionDeclaration|FunctionExpression|ArrowFunctionExpression)$/.test(node.type);
+    if (isLoop || isFunction) {
+      const body = node.body;
+      if (body.type === 'BlockStatement') {
+        insert(body.start + 1, call);
+      } else if (isLoop) {
+        insert(body.start, `{${call}`);
+        insert(body.end, '}', true);
+      } else {
+        insert(body.start, `(${SANDBOX_TICK}(),`);
+        insert(body.end, ')', true);
+      }
+    }
+    for (const value of Object.values(node)) {
+      if (Array.isArray(value)) value.forEach(visit);
+      else if (value && typeof value === 'object') visit(value);
+    }
+  };
+  visit(ast);
+
+  // Applied from the end so earlier offsets stay valid. Text inserted later at the same
+  // offset lands in front, so at a shared offset openers go first (a closer must precede
+  // the next node's opener), inner openers before outer ones and outer closers before inner ones.
+  inserts.sort((a, b) =>
+    b.at - a.at
+    || Number(a.isCloser) - Number(b.isCloser)
+    || (a.isCloser ? a.order - b.order : b.order - a.order));
+  let result = code;
+  for (const { at, text } of inserts) {
+    result = result.slice(0, at) + text + result.slice(at);
+  }
+  return result;
+};
+
+// Chromium-only, so not in the DOM typings
+interface PerformanceWithMemoryMeasurement extends Performance {
+  measureUserAgentSpecificMemory?: () => Promise<{ bytes: number }>;
+}
+
+// Only available in cross-origin isolated pages; covers workers in every frame
+const measureMemory = (): Promise<number> | null => {
+  const perf = performance as PerformanceWithMemoryMeasurement;
+  if (!self.crossOriginIsolated || typeof perf.measureUserAgentSpecificMemory !== 'function') return null;
+  return perf.measureUserAgentSpecificMemory().then(result => result.bytes);
+};
+
+export const runSandboxed = async (code: string, language: string, options: RunOptions): Promise<RunResult> => {
+  const startedAt = performance.now();
+  let compiled: string;
+  try {
+    compiled = await transpile(code, language);
+  } catch (e: any) {
+    return { status: 'error', stdout: '', stderr: `编译错误: ${e?.message || e}\n`, durationMs: 0 };
+  }
+  const instrumented = await instrument(compiled);
+
+  return new Promise(resolve => {
+    let stdout = '';
+    let stderr = '';
+    let runStartedAt = startedAt;
+    let lastHeartbeatAt = 0; // 0 until the job has started
+    let baselineBytes: number | undefined;
+    let isMeasuring = false;
+    const iframe = document.createElement('iframe');
+    iframe.setAttribute('sandbox', 'allow-scripts');
+    iframe.style.display = 'none';
+    iframe.srcdoc = `<!DOCTYPE html><html><head><meta http-equiv="Content-Security-Policy" content="${SANDBOX_CSP}"></head>`
+      + `<body><script>(${sandboxFrameMain.toString()})()</script></body></html>`;
+
+    const finish = (status: RunStatus, extra: Partial<RunResult> = {}) => {
+      window.removeEventListener('message', handleMessage);
+      clearTimeout(timer);
+      clearInterval(watchdog);
+      iframe.remove(); // Ends the worker, even one stuck in a loop
+      resolve({ status, stdout, stderr, durationMs: Math.round(performance.now() - runStartedAt), ...extra });
+    };
+
+    const stopForMemory = (bytes: number) => finish('memory', {
+      stderr: `${stderr}内存占用约 ${Math.round(bytes / 1024 / 1024)} MB，超过 ${MEMORY_LIMIT_MB} MB 上限。\n`
+    });
+
+    // Heartbeats only stop mid-run when instrumented code is stuck inside one operation,
+    // typically an allocation that would otherwise grow until the tab crashes
+    const checkHealth = () => {
+      if (!lastHeartbeatAt) return;
+      if (instrumented && performance.now() - lastHeartbeatAt > STALL_LIMIT_MS) {
+        finish('unresponsive', { stderr: `${stderr}沙箱 ${STALL_LIMIT_MS / 1000} 秒无响应 (常见于一次分配过多内存)。\n` });
+        return;
+      }
+      const measurement = isMeasuring ? null : measureMemory();
+      if (!measurement) return;
+      isMeasuring = true;
+      measurement.then(bytes => {
+        isMeasuring = false;
+        if (baselineBytes === undefined) baselineBytes = bytes;
+        else if (bytes - baselineBytes > MEMORY_LIMIT_BYTES) stopForMemory(bytes - baselineBytes);
+      }, () => { isMeasuring = false; });
+    };
+    const watchdog = setInterval(checkHealth, MEMORY_POLL_MS);
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframe.contentWindow) return;
+      const data = event.data;
+      if (data?.type === 'ready') {
+        runStartedAt = performance.now();
+        clearTimeout(timer);
+        timer = setTimeout(() => finish('timeout'), options.timeoutMs);
+        lastHeartbeatAt = performance.now();
+        iframe.contentWindow?.postMessage({
+          workerSource: `(${sandboxWorkerMain.toString()})()`,
+          code: instrumented ?? compiled,
+          stdin: options.stdin,
+          outputLimit: OUTPUT_LIMIT,
+          tickName: SANDBOX_TICK,
+          heartbeatMs: HEARTBEAT_MS
+        }, '*');
+      } else if (data?.type === 'heartbeat') {
+        lastHeartbeatAt = performance.now();
+        if (data.heapBytes > MEMORY_LIMIT_BYTES) stopForMemory(data.heapBytes);
+      } else if (data?.type === 'output') {
+        if (data.stream === 'stderr') stderr += data.text; else stdout += data.text;
+      } else if (data?.type === 'done') {
+        if (data.error && !stderr.includes(data.error)) stderr += `${data.error}\n`;
+        finish(data.status, { exitCode: data.exitCode });
+      }
+    };
+
+    let timer = setTimeout(() => finish('error', { stderr: '沙箱启动超时。\n' }), BOOT_GRACE_MS);
+    window.addEventListener('message', handleMessage);
+    document.body.appendChild(iframe);
+  });
+};
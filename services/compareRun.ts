@@ -0,0 +1,75 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Message, PromptContent, ReasoningMode, Role, TokenUsage } from '../types';
+import { getPromptParts } from './messageArtifacts';
+
+// Compare mode sends one prompt, with the same history, to several models at once.
+// Answers stay outside the conversation tree until one is promoted into it.
+
+export const MIN_COMPARE_MODELS = 2;
+export const MAX_COMPARE_MODELS = 4;
+
+const COMPARE_MODEL_IDS_KEY = 'compare_model_ids';
+
+export interface CompareColumn {
+  modelId: string;
+  text: string;
+  reasoning: string;
+  isStreaming: boolean;
+  thinkingTime?: number; // Time to first token in ms
+  usage?: TokenUsage;
+  cost?: number;
+  finishReason?: string;
+  error?: string;
+  promotedMessageId?: string; // Set once copied into the conversation
+}
+
+export interface CompareRun {
+  id: string;
+  parentId: string; // The user message every column answers
+  prompt: PromptContent;
+  history: Message[]; // Active path before the prompt
+  startedAt: number;
+  columns: CompareColumn[];
+}
+
+export const loadCompareModelIds = (): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(COMPARE_MODEL_IDS_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter((id): id is string => typeof id === 'string') : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const saveCompareModelIds = (modelIds: string[]) => {
+  localStorage.setItem(COMPARE_MODEL_IDS_KEY, JSON.stringify(modelIds));
+};
+
+// Trims, drops blanks and duplicates, and caps the list at MAX_COMPARE_MODELS
+export const normalizeCompareModelIds = (modelIds: string[]): string[] =>
+  [...new Set(modelIds.map(id => id.trim()).filter(Boolean))].slice(0, MAX_COMPARE_MODELS);
+
+export const createCompareRun = (prompt: Message, history: Message[], modelIds: string[]): CompareRun => ({
+  id: uuidv4(),
+  parentId: prompt.id,
+  prompt: getPromptParts(prompt),
+  history,
+  startedAt: Date.now(),
+  columns: modelIds.map(modelId => ({ modelId, text: '', reasoning: '', isStreaming: true }))
+});
+
+// A promoted answer becomes a sibling branch under the prompt, like a regeneration
+export const compareColumnToMessage = (column: CompareColumn, parentId: string, mode: ReasoningMode): Message => ({
+  id: uuidv4(),
+  parentId,
+  role: Role.MODEL,
+  text: column.text,
+  reasoning: column.reasoning || undefined,
+  timestamp: Date.now(),
+  thinkingTime: column.thinkingTime,
+  mode,
+  modelId: column.modelId,
+  usage: column.usage,
+  cost: column.cost,
+  finishReason: column.finishReason
+});
@@ -0,0 +1,117 @@
+import { ContextSummary, Message, PromptContent, Role, TokenUsage } from '../types';
+import { ModeDefinition } from './modeRegistry';
+import { StreamOptions, planRequestContext, streamGeminiResponse } from './geminiService';
+import { getMessageImages, getPromptContent } from './messageArtifacts';
+import {
+  DEFAULT_CONTEXT_CONFIG, estimateTokens, getContextLimit, getOutputReserve, getSummaryBudget
+} from './tokenBudget';
+
+// 'summarize' context policy: turns that no longer fit are replaced by a summary the model
+// writes. The summary is rolling: each update folds the newly dropped turns into the last
+// one, so a long conversation costs one small request whenever the window moves on.
+
+const SUMMARY_SYSTEM_PROMPT = [
+  '你负责压缩一段对话的历史，供后续对话作为上下文使用。',
+  '把“已有摘要”和“新增对话”合并成一份新的摘要：保留用户的目标、约束和偏好，已经得出的结论、数值、公式和代码要点，以及仍未解决的问题；省略寒暄和重复内容。',
+  '用第三人称客观陈述，只输出摘要正文。'
+].join('\n');
+
+const SUMMARY_OUTPUT_TOKENS = 4096; // Reasoning models spend part of it thinking
+const MAX_SUMMARY_ROUNDS = 4; // Turns beyond this many batches fall back to the excerpt
+const MIN_BATCH_TOKENS = 1024;
+
+const formatTurn = (msg: Message): string => {
+  const imageCount = getMessageImages(msg).length;
+  const images = imageCount > 0 ? `\n[附图 ${imageCount} 张]` : '';
+  return `${msg.role === Role.USER ? '用户' : '助手'}：${msg.role === Role.USER ? getPromptContent(msg) : msg.text}${images}`;
+};
+
+// Consecutive turns that fit in `budget` tokens; a single oversized turn is cut to fit
+export const takeSummaryBatch = (messages: Message[], budget: number): { turns: string[]; throughId: string } => {
+  const turns: string[] = [];
+  let used = 0;
+  let throughId = messages[0].id;
+  for (const msg of messages) {
+    let turn = formatTurn(msg);
+    const cost = estimateTokens(turn) + 1;
+    if (used + cost > budget) {
+      if (turns.length > 0) break;
+      turn = `${turn.slice(0, Math.floor(turn.length * budget / cost))}…`;
+    }
+    turns.push(turn);
+    used += cost;
+    throughId = msg.id;
+  }
+  return { turns, throughId };
+};
+
+// Models overrun length limits now and then; the tail goes rather than the whole summary
+const fitToBudget = (text: string, budget: number): string => {
+  const tokens = estimateTokens(text);
+  return tokens <= budget ? text : `${text.slice(0, Math.floor(text.length * budget / tokens) - 1)}…`;
+};
+
+const buildSummaryRequest = (previous: string | undefined, turns: string[], maxChars: number): string => [
+  `已有摘要：\n${previous || '（无）'}`,
+  `新增对话：\n${turns.join('\n\n')}`,
+  `请输出合并后的新摘要，不超过 ${maxChars} 字。`
+].join('\n\n');
+
+export interface SummaryUpdate {
+  summary?: ContextSummary; // Unchanged when nothing needed summarizing or every request failed
+  usage: TokenUsage[]; // One entry per summary request that reported usage, for cost accounting
+}
+
+// Brings the cached summary up to date for the request described by the arguments, as
+// far as MAX_SUMMARY_ROUNDS requests get it. A failed request ends the update; the
+// caller sends anyway and the excerpt covers whatever the summary doesn't.
+export const updateContextSummary = async (
+  currentMessage: PromptContent,
+  history: Message[],
+  mode: ModeDefinition,
+  options: StreamOptions
+): Promise<SummaryUpdate> => {
+  const contextLimit = getContextLimit(options.modelId.trim());
+  const baseConfig = options.contextConfig || DEFAULT_CONTEXT_CONFIG;
+  const config = { ...baseConfig, maxOutputTokens: SUMMARY_OUTPUT_TOKENS };
+  const summaryBudget = getSummaryBudget(contextLimit, baseConfig);
+  // CJK text runs about 0.7 tokens per character; ask for a little less than fits
+  const maxChars = Math.max(200, Math.floor(summaryBudget / 0.7 * 0.8));
+  // The request carries the previous summary next to the batch
+  const batchBudget = Math.max(
+    MIN_BATCH_TOKENS,
+    contextLimit - getOutputReserve(contextLimit, config) - estimateTokens(SUMMARY_SYSTEM_PROMPT) - summaryBudget - 256
+  );
+
+  let summary = options.contextSummary;
+  const usage: TokenUsage[] = [];
+  for (let round = 0; round < MAX_SUMMARY_ROUNDS; round++) {
+    const context = planRequestContext(currentMessage, history, mode, { ...options, contextSummary: summary });
+    if (!context.unsummarizedThroughId) break;
+
+    const coveredThrough = summary ? history.findIndex(msg => msg.id === summary!.throughId) : -1;
+    const end = history.findIndex(msg => msg.id === context.unsummarizedThroughId);
+    const batch = takeSummaryBatch(history.slice(coveredThrough + 1, end + 1), batchBudget);
+
+    let text = '';
+    try {
+      await streamGeminiResponse(
+        buildSummaryRequest(coveredThrough >= 0 ? summary!.text : undefined, batch.turns, maxChars),
+        [],
+        mode,
+        (chunk, _reasoning, chunkUsage) => {
+          text += chunk;
+          if (chunkUsage) usage.push(chunkUsage);
+        },
+        { ...options, customSystemPrompt: SUMMARY_SYSTEM_PROMPT, temperature: 0.3, assistantPrefix: undefined, contextConfig: config }
+      );
+    } catch (error) {
+      console.warn("Context summary request failed; sending with the excerpt instead:", error);
+      break;
+    }
+    // A stopped request resolves with partial text, which must not be cached
+    if (options.signal?.aborted || !text.trim()) break;
+    summary = { throughId: batch.throughId, text: fitToBudget(text.trim(), summaryBudget) };
+  }
+  return { summary, usage };
+};
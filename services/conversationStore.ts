@@ -0,0 +1,105 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Conversation, ConversationSettings, Message, ReasoningMode, Role } from '../types';
+import { migrateMessageImages } from './messageArtifacts';
+
+const DB_NAME = 'deepseek-speciale-client';
+const DB_VERSION = 1;
+const STORE_NAME = 'conversations';
+
+export const DEFAULT_CONVERSATION_TITLE = '新对话';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null; // Allow a later call to try again
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// A reload can interrupt a stream mid-way; never restore a message as still streaming.
+// A partial answer left that way is marked interrupted so it can be resumed.
+const normalizeConversation = (conversation: Conversation): Conversation => ({
+  ...conversation,
+  messages: conversation.messages.map(migrateMessageImages).map(msg => msg.isStreaming
+    ? { ...msg, isStreaming: false, retryNotice: undefined, interrupted: !!msg.text, error: msg.text ? '页面已重新加载' : msg.error }
+    : msg)
+});
+
+export const listConversations = async (): Promise<Conversation[]> => {
+  const conversations = await runRequest<Conversation[]>('readonly', store => store.getAll());
+  return sortConversations(conversations.map(normalizeConversation));
+};
+
+export const saveConversation = async (conversation: Conversation): Promise<void> => {
+  await runRequest('readwrite', store => store.put(conversation));
+};
+
+export const deleteConversation = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+// Pinned first, then most recently updated
+export const sortConversations = (conversations: Conversation[]): Conversation[] =>
+  [...conversations].sort((a, b) => {
+    if (!!a.pinned !== !!b.pinned) return a.pinned ? -1 : 1;
+    return b.updatedAt - a.updatedAt;
+  });
+
+export const createConversation = (
+  mode: ReasoningMode,
+  providerId: string,
+  modelId: string,
+  settings: ConversationSettings
+): Conversation => {
+  const now = Date.now();
+  return {
+    id: uuidv4(),
+    title: DEFAULT_CONVERSATION_TITLE,
+    messages: [],
+    mode,
+    providerId,
+    modelId,
+    settings,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+export const deriveConversationTitle = (messages: Message[]): string => {
+  const firstUserMessage = messages.find(msg => msg.role === Role.USER && msg.text.trim());
+  if (!firstUserMessage) return DEFAULT_CONVERSATION_TITLE;
+
+  // Attachments are inlined ahead of the prompt; title from the prompt itself when possible
+  const text = firstUserMessage.text.split('[文件结束]').pop()!.trim() || firstUserMessage.text;
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > 30 ? `${singleLine.slice(0, 30)}…` : singleLine;
+};
@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import { Conversation, Message, Role } from '../types';
+import {
+  CONVERSATION_EXPORT_FORMAT, ImportDefaults, exportConversationJson, exportConversationMarkdown, importConversation,
+  parseConversationMarkdown
+} from './conversationTransfer';
+import { buildMessageContent, getMessageImages, getPromptContent } from './messageArtifacts';
+
+// Whole seconds: the Markdown layout stores times to the second
+const T0 = new Date(2025, 2, 14, 9, 26, 53).getTime();
+
+const DEFAULTS: ImportDefaults = {
+  mode: 'general',
+  providerId: 'openrouter',
+  modelId: 'deepseek/deepseek-r1',
+  settings: { temperature: 0.6, systemPrompt: '' }
+};
+
+const IMAGE = { dataUrl: 'data:image/png;base64,iVBORw0KGgo=', mimeType: 'image/png', width: 4, height: 3, name: 'chart.png' };
+
+const ARTIFACT = {
+  kind: 'liuyao' as const,
+  cast: { lines: [7, 8, 9, 7, 6, 8] as (6 | 7 | 8 | 9)[], method: 'manual' as const, date: '2024-02-10', time: '10:00', timeZone: 'Asia/Shanghai' }
+};
+
+const message = (id: string, parentId: string | null, role: Role, text: string, offset: number, extra: Partial<Message> = {}): Message =>
+  ({ id, parentId, role, text, timestamp: T0 + offset * 1000, ...extra });
+
+// Root question with two answers; the second answer has a follow-up
+const branchedConversation = (): Conversation => ({
+  id: 'c1',
+  title: '卦象',
+  messages: [
+    message('u1', null, Role.USER, '这一卦怎么看？', 0, { artifacts: [ARTIFACT], ...buildMessageContent('这一卦怎么看？', [IMAGE]) }),
+    message('m1', 'u1', Role.MODEL, '第一种解读', 5, { reasoning: '先看世爻', usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 } }),
+    message('m2', 'u1', Role.MODEL, '第二种解读', 9, { isStreaming: true, retryNotice: '重试中' }),
+    message('u2', 'm2', Role.USER, '展开讲讲', 12),
+    message('m3', 'u2', Role.MODEL, '好的', 15, { cost: 0.002 })
+  ],
+  activeLeafId: 'm3',
+  mode: 'fengshui',
+  providerId: 'deepseek',
+  modelId: 'deepseek-reasoner',
+  settings: { temperature: 0.6, systemPrompt: '' },
+  extraCost: 0.01,
+  createdAt: T0,
+  updatedAt: T0
+});
+
+const roundTripMarkdown = (messages: Message[]) =>
+  parseConversationMarkdown(exportConversationMarkdown(messages));
+
+describe('Markdown export and import', () => {
+  it('round-trips text, reasoning, usage and times along a branch', () => {
+    const path = branchedConversation().messages.filter(msg => msg.id !== 'm2' && msg.id !== 'u2' && msg.id !== 'm3');
+    const imported = roundTripMarkdown(path);
+
+    expect(imported.map(({ role, text, reasoning, usage, timestamp }) => ({ role, text, reasoning, usage, timestamp }))).toEqual([
+      { role: Role.USER, text: getPromptContent(path[0]), reasoning: undefined, usage: undefined, timestamp: T0 },
+      { role: Role.MODEL, text: '第一种解读', reasoning: '先看世爻', usage: path[1].usage, timestamp: T0 + 5000 }
+    ]);
+    expect(imported[0].parentId).toBeNull();
+    expect(imported[1].parentId).toBe(imported[0].id);
+  });
+
+  it('writes artifacts as text and pictures as placeholders that import drops', () => {
+    const markdown = exportConversationMarkdown([branchedConversation().messages[0]]);
+    expect(markdown).toContain('![chart.png](omitted)');
+    expect(markdown).toContain(getPromptContent({ text: '', artifacts: [ARTIFACT] }).trim());
+
+    const [imported] = parseConversationMarkdown(markdown);
+    expect(imported.text).not.toContain('(omitted)');
+    expect(imported.text.endsWith('这一卦怎么看？')).toBe(true);
+  });
+
+  it('keeps reasoning that starts or ends with blank lines', () => {
+    const [imported] = roundTripMarkdown([message('m', null, Role.MODEL, '答案是 5/6。', 0, { reasoning: '\n先约分，\n\n再通分。\n' })]);
+    expect(imported.reasoning).toBe('\n先约分，\n\n再通分。\n');
+    expect(imported.text).toBe('答案是 5/6。');
+  });
+
+  it('does not split a message whose body looks like the layout', () => {
+    const tricky = [
+      '解释一下导出格式：',
+      '### User [2025/3/14 09:26:53]',
+      '\\### DeepSeek Speciale [x]',
+      '> Token Usage: Total 1 (Prompt 1, Completion 0)',
+      '![示意](omitted)'
+    ].join('\n');
+    const messages = [
+      message('u', null, Role.USER, '> Token Usage: Total 3 (Prompt 1, Completion 2)', 0),
+      message('m', 'u', Role.MODEL, tricky, 1, { reasoning: '### User [2025/3/14 09:26:53]\n> **深度思考过程**:' })
+    ];
+    const imported = roundTripMarkdown(messages);
+
+    expect(imported).toHaveLength(2);
+    expect(imported[0].text).toBe(messages[0].text);
+    expect(imported[0].usage).toBeUndefined();
+    expect(imported[1].text).toBe(tricky);
+    expect(imported[1].reasoning).toBe(messages[1].reasoning);
+  });
+
+  it('reads exports written before the first reasoning line was quoted', () => {
+    const legacy = '### DeepSeek Speciale [2025/3/14 09:26:53]\n> **深度思考过程**:\n第一行\n> 第二行\n\n回答\n\n---\n\n';
+    const [imported] = parseConversationMarkdown(legacy);
+    expect(imported.reasoning).toBe('第一行\n第二行');
+    expect(imported.text).toBe('回答');
+  });
+
+  it('imports as a conversation with the given defaults', () => {
+    const markdown = exportConversationMarkdown(branchedConversation().messages.slice(0, 2));
+    const conversation = importConversation(markdown, '卦象.md', DEFAULTS);
+    expect(conversation.modelId).toBe(DEFAULTS.modelId);
+    expect(conversation.messages.every(msg => msg.mode === DEFAULTS.mode)).toBe(true);
+    expect(conversation.activeLeafId).toBe(conversation.messages[1].id);
+  });
+});
+
+describe('JSON export and import', () => {
+  it('round-trips every branch, artifact and image, dropping transient state', () => {
+    const original = branchedConversation();
+    const imported = importConversation(exportConversationJson(original), 'x.json', DEFAULTS);
+
+    expect(imported.id).not.toBe(original.id);
+    expect(imported.activeLeafId).toBe('m3');
+    expect(imported.extraCost).toBe(0.01);
+    expect(imported.messages).toEqual(original.messages.map(({ isStreaming, retryNotice, ...msg }) => msg));
+    expect(imported.messages[0].artifacts).toEqual([ARTIFACT]);
+    expect(getMessageImages(imported.messages[0])).toEqual([IMAGE]);
+  });
+
+  it('moves pictures saved beside the text into content parts', () => {
+    const original = branchedConversation();
+    const { content, ...legacy } = original.messages[0];
+    original.messages = [{ ...legacy, images: [IMAGE] } as Message];
+    const [imported] = importConversation(exportConversationJson(original), 'x.json', DEFAULTS).messages;
+
+    expect(imported).not.toHaveProperty('images');
+    expect(imported.content).toEqual([{ type: 'text', text: '这一卦怎么看？' }, { type: 'image', image: IMAGE }]);
+  });
+
+  it('links messages saved before branching into one path', () => {
+    const original = branchedConversation();
+    original.messages = original.messages.slice(0, 2).map(({ parentId, ...msg }) => msg);
+    const imported = importConversation(exportConversationJson(original), 'x.json', DEFAULTS);
+    expect(imported.messages.map(msg => msg.parentId)).toEqual([null, 'u1']);
+  });
+
+  const withMessages = (messages: unknown[]) => JSON.stringify({
+    format: CONVERSATION_EXPORT_FORMAT,
+    version: 1,
+    exportedAt: T0,
+    conversation: { ...branchedConversation(), messages }
+  });
+
+  it.each([
+    ['an unknown role', { id: 'a', parentId: null, role: 'system', text: 'hi', timestamp: T0 }],
+    ['text that is not a string', { id: 'a', parentId: null, role: 'user', text: { value: 'hi' }, timestamp: T0 }],
+    ['a missing id', { parentId: null, role: 'user', text: 'hi', timestamp: T0 }],
+    ['a missing timestamp', { id: 'a', parentId: null, role: 'user', text: 'hi' }]
+  ])('rejects a message with %s', (_, bad) => {
+    expect(() => importConversation(withMessages([bad]), 'x.json', DEFAULTS)).toThrow('第 1 条消息格式不正确');
+  });
+
+  it('rejects a parentId that points to no message', () => {
+    const messages = [
+      { id: 'a', parentId: null, role: 'user', text: 'hi', timestamp: T0 },
+      { id: 'b', parentId: 'gone', role: 'model', text: 'hello', timestamp: T0 + 1 }
+    ];
+    expect(() => importConversation(withMessages(messages), 'x.json', DEFAULTS)).toThrow('不存在的上一条消息');
+  });
+
+  it('rejects files that are not conversation exports', () => {
+    expect(() => importConversation('{ not json', 'x.json', DEFAULTS)).toThrow('不是合法的 JSON');
+    expect(() => importConversation('{"format":"other"}', 'x.json', DEFAULTS)).toThrow('不是本应用导出的会话文件');
+    expect(() => importConversation(JSON.stringify({ format: CONVERSATION_EXPORT_FORMAT, version: 99, conversation: { messages: [] } }), 'x.json', DEFAULTS))
+      .toThrow('版本 99');
+  });
+});
@@ -0,0 +1,232 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Conversation, ConversationSettings, Message, ReasoningMode, Role } from '../types';
+import { DEFAULT_CONVERSATION_TITLE, createConversation, deriveConversationTitle } from './conversationStore';
+import { getMessageImages, getPromptContent, migrateMessageImages } from './messageArtifacts';
+import { findLatestLeaf, migrateLinearMessages } from './messageTree';
+
+// Conversation export and import. JSON is the lossless format (every branch and field);
+// Markdown is the readable one, and imports as a single linear branch: artifacts are written
+// out as the text the model received, and pictures as placeholders that import drops.
+
+export const CONVERSATION_EXPORT_FORMAT = 'deepseek-speciale-conversation';
+export const CONVERSATION_EXPORT_VERSION = 1;
+
+const MODEL_ROLE_LABEL = 'DeepSeek Speciale';
+const REASONING_HEADING = '> **深度思考过程**:';
+const IMAGE_PLACEHOLDER_URL = 'omitted';
+const IMAGE_PLACEHOLDER_PATTERN = /^!\[[^\]]*\]\(omitted\)\s*$/;
+const HEADER_PATTERN = /^### (.+?) \[([^\]]*)\]\s*$/;
+const USAGE_PATTERN = /^> Token Usage: Total (\d+) \(Prompt (\d+), Completion (\d+)\)\s*$/;
+
+// Lines of a message that would read as the layout's own markers (section headers, usage,
+// picture placeholders) get a leading backslash on export and lose one on import; lines that
+// already start with backslashes before such a marker get one more, so every line round-trips.
+const isLayoutLine = (line: string): boolean =>
+  HEADER_PATTERN.test(line) || USAGE_PATTERN.test(line) || IMAGE_PLACEHOLDER_PATTERN.test(line)
+  || line.trim() === REASONING_HEADING;
+
+const escapeLayoutLines = (text: string): string =>
+  text.split('\n').map(line => isLayoutLine(line.replace(/^\\+/, '')) ? `\\${line}` : line).join('\n');
+
+const unescapeLayoutLine = (line: string): string =>
+  line.startsWith('\\') && isLayoutLine(line.replace(/^\\+/, '')) ? line.slice(1) : line;
+
+export interface ConversationExport {
+  format: typeof CONVERSATION_EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  conversation: Conversation;
+}
+
+// Defaults for fields the Markdown layout doesn't carry
+export interface ImportDefaults {
+  mode: ReasoningMode;
+  providerId: string;
+  modelId: string;
+  settings: ConversationSettings;
+}
+
+// Transient UI state is dropped; everything else round-trips
+export const exportConversationJson = (conversation: Conversation): string => {
+  const data: ConversationExport = {
+    format: CONVERSATION_EXPORT_FORMAT,
+    version: CONVERSATION_EXPORT_VERSION,
+    exportedAt: Date.now(),
+    conversation: {
+      ...conversation,
+      messages: conversation.messages.map(({ isStreaming, retryNotice, ...msg }) => msg)
+    }
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+export const exportConversationMarkdown = (messages: Message[]): string =>
+  messages.map(msg => {
+    const role = msg.role === Role.USER ? "User" : MODEL_ROLE_LABEL;
+    const time = new Date(msg.timestamp).toLocaleString('zh-CN');
+    let content = `### ${role} [${time}]\n`;
+    if (msg.usage) {
+      content += `> Token Usage: Total ${msg.usage.total_tokens} (Prompt ${msg.usage.prompt_tokens}, Completion ${msg.usage.completion_tokens})\n`;
+    }
+    if (msg.reasoning) {
+      content += `${REASONING_HEADING}\n> ${escapeLayoutLines(msg.reasoning).replace(/\n/g, '\n> ')}\n\n`;
+    }
+    content += escapeLayoutLines(getPromptContent(msg));
+    const images = getMessageImages(msg);
+    if (images.length > 0) {
+      const placeholders = images.map(image => `![${(image.name || '图片').replace(/[[\]]/g, '')}](${IMAGE_PLACEHOLDER_URL})`);
+      content += `\n\n${placeholders.join('\n')}`;
+    }
+    content += `\n\n---\n\n`;
+    return content;
+  }).join('');
+
+// `toLocaleString('zh-CN')` renders as `2025/3/14 09:26:53`
+const parseExportTime = (value: string): number | undefined => {
+  const match = /(\d{4})\/(\d{1,2})\/(\d{1,2})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?/.exec(value);
+  if (match) {
+    const [, year, month, day, hour, minute, second = '0'] = match;
+    return new Date(+year, +month - 1, +day, +hour, +minute, +second).getTime();
+  }
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+const parseMarkdownSection = (role: Role, time: string, lines: string[], fallbackTime: number): Message => {
+  let index = 0;
+  const message: Message = {
+    id: uuidv4(),
+    role,
+    text: '',
+    timestamp: parseExportTime(time) ?? fallbackTime
+  };
+
+  const usage = USAGE_PATTERN.exec(lines[index] || '');
+  if (usage) {
+    message.usage = { total_tokens: +usage[1], prompt_tokens: +usage[2], completion_tokens: +usage[3] };
+    index++;
+  }
+
+  // The exporter prefixes every reasoning line with "> " and ends the block with a blank line;
+  // blank lines inside the reasoning are written as "> ". Older exports left the first line bare.
+  if (lines[index]?.trim() === REASONING_HEADING) {
+    index++;
+    const reasoningLines: string[] = [];
+    for (; index < lines.length && lines[index] !== ''; index++) {
+      reasoningLines.push(unescapeLayoutLine(lines[index].replace(/^> ?/, '')));
+    }
+    message.reasoning = reasoningLines.join('\n');
+    index++; // Blank line closing the block
+  }
+
+  const body = lines.slice(index);
+  // Each section ends with "\n\n---\n\n"
+  while (body.length > 0 && body[body.length - 1].trim() === '') body.pop();
+  if (body.length > 0 && body[body.length - 1].trim() === '---') body.pop();
+  while (body.length > 0 && body[body.length - 1].trim() === '') body.pop();
+  // Placeholders for pictures the export left out
+  while (body.length > 0 && IMAGE_PLACEHOLDER_PATTERN.test(body[body.length - 1])) body.pop();
+  while (body.length > 0 && body[body.length - 1].trim() === '') body.pop();
+  message.text = body.map(unescapeLayoutLine).join('\n');
+  return message;
+};
+
+// Parses the layout written by exportConversationMarkdown into a linear branch
+export const parseConversationMarkdown = (markdown: string): Message[] => {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const messages: Message[] = [];
+  let current: { role: Role; time: string; lines: string[] } | null = null;
+  const importedAt = Date.now();
+
+  const flush = () => {
+    if (!current) return;
+    const previous = messages[messages.length - 1];
+    const message = parseMarkdownSection(current.role, current.time, current.lines, previous?.timestamp ?? importedAt);
+    message.parentId = previous ? previous.id : null;
+    messages.push(message);
+  };
+
+  for (const line of lines) {
+    const header = HEADER_PATTERN.exec(line);
+    if (header) {
+      flush();
+      current = { role: header[1].trim() === 'User' ? Role.USER : Role.MODEL, time: header[2], lines: [] };
+    } else if (current) {
+      current.lines.push(line);
+    }
+  }
+  flush();
+  return messages;
+};
+
+const isConversationExport = (value: any): value is ConversationExport =>
+  value?.format === CONVERSATION_EXPORT_FORMAT && Array.isArray(value.conversation?.messages);
+
+const ROLES = new Set<string>(Object.values(Role));
+
+// parentId may be absent on conversations exported before branching; the tree is rebuilt linearly
+const isValidMessage = (msg: any): msg is Message =>
+  typeof msg?.id === 'string' &&
+  ROLES.has(msg.role) &&
+  typeof msg.text === 'string' &&
+  typeof msg.timestamp === 'number' &&
+  (msg.parentId === undefined || msg.parentId === null || typeof msg.parentId === 'string');
+
+const importJson = (text: string): Conversation => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new Error('导入失败：文件不是合法的 JSON。');
+  }
+  if (!isConversationExport(parsed)) {
+    throw new Error('导入失败：不是本应用导出的会话文件。');
+  }
+  if (parsed.version > CONVERSATION_EXPORT_VERSION) {
+    throw new Error(`导入失败：文件版本 ${parsed.version} 高于当前支持的版本 ${CONVERSATION_EXPORT_VERSION}，请升级应用。`);
+  }
+
+  const source = parsed.conversation;
+  const invalidIndex = source.messages.findIndex((msg: any) => !isValidMessage(msg));
+  if (invalidIndex >= 0) {
+    throw new Error(`导入失败：第 ${invalidIndex + 1} 条消息格式不正确。`);
+  }
+  const messages = migrateLinearMessages(source.messages.map(migrateMessageImages));
+  const ids = new Set(messages.map(msg => msg.id));
+  const orphan = messages.find(msg => msg.parentId && !ids.has(msg.parentId));
+  if (orphan) {
+    throw new Error('导入失败：消息引用了不存在的上一条消息，文件可能已损坏。');
+  }
+  const hasLeaf = messages.some(msg => msg.id === source.activeLeafId);
+  // Imported copies get their own ID so re-importing never overwrites the original
+  return {
+    ...source,
+    id: uuidv4(),
+    messages,
+    activeLeafId: hasLeaf ? source.activeLeafId : findLatestLeaf(messages, null),
+    updatedAt: Date.now()
+  };
+};
+
+const importMarkdown = (text: string, fileName: string, defaults: ImportDefaults): Conversation => {
+  const messages = parseConversationMarkdown(text);
+  if (messages.length === 0) {
+    throw new Error('导入失败：未找到 "### User [时间]" 格式的消息。');
+  }
+  const base = createConversation(defaults.mode, defaults.providerId, defaults.modelId, defaults.settings);
+  const title = deriveConversationTitle(messages);
+  const baseName = fileName.replace(/\.(md|markdown|txt)$/i, '').trim();
+  return {
+    ...base,
+    title: title === DEFAULT_CONVERSATION_TITLE && baseName ? baseName : title,
+    messages: messages.map(msg => ({ ...msg, mode: defaults.mode })),
+    activeLeafId: messages[messages.length - 1].id,
+    createdAt: messages[0].timestamp
+  };
+};
+
+// Picks the importer from the content rather than the extension
+export const importConversation = (text: string, fileName: string, defaults: ImportDefaults): Conversation =>
+  text.trimStart().startsWith('{')
+    ? importJson(text)
+    : importMarkdown(text, fileName, defaults);
@@ -0,0 +1,164 @@
+import { Conversation, Message, ReasoningMode, Role } from '../types';
+import { getActivePath } from './messageTree';
+import { ModeDefinition, getMode } from './modeRegistry';
+import { resolveSystemPrompt } from './geminiService';
+import { appendReasoningToContent } from './reasoningReplay';
+import { getPromptContent } from './messageArtifacts';
+
+// Turns saved conversations into fine-tuning / evaluation datasets. Each conversation
+// contributes the branch that was on screen; failed or interrupted answers are skipped.
+
+export type DatasetFormat = 'openai-jsonl' | 'sharegpt' | 'csv';
+export type ReasoningPlacement = 'none' | 'think-prefix' | 'field';
+
+export interface DatasetOptions {
+  format: DatasetFormat;
+  reasoning: ReasoningPlacement;
+  includeSystemPrompt: boolean;
+}
+
+export const DATASET_FORMAT_LABELS: Record<DatasetFormat, string> = {
+  'openai-jsonl': 'OpenAI Chat JSONL',
+  sharegpt: 'ShareGPT JSON',
+  csv: 'CSV (问题 / 回答 / 用量)'
+};
+
+export const REASONING_PLACEMENT_LABELS: Record<ReasoningPlacement, string> = {
+  none: '不包含思考过程',
+  'think-prefix': '以 <think> 前缀写入回答',
+  field: '写入单独的 reasoning_content 字段'
+};
+
+const DATASET_FILE_EXTENSIONS: Record<DatasetFormat, string> = {
+  'openai-jsonl': 'jsonl',
+  sharegpt: 'json',
+  csv: 'csv'
+};
+
+const DATASET_MIME_TYPES: Record<DatasetFormat, string> = {
+  'openai-jsonl': 'application/jsonl',
+  sharegpt: 'application/json',
+  csv: 'text/csv'
+};
+
+interface DatasetTurn {
+  prompt: Message;
+  answer: Message;
+}
+
+const isUsableAnswer = (msg: Message) =>
+  msg.role === Role.MODEL && !msg.interrupted && !msg.isStreaming && !!msg.text.trim() && !msg.text.startsWith('Error:');
+
+// Prompt/answer pairs from the active branch; a turn is dropped when its answer failed
+const collectTurns = (conversation: Conversation): DatasetTurn[] => {
+  const path = getActivePath(conversation.messages, conversation.activeLeafId ?? null);
+  const turns: DatasetTurn[] = [];
+  for (let i = 0; i < path.length - 1; i++) {
+    if (path[i].role === Role.USER && isUsableAnswer(path[i + 1])) {
+      turns.push({ prompt: path[i], answer: path[i + 1] });
+      i++;
+    }
+  }
+  return turns;
+};
+
+export const filterConversationsByMode = (conversations: Conversation[], modes: ReasoningMode[]): Conversation[] =>
+  modes.length === 0 ? conversations : conversations.filter(c => modes.includes(c.mode));
+
+export const countDatasetTurns = (conversations: Conversation[]): number =>
+  conversations.reduce((sum, c) => sum + collectTurns(c).length, 0);
+
+const answerContent = (answer: Message, reasoning: ReasoningPlacement) =>
+  reasoning === 'think-prefix' && answer.reasoning?.trim()
+    ? appendReasoningToContent(answer.reasoning, answer.text)
+    : answer.text;
+
+const systemPromptFor = (conversation: Conversation, modes: ModeDefinition[]) =>
+  resolveSystemPrompt(getMode(modes, conversation.mode), conversation.settings.systemPrompt);
+
+const toOpenAiJsonl = (conversations: Conversation[], modes: ModeDefinition[], options: DatasetOptions): string =>
+  conversations
+    .map(conversation => {
+      const turns = collectTurns(conversation);
+      if (turns.length === 0) return null;
+      const messages: Record<string, string>[] = options.includeSystemPrompt
+        ? [{ role: 'system', content: systemPromptFor(conversation, modes) }]
+        : [];
+      for (const { prompt, answer } of turns) {
+        messages.push({ role: 'user', content: getPromptContent(prompt) });
+        messages.push({
+          role: 'assistant',
+          content: answerContent(answer, options.reasoning),
+          ...(options.reasoning === 'field' && answer.reasoning ? { reasoning_content: answer.reasoning } : {})
+        });
+      }
+      return JSON.stringify({ messages });
+    })
+    .filter(Boolean)
+    .join('\n');
+
+const toShareGpt = (conversations: Conversation[], modes: ModeDefinition[], options: DatasetOptions): string => {
+  const records = conversations
+    .map(conversation => {
+      const turns = collectTurns(conversation);
+      if (turns.length === 0) return null;
+      const entries: Record<string, string>[] = options.includeSystemPrompt
+        ? [{ from: 'system', value: systemPromptFor(conversation, modes) }]
+        : [];
+      for (const { prompt, answer } of turns) {
+        entries.push({ from: 'human', value: getPromptContent(prompt) });
+        entries.push({
+          from: 'gpt',
+          value: answerContent(answer, options.reasoning),
+          ...(options.reasoning === 'field' && answer.reasoning ? { reasoning: answer.reasoning } : {})
+        });
+      }
+      return { id: conversation.id, conversations: entries };
+    })
+    .filter(Boolean);
+  return JSON.stringify(records, null, 2);
+};
+
+// RFC 4180: quote every field, double embedded quotes
+const csvField = (value: string | number | undefined) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+
+const toCsv = (conversations: Conversation[], options: DatasetOptions): string => {
+  const header = [
+    'conversation_id', 'title', 'mode', 'model', 'timestamp', 'prompt',
+    ...(options.reasoning !== 'none' ? ['reasoning'] : []),
+    'answer', 'prompt_tokens', 'completion_tokens', 'total_tokens', 'cost_usd'
+  ];
+  const rows = conversations.flatMap(conversation => collectTurns(conversation).map(({ prompt, answer }) => [
+    conversation.id,
+    conversation.title,
+    conversation.mode,
+    conversation.modelId,
+    new Date(answer.timestamp).toISOString(),
+    getPromptContent(prompt),
+    ...(options.reasoning !== 'none' ? [answer.reasoning || ''] : []),
+    answer.text,
+    answer.usage?.prompt_tokens,
+    answer.usage?.completion_tokens,
+    answer.usage?.total_tokens,
+    answer.cost
+  ]));
+  // BOM so spreadsheet apps detect UTF-8 and keep Chinese text intact
+  return '\uFEFF' + [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n');
+};
+
+export const buildDataset = (
+  conversations: Conversation[],
+  modes: ModeDefinition[],
+  options: DatasetOptions
+): { content: string; fileName: string; mimeType: string } => {
+  const content = options.format === 'openai-jsonl'
+    ? toOpenAiJsonl(conversations, modes, options)
+    : options.format === 'sharegpt'
+      ? toShareGpt(conversations, modes, options)
+      : toCsv(conversations, options);
+  return {
+    content,
+    fileName: `deepseek-speciale-dataset-${new Date().toISOString().slice(0, 10)}.${DATASET_FILE_EXTENSIONS[options.format]}`,
+    mimeType: DATASET_MIME_TYPES[options.format]
+  };
+};
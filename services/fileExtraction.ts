@@ -0,0 +1,358 @@
+/// <reference types="vite/client" />
+import { unzipSync, strFromU8 } from 'fflate';
+import { estimateTokens } from './tokenBudget';
+
+// Turns attached files into prompt text in the browser. Office formats are zip archives
+// of XML and are read directly; PDFs go through pdf.js, loaded only when needed.
+
+export type ExtractedKind = 'text' | 'pdf' | 'docx' | 'xlsx' | 'csv' | 'ipynb';
+
+export interface ExtractedFile {
+  name: string;
+  kind?: ExtractedKind;
+  content: string; // Empty when extraction failed
+  chars: number;
+  tokens: number;
+  warning?: string; // Extracted, but something was lost or cut
+  error?: string; // Nothing usable; the file is not sent
+}
+
+const TEXT_EXTENSIONS = [
+  'txt', 'md', 'json', 'py', 'js', 'ts', 'tsx', 'jsx', 'html', 'css', 'xml', 'yaml', 'yml', 'ini', 'conf', 'log',
+  'java', 'c', 'cpp', 'h', 'hpp', 'cs', 'go', 'rs', 'rb', 'php', 'sh', 'sql', 'toml', 'tex'
+];
+const TABLE_EXTENSIONS = ['csv', 'tsv'];
+
+export const ACCEPTED_EXTENSIONS = [...TEXT_EXTENSIONS, ...TABLE_EXTENSIONS, 'pdf', 'docx', 'xlsx', 'ipynb'];
+
+// Formats people commonly try that we can't read, with what to do instead
+const UNSUPPORTED_HINTS: Record<string, string> = {
+  doc: '旧版 Word 格式，请另存为 .docx',
+  xls: '旧版 Excel 格式，请另存为 .xlsx',
+  ppt: '暂不支持演示文稿',
+  pptx: '暂不支持演示文稿',
+  zip: '压缩包需先解压'
+};
+
+const MAX_TABLE_ROWS = 500; // Per sheet or CSV file
+const BINARY_SAMPLE_BYTES = 8192;
+
+const extensionOf = (name: string) => name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+
+// NUL bytes or a high share of control characters mean it isn't text
+const looksBinary = (bytes: Uint8Array): boolean => {
+  const sample = bytes.subarray(0, BINARY_SAMPLE_BYTES);
+  let control = 0;
+  for (const byte of sample) {
+    if (byte === 0) return true;
+    if (byte < 9 || (byte > 13 && byte < 32)) control++;
+  }
+  return sample.length > 0 && control / sample.length > 0.1;
+};
+
+// UTF-8 first; Chinese Windows tools often write GB18030 instead
+const decodeText = (bytes: Uint8Array): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes).replace(/^\uFEFF/, '');
+  } catch (e) {
+    return new TextDecoder('gb18030').decode(bytes);
+  }
+};
+
+// --- Tables ---
+
+const escapeCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>').trim();
+
+export const toMarkdownTable = (rows: string[][]): string => {
+  const width = Math.max(...rows.map(row => row.length));
+  if (rows.length === 0 || width === 0) return '';
+  const padded = rows.map(row => Array.from({ length: width }, (_, i) => escapeCell(row[i] ?? '')));
+  const [header, ...body] = padded;
+  return [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...body.map(row => `| ${row.join(' | ')} |`)
+  ].join('\n');
+};
+
+// RFC 4180 fields: quoted values may hold delimiters, doubled quotes and newlines
+export const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+const guessDelimiter = (text: string, extension: string): string => {
+  if (extension === 'tsv') return '\t';
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const counts = [',', '\t', ';'].map(d => [d, firstLine.split(d).length] as const);
+  return counts.reduce((best, current) => current[1] > best[1] ? current : best)[0];
+};
+
+const limitRows = (rows: string[][], label: string): { rows: string[][]; warning?: string } =>
+  rows.length > MAX_TABLE_ROWS + 1
+    ? { rows: rows.slice(0, MAX_TABLE_ROWS + 1), warning: `${label}共 ${rows.length - 1} 行，仅保留前 ${MAX_TABLE_ROWS} 行` }
+    : { rows };
+
+const extractCsv = (bytes: Uint8Array, extension: string) => {
+  const text = decodeText(bytes);
+  const limited = limitRows(parseDelimited(text, guessDelimiter(text, extension)), '表格');
+  return { content: toMarkdownTable(limited.rows), warning: limited.warning };
+};
+
+// --- Office Open XML ---
+
+const parseXml = (bytes: Uint8Array): Document => new DOMParser().parseFromString(strFromU8(bytes), 'application/xml');
+
+const childElements = (node: Element, localName?: string): Element[] =>
+  Array.from(node.children).filter(child => !localName || child.localName === localName);
+
+const descendants = (node: Element | Document, localName: string): Element[] =>
+  Array.from(node.getElementsByTagNameNS('*', localName));
+
+const docxParagraphText = (paragraph: Element): string => {
+  let text = '';
+  const walk = (node: Element) => {
+    for (const child of childElements(node)) {
+      if (child.localName === 't') text += child.textContent || '';
+      else if (child.localName === 'tab') text += '\t';
+      else if (child.localName === 'br' || child.localName === 'cr') text += '\n';
+      else if (child.localName !== 'pPr' && child.localName !== 'rPr') walk(child);
+    }
+  };
+  walk(paragraph);
+  return text;
+};
+
+const docxParagraph = (paragraph: Element): string => {
+  const text = docxParagraphText(paragraph);
+  if (!text.trim()) return '';
+  const style = descendants(paragraph, 'pStyle')[0]?.getAttribute('w:val') || '';
+  const heading = /^(?:Heading|标题)\s*(\d)$/i.exec(style);
+  if (heading) return `${'#'.repeat(Math.min(Number(heading[1]), 6))} ${text.trim()}`;
+  if (style === 'Title') return `# ${text.trim()}`;
+  if (descendants(paragraph, 'numPr').length > 0) return `- ${text.trim()}`;
+  return text;
+};
+
+const docxTable = (table: Element): string =>
+  toMarkdownTable(childElements(table, 'tr').map(row =>
+    childElements(row, 'tc').map(cell => childElements(cell, 'p').map(docxParagraphText).join(' '))));
+
+const extractDocx = (bytes: Uint8Array) => {
+  const files = unzipSync(bytes, { filter: file => file.name === 'word/document.xml' });
+  const documentXml = files['word/document.xml'];
+  if (!documentXml) throw new Error('不是有效的 .docx 文件');
+  const body = descendants(parseXml(documentXml), 'body')[0];
+  if (!body) throw new Error('文档内容为空');
+  const blocks = childElements(body).map(block =>
+    block.localName === 'p' ? docxParagraph(block) : block.localName === 'tbl' ? docxTable(block) : '');
+  const hasImages = descendants(body, 'drawing').length > 0;
+  return {
+    content: blocks.filter(Boolean).join('\n\n'),
+    warning: hasImages ? '文档中的图片未包含' : undefined
+  };
+};
+
+// "AB12" → 27 (zero-based column index)
+const columnIndex = (reference: string): number =>
+  [...reference.replace(/\d+$/, '')].reduce((sum, letter) => sum * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+const extractXlsx = (bytes: Uint8Array) => {
+  const files = unzipSync(bytes, { filter: file => file.name.startsWith('xl/') && (file.name.endsWith('.xml') || file.name.endsWith('.rels')) });
+  if (!files['xl/workbook.xml']) throw new Error('不是有效的 .xlsx 文件');
+
+  const sharedStrings = files['xl/sharedStrings.xml']
+    ? descendants(parseXml(files['xl/sharedStrings.xml']), 'si').map(item => descendants(item, 't').map(t => t.textContent || '').join(''))
+    : [];
+  const relationships = files['xl/_rels/workbook.xml.rels']
+    ? new Map(descendants(parseXml(files['xl/_rels/workbook.xml.rels']), 'Relationship')
+      .map(rel => [rel.getAttribute('Id'), rel.getAttribute('Target') || ''] as const))
+    : new Map<string | null, string>();
+
+  const warnings: string[] = [];
+  const sections = descendants(parseXml(files['xl/workbook.xml']), 'sheet').map(sheet => {
+    const name = sheet.getAttribute('name') || 'Sheet';
+    const target = relationships.get(sheet.getAttribute('r:id')) || '';
+    const path = target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+    const sheetXml = files[path];
+    if (!sheetXml) return `## ${name}\n\n(无法读取)`;
+
+    const rows = descendants(parseXml(sheetXml), 'row').map(row => {
+      const cells: string[] = [];
+      childElements(row, 'c').forEach((cell, position) => {
+        const reference = cell.getAttribute('r');
+        const index = reference ? columnIndex(reference) : position;
+        const type = cell.getAttribute('t');
+        const value = childElements(cell, 'v')[0]?.textContent ?? '';
+        cells[index] = type === 's' ? sharedStrings[Number(value)] ?? ''
+          : type === 'inlineStr' ? descendants(cell, 't').map(t => t.textContent || '').join('')
+          : type === 'b' ? (value === '1' ? 'TRUE' : 'FALSE')
+          : value;
+      });
+      return Array.from(cells, cell => cell ?? '');
+    }).filter(row => row.some(cell => cell.trim()));
+
+    if (rows.length === 0) return `## ${name}\n\n(空表)`;
+    const limited = limitRows(rows, `工作表「${name}」`);
+    if (limited.warning) warnings.push(limited.warning);
+    return `## ${name}\n\n${toMarkdownTable(limited.rows)}`;
+  });
+
+  return { content: sections.join('\n\n'), warning: warnings.join('；') || undefined };
+};
+
+// --- Notebooks ---
+
+const joinSource = (source: string | string[] | undefined) => Array.isArray(source) ? source.join('') : source || '';
+
+const extractNotebook = (bytes: Uint8Array) => {
+  const notebook = JSON.parse(decodeText(bytes));
+  if (!Array.isArray(notebook.cells)) throw new Error('不是有效的 Jupyter Notebook');
+  const language = notebook.metadata?.kernelspec?.language || notebook.metadata?.language_info?.name || '';
+  let omittedImages = 0;
+
+  const parts = notebook.cells.map((cell: any, index: number) => {
+    const source = joinSource(cell.source).trimEnd();
+    if (cell.cell_type === 'markdown') return source;
+    if (cell.cell_type !== 'code') return source ? `\`\`\`\n${source}\n\`\`\`` : '';
+
+    const outputs = (cell.outputs || []).map((output: any) => {
+      if (output.output_type === 'stream') return joinSource(output.text);
+      if (output.output_type === 'error') return `${output.ename}: ${output.evalue}`;
+      const data = output.data || {};
+      if (Object.keys(data).some(type => type.startsWith('image/'))) omittedImages++;
+      return joinSource(data['text/plain']);
+    }).map((text: string) => text.trimEnd()).filter(Boolean);
+
+    return [
+      `**In [${cell.execution_count ?? ' '}]** (单元格 ${index + 1})`,
+      `\`\`\`${language}\n${source}\n\`\`\``,
+      ...(outputs.length > 0 ? ['输出：', `\`\`\`\n${outputs.join('\n')}\n\`\`\``] : [])
+    ].join('\n');
+  });
+
+  return {
+    content: parts.filter(Boolean).join('\n\n'),
+    warning: omittedImages > 0 ? `${omittedImages} 个图片输出未包含` : undefined
+  };
+};
+
+// --- PDF ---
+
+const extractPdf = async (bytes: Uint8Array) => {
+  const [pdfjs, worker] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+
+  const pdf = await pdfjs.getDocument({ data: bytes }).promise;
+  const pages: string[] = [];
+  let emptyPages = 0;
+  try {
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const textContent = await page.getTextContent();
+      const text = textContent.items
+        .map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '')
+        .join('')
+        .replace(/[ \t]+\n/g, '\n')
+        .trim();
+      if (!text) emptyPages++;
+      pages.push(`--- 第 ${number} 页 ---\n${text}`);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  if (emptyPages === pages.length) throw new Error('未找到文本层，可能是扫描版 PDF');
+  return {
+    content: pages.join('\n\n'),
+    warning: emptyPages > 0 ? `${emptyPages} 页没有文本层（可能是扫描页），已跳过` : undefined
+  };
+};
+
+const readBytes = (file: File): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(new Uint8Array(e.target?.result as ArrayBuffer));
+    reader.onerror = (e) => reject(e);
+    reader.readAsArrayBuffer(file);
+  });
+
+const kindOf = (extension: string): ExtractedKind | null => {
+  if (extension === 'pdf' || extension === 'docx' || extension === 'xlsx' || extension === 'ipynb') return extension;
+  if (TABLE_EXTENSIONS.includes(extension)) return 'csv';
+  if (TEXT_EXTENSIONS.includes(extension) || extension === '') return 'text';
+  return null;
+};
+
+const failed = (name: string, error: string, kind?: ExtractedKind): ExtractedFile =>
+  ({ name, kind, content: '', chars: 0, tokens: 0, error });
+
+export const extractFile = async (file: File): Promise<ExtractedFile> => {
+  const extension = extensionOf(file.name);
+  const kind = kindOf(extension);
+  if (!kind) {
+    return failed(file.name, UNSUPPORTED_HINTS[extension] || `不支持的文件类型${extension ? ` .${extension}` : ''}`);
+  }
+
+  try {
+    const bytes = await readBytes(file);
+    let result: { content: string; warning?: string };
+    switch (kind) {
+      case 'pdf': result = await extractPdf(bytes); break;
+      case 'docx': result = extractDocx(bytes); break;
+      case 'xlsx': result = extractXlsx(bytes); break;
+      case 'csv': result = extractCsv(bytes, extension); break;
+      case 'ipynb': result = extractNotebook(bytes); break;
+      default:
+        if (looksBinary(bytes)) return failed(file.name, '看起来是二进制文件，无法作为文本读取', kind);
+        result = { content: decodeText(bytes) };
+    }
+    if (!result.content.trim()) return failed(file.name, '没有可提取的文本', kind);
+    return {
+      name: file.name,
+      kind,
+      content: result.content,
+      chars: result.content.length,
+      tokens: estimateTokens(result.content),
+      ...(result.warning ? { warning: result.warning } : {})
+    };
+  } catch (e: any) {
+    return failed(file.name, `解析失败：${e?.message || e}`, kind);
+  }
+};
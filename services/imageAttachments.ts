@@ -0,0 +1,67 @@
+import { ImageAttachment } from '../types';
+
+// Pictures are downscaled in the browser before they are stored or sent: phone photos
+// run to several megabytes, and vision models resize anything larger than this anyway.
+
+export const MAX_IMAGES_PER_MESSAGE = 6;
+
+const MAX_EDGE = 1568; // Longest side, in pixels
+const PASSTHROUGH_BYTES = 1.5 * 1024 * 1024; // Small images in a supported format are kept as is
+const JPEG_QUALITY = 0.85;
+const SUPPORTED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+export const isImageFile = (file: File): boolean =>
+  file.type.startsWith('image/') || /\.(jpe?g|png|webp|gif|bmp|heic|heif)$/i.test(file.name);
+
+const readAsDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const prepareImage = async (file: File): Promise<ImageAttachment> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch (e) {
+    throw new Error(`无法读取图片 ${file.name || ''}，浏览器不支持该格式`.trim());
+  }
+
+  try {
+    const { width, height } = bitmap;
+    const scale = Math.min(1, MAX_EDGE / Math.max(width, height));
+    const name = file.name || undefined;
+
+    if (scale === 1 && file.size <= PASSTHROUGH_BYTES && SUPPORTED_TYPES.includes(file.type)) {
+      return { dataUrl: await readAsDataUrl(file), mimeType: file.type, width, height, ...(name ? { name } : {}) };
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('浏览器不支持 Canvas，无法处理图片');
+    // JPEG has no alpha; paint transparent areas white rather than black
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    return {
+      dataUrl: canvas.toDataURL('image/jpeg', JPEG_QUALITY),
+      mimeType: 'image/jpeg',
+      width: canvas.width,
+      height: canvas.height,
+      ...(name ? { name } : {})
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Decoded size of a data URL, for display
+export const getDataUrlBytes = (dataUrl: string): number => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  return Math.floor(base64.length * 3 / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+};
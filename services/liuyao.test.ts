@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { HexagramCast } from '../types';
+import { computeLiuyao } from './liuyao';
+
+// Cast on 2024-02-04 12:00, a 戊戌 day: 六神 start from 勾陈 and 旬空 is 辰巳
+const cast = (lines: HexagramCast['lines']): HexagramCast =>
+  ({ lines, method: 'manual', date: '2024-02-04', time: '12:00', timeZone: 'Asia/Shanghai' });
+
+interface Fixture {
+  lines: HexagramCast['lines']; // Bottom to top: 7 少阳, 8 少阴, 9 老阳, 6 老阴
+  name: string;
+  palace: string;
+  generation: string;
+  shi: number;
+  ying: number;
+  najia: string; // Bottom to top, 六亲 then 纳甲 as in the classical tables
+  changed: { name: string; position: number; line: string };
+}
+
+// One hexagram from each palace, each with one moving line
+const FIXTURES: Fixture[] = [
+  {
+    lines: [6, 7, 7, 7, 7, 7], name: '天风姤', palace: '乾宫', generation: '一世', shi: 1, ying: 4,
+    najia: '父母辛丑 子孙辛亥 兄弟辛酉 官鬼壬午 兄弟壬申 父母壬戌',
+    changed: { name: '乾为天', position: 1, line: '子孙甲子' }
+  },
+  {
+    lines: [7, 8, 7, 8, 7, 6], name: '水火既济', palace: '坎宫', generation: '三世', shi: 3, ying: 6,
+    najia: '子孙己卯 官鬼己丑 兄弟己亥 父母戊申 官鬼戊戌 兄弟戊子',
+    changed: { name: '风火家人', position: 6, line: '子孙辛卯' }
+  },
+  {
+    lines: [7, 6, 7, 8, 8, 7], name: '山火贲', palace: '艮宫', generation: '一世', shi: 1, ying: 4,
+    najia: '官鬼己卯 兄弟己丑 妻财己亥 兄弟丙戌 妻财丙子 官鬼丙寅',
+    changed: { name: '山天大畜', position: 2, line: '官鬼甲寅' }
+  },
+  {
+    lines: [8, 8, 8, 9, 8, 8], name: '雷地豫', palace: '震宫', generation: '一世', shi: 1, ying: 4,
+    najia: '妻财乙未 子孙乙巳 兄弟乙卯 子孙庚午 官鬼庚申 妻财庚戌',
+    changed: { name: '坤为地', position: 4, line: '妻财癸丑' }
+  },
+  {
+    lines: [7, 7, 7, 8, 9, 7], name: '风天小畜', palace: '巽宫', generation: '一世', shi: 1, ying: 4,
+    najia: '父母甲子 兄弟甲寅 妻财甲辰 妻财辛未 子孙辛巳 兄弟辛卯',
+    changed: { name: '山天大畜', position: 5, line: '父母丙子' }
+  },
+  {
+    lines: [8, 8, 9, 7, 8, 7], name: '火山旅', palace: '离宫', generation: '一世', shi: 1, ying: 4,
+    najia: '子孙丙辰 兄弟丙午 妻财丙申 妻财己酉 子孙己未 兄弟己巳',
+    changed: { name: '火地晋', position: 3, line: '父母乙卯' }
+  },
+  {
+    lines: [9, 8, 8, 8, 8, 8], name: '地雷复', palace: '坤宫', generation: '一世', shi: 1, ying: 4,
+    najia: '妻财庚子 官鬼庚寅 兄弟庚辰 兄弟癸丑 妻财癸亥 子孙癸酉',
+    changed: { name: '坤为地', position: 1, line: '兄弟乙未' }
+  },
+  {
+    lines: [8, 9, 8, 7, 7, 8], name: '泽水困', palace: '兑宫', generation: '一世', shi: 1, ying: 4,
+    najia: '妻财戊寅 父母戊辰 官鬼戊午 子孙丁亥 兄弟丁酉 父母丁未',
+    changed: { name: '泽地萃', position: 2, line: '官鬼乙巳' }
+  }
+];
+
+describe('computeLiuyao', () => {
+  it.each(FIXTURES)('$palace $name', fixture => {
+    const chart = computeLiuyao(cast(fixture.lines));
+    expect(chart.primary).toMatchObject({ name: fixture.name, palace: fixture.palace, generation: fixture.generation });
+    expect(chart.lines.map(line => line.relative + line.najia).join(' ')).toBe(fixture.najia);
+    expect(Object.fromEntries(chart.lines.filter(line => line.marker).map(line => [line.marker, line.position])))
+      .toEqual({ 世: fixture.shi, 应: fixture.ying });
+
+    expect(chart.changed?.name).toBe(fixture.changed.name);
+    const moving = chart.lines.filter(line => line.isMoving);
+    expect(moving.map(line => line.position)).toEqual([fixture.changed.position]);
+    expect(moving[0].changed!.relative + moving[0].changed!.najia).toBe(fixture.changed.line);
+  });
+
+  it.each([
+    [[7, 7, 7, 7, 7, 7], '乾为天', '本宫', 6, 3],
+    [[8, 8, 8, 7, 8, 7], '火地晋', '游魂', 4, 1],
+    [[7, 7, 7, 7, 8, 7], '火天大有', '归魂', 3, 6]
+  ] as [HexagramCast['lines'], string, string, number, number][])('places 世 and 应 in %s', (lines, name, generation, shi, ying) => {
+    const chart = computeLiuyao(cast(lines));
+    expect(chart.primary).toMatchObject({ name, palace: '乾宫', generation });
+    expect(chart.lines.find(line => line.marker === '世')?.position).toBe(shi);
+    expect(chart.lines.find(line => line.marker === '应')?.position).toBe(ying);
+    expect(chart.changed).toBeUndefined();
+  });
+
+  it('judges changed lines against the primary palace', () => {
+    // 天风姤 (乾宫, 金) → 乾为天: 甲子 水 is 子孙 to 金
+    const chart = computeLiuyao(cast([6, 7, 7, 7, 7, 7]));
+    expect(chart.primary.palaceElement).toBe('金');
+    expect(chart.lines[0].changed).toEqual({ isYang: true, najia: '甲子', element: '水', relative: '子孙' });
+  });
+
+  it('takes 六神 and 旬空 from the casting day', () => {
+    const chart = computeLiuyao(cast([7, 7, 7, 7, 7, 7]));
+    expect(chart.pillars[2]).toBe('戊戌');
+    expect(chart.voidBranches).toBe('辰巳');
+    expect(chart.lines.map(line => line.spirit)).toEqual(['勾陈', '螣蛇', '白虎', '玄武', '青龙', '朱雀']);
+  });
+
+  it('rejects a cast that is not six lines of 6–9', () => {
+    expect(() => computeLiuyao(cast([7, 7, 7] as HexagramCast['lines']))).toThrow('需要六个爻');
+    expect(() => computeLiuyao(cast([7, 7, 7, 7, 7, 5 as any]))).toThrow('需要六个爻');
+  });
+});
@@ -0,0 +1,218 @@
+import { HexagramCast } from '../types';
+import {
+  EARTHLY_BRANCHES, FIVE_ELEMENTS, HEAVENLY_STEMS, formatGanzhi, getBranchElement, getGanzhiPillars, getVoidBranches
+} from './bazi';
+import { parseWallTime, zonedTimeToUtc } from './zonedTime';
+
+// Liu Yao (六爻) layout by the Na Jia (纳甲) method: 八宫 palace and 世/应 from the
+// hexagram's place in its palace, stems and branches from each trigram, 六亲 against the
+// palace element and 六神 from the casting day's stem.
+
+export type LineValue = HexagramCast['lines'][number];
+
+export const LINE_NAMES = ['初爻', '二爻', '三爻', '四爻', '五爻', '上爻'];
+export const LINE_VALUE_LABELS: Record<LineValue, string> = { 6: '老阴', 7: '少阳', 8: '少阴', 9: '老阳' };
+
+const TRIGRAM_NAMES = ['乾', '兑', '离', '震', '巽', '坎', '艮', '坤'];
+// [bottom, middle, top], 1 = yang
+const TRIGRAM_LINES = [[1, 1, 1], [1, 1, 0], [1, 0, 1], [1, 0, 0], [0, 1, 1], [0, 1, 0], [0, 0, 1], [0, 0, 0]];
+// Index into FIVE_ELEMENTS
+const TRIGRAM_ELEMENTS = [3, 3, 1, 0, 0, 4, 2, 2];
+// [inner stem, inner branches, outer stem, outer branches], bottom to top
+const NAJIA: [number, number[], number, number[]][] = [
+  [0, [0, 2, 4], 8, [6, 8, 10]], // 乾：甲子寅辰，壬午申戌
+  [3, [5, 3, 1], 3, [11, 9, 7]], // 兑：丁巳卯丑，丁亥酉未
+  [5, [3, 1, 11], 5, [9, 7, 5]], // 离：己卯丑亥，己酉未巳
+  [6, [0, 2, 4], 6, [6, 8, 10]], // 震：庚子寅辰，庚午申戌
+  [7, [1, 11, 9], 7, [7, 5, 3]], // 巽：辛丑亥酉，辛未巳卯
+  [4, [2, 4, 6], 4, [8, 10, 0]], // 坎：戊寅辰午，戊申戌子
+  [2, [4, 6, 8], 2, [10, 0, 2]], // 艮：丙辰午申，丙戌子寅
+  [1, [7, 5, 3], 9, [1, 11, 9]] // 坤：乙未巳卯，癸丑亥酉
+];
+
+// By [upper][lower] trigram
+const HEXAGRAM_NAMES = [
+  ['乾为天', '天泽履', '天火同人', '天雷无妄', '天风姤', '天水讼', '天山遁', '天地否'],
+  ['泽天夬', '兑为泽', '泽火革', '泽雷随', '泽风大过', '泽水困', '泽山咸', '泽地萃'],
+  ['火天大有', '火泽睽', '离为火', '火雷噬嗑', '火风鼎', '火水未济', '火山旅', '火地晋'],
+  ['雷天大壮', '雷泽归妹', '雷火丰', '震为雷', '雷风恒', '雷水解', '雷山小过', '雷地豫'],
+  ['风天小畜', '风泽中孚', '风火家人', '风雷益', '巽为风', '风水涣', '风山渐', '风地观'],
+  ['水天需', '水泽节', '水火既济', '水雷屯', '水风井', '坎为水', '水山蹇', '水地比'],
+  ['山天大畜', '山泽损', '山火贲', '山雷颐', '山风蛊', '山水蒙', '艮为山', '山地剥'],
+  ['地天泰', '地泽临', '地火明夷', '地雷复', '地风升', '地水师', '地山谦', '坤为地']
+];
+
+// Each palace's eight hexagrams flip these lines (0 = bottom) of the pure hexagram; 世 sits on `shi`
+const GENERATIONS: { name: string; shi: number; flips: number[] }[] = [
+  { name: '本宫', shi: 6, flips: [] },
+  { name: '一世', shi: 1, flips: [0] },
+  { name: '二世', shi: 2, flips: [0, 1] },
+  { name: '三世', shi: 3, flips: [0, 1, 2] },
+  { name: '四世', shi: 4, flips: [0, 1, 2, 3] },
+  { name: '五世', shi: 5, flips: [0, 1, 2, 3, 4] },
+  { name: '游魂', shi: 4, flips: [0, 1, 2, 4] },
+  { name: '归魂', shi: 3, flips: [4] }
+];
+
+// Relation of a line's element to the palace element, as steps along 木→火→土→金→水
+const RELATIVES = ['兄弟', '子孙', '妻财', '官鬼', '父母'];
+const SPIRITS = ['青龙', '朱雀', '勾陈', '螣蛇', '白虎', '玄武'];
+// First (bottom) spirit by day stem: 甲乙青龙，丙丁朱雀，戊勾陈，己螣蛇，庚辛白虎，壬癸玄武
+const SPIRIT_START = [0, 0, 1, 1, 2, 3, 4, 4, 5, 5];
+
+const PALACES = new Map<string, { palace: number; generation: typeof GENERATIONS[number] }>();
+TRIGRAM_LINES.forEach((trigram, palace) => {
+  for (const generation of GENERATIONS) {
+    const lines = [...trigram, ...trigram].map((bit, i) => generation.flips.includes(i) ? 1 - bit : bit);
+    PALACES.set(lines.join(''), { palace, generation });
+  }
+});
+
+export interface YaoLine {
+  position: number; // 1 (初爻) – 6 (上爻)
+  value: LineValue;
+  isYang: boolean;
+  isMoving: boolean;
+  najia: string; // e.g. 甲子
+  element: string;
+  relative: string; // 六亲
+  spirit: string; // 六神
+  marker?: '世' | '应';
+  changed?: { isYang: boolean; najia: string; element: string; relative: string }; // Moving lines only
+}
+
+export interface HexagramInfo {
+  name: string;
+  upper: string;
+  lower: string;
+  palace: string; // e.g. 乾宫
+  palaceElement: string;
+  generation: string; // 本宫, 一世 … 游魂, 归魂
+}
+
+export interface LiuyaoChart {
+  cast: HexagramCast;
+  castTime: string; // YYYY-MM-DD HH:mm
+  pillars: string[]; // Year, month, day and hour stem-branches of the casting time
+  voidBranches: string; // 旬空 of the casting day
+  primary: HexagramInfo;
+  changed?: HexagramInfo; // Only when some line moves
+  lines: YaoLine[]; // Bottom to top
+}
+
+const mod = (n: number, m: number) => ((n % m) + m) % m;
+
+const trigramIndex = (bits: number[]) => TRIGRAM_LINES.findIndex(t => t.every((bit, i) => bit === bits[i]));
+
+const describeHexagram = (bits: number[]): HexagramInfo & { palaceIndex: number; shi: number } => {
+  const lower = trigramIndex(bits.slice(0, 3));
+  const upper = trigramIndex(bits.slice(3));
+  const { palace, generation } = PALACES.get(bits.join(''))!;
+  return {
+    name: HEXAGRAM_NAMES[upper][lower],
+    upper: TRIGRAM_NAMES[upper],
+    lower: TRIGRAM_NAMES[lower],
+    palace: `${TRIGRAM_NAMES[palace]}宫`,
+    palaceElement: FIVE_ELEMENTS[TRIGRAM_ELEMENTS[palace]],
+    generation: generation.name,
+    palaceIndex: palace,
+    shi: generation.shi
+  };
+};
+
+// Stem-branch of each line, bottom to top
+const assignNajia = (bits: number[]) => {
+  const [innerStem, innerBranches] = NAJIA[trigramIndex(bits.slice(0, 3))];
+  const [, , outerStem, outerBranches] = NAJIA[trigramIndex(bits.slice(3))];
+  return [
+    ...innerBranches.map(branch => ({ stem: innerStem, branch })),
+    ...outerBranches.map(branch => ({ stem: outerStem, branch }))
+  ];
+};
+
+const relativeOf = (branch: number, palaceIndex: number) =>
+  RELATIVES[mod(getBranchElement(branch) - TRIGRAM_ELEMENTS[palaceIndex], 5)];
+
+// One line by three coins: 背 counts 3 and 字 counts 2, so the sum is 6–9
+export const tossCoins = (): { coins: boolean[]; value: LineValue } => {
+  const random = crypto.getRandomValues(new Uint8Array(3));
+  const coins = Array.from(random, byte => (byte & 1) === 1); // true = 背
+  return { coins, value: coins.reduce((sum, back) => sum + (back ? 3 : 2), 0) as LineValue };
+};
+
+export const computeLiuyao = (cast: HexagramCast): LiuyaoChart => {
+  if (cast.lines.length !== 6 || cast.lines.some(value => ![6, 7, 8, 9].includes(value))) {
+    throw new Error('需要六个爻，每爻为 6、7、8 或 9。');
+  }
+  const wall = parseWallTime(cast.date, cast.time);
+  if (wall.year < 1800 || wall.year > 2150) throw new Error('仅支持 1800–2150 年之间的起卦时间。');
+  const pillars = getGanzhiPillars(zonedTimeToUtc(wall, cast.timeZone), wall);
+  const day = pillars[2];
+
+  const primaryBits = cast.lines.map(value => value % 2); // 7 and 9 are yang
+  const changedBits = cast.lines.map(value => (value === 6 ? 1 : value === 9 ? 0 : value % 2));
+  const hasMoving = cast.lines.some(value => value === 6 || value === 9);
+
+  const primary = describeHexagram(primaryBits);
+  const changed = hasMoving ? describeHexagram(changedBits) : undefined;
+  const primaryNajia = assignNajia(primaryBits);
+  const changedNajia = assignNajia(changedBits);
+  const ying = mod(primary.shi + 2, 6) + 1;
+
+  const lines: YaoLine[] = cast.lines.map((value, i) => {
+    const { stem, branch } = primaryNajia[i];
+    const isMoving = value === 6 || value === 9;
+    const changedLine = changedNajia[i];
+    return {
+      position: i + 1,
+      value,
+      isYang: primaryBits[i] === 1,
+      isMoving,
+      najia: HEAVENLY_STEMS[stem] + EARTHLY_BRANCHES[branch],
+      element: FIVE_ELEMENTS[getBranchElement(branch)],
+      relative: relativeOf(branch, primary.palaceIndex),
+      spirit: SPIRITS[(SPIRIT_START[day.stem] + i) % 6],
+      ...(i + 1 === primary.shi ? { marker: '世' as const } : i + 1 === ying ? { marker: '应' as const } : {}),
+      ...(isMoving ? {
+        changed: {
+          isYang: changedBits[i] === 1,
+          najia: HEAVENLY_STEMS[changedLine.stem] + EARTHLY_BRANCHES[changedLine.branch],
+          element: FIVE_ELEMENTS[getBranchElement(changedLine.branch)],
+          relative: relativeOf(changedLine.branch, primary.palaceIndex) // Judged against the primary palace
+        }
+      } : {})
+    };
+  });
+
+  const strip = ({ palaceIndex, shi, ...info }: ReturnType<typeof describeHexagram>): HexagramInfo => info;
+  return {
+    cast,
+    castTime: `${cast.date} ${cast.time}`,
+    pillars: pillars.map(formatGanzhi),
+    voidBranches: getVoidBranches(day).map(branch => EARTHLY_BRANCHES[branch]).join(''),
+    primary: strip(primary),
+    ...(changed ? { changed: strip(changed) } : {}),
+    lines
+  };
+};
+
+// Plain-text layout sent with the prompt, top line first as it is usually written
+export const formatLiuyaoContext = (chart: LiuyaoChart): string => {
+  const { primary, changed } = chart;
+  const moving = chart.lines.filter(line => line.isMoving).map(line => LINE_NAMES[line.position - 1]);
+  const lineText = [...chart.lines].reverse().map(line => {
+    const symbol = `${line.isYang ? '⚊' : '⚋'}${line.value === 9 ? '○' : line.value === 6 ? '×' : ''}`;
+    const changedText = line.changed ? ` → ${line.changed.isYang ? '⚊' : '⚋'} ${line.changed.relative}${line.changed.najia}${line.changed.element}` : '';
+    return `${LINE_NAMES[line.position - 1]}：${line.spirit}　${line.relative}${line.najia}${line.element}　${symbol}${line.marker ? `　${line.marker}` : ''}${changedText}`;
+  });
+  return [
+    '【本地装卦结果（程序按纳甲法排出，已校验）】请直接采用以下卦象与装卦，不要重新起卦或另行装卦。',
+    `起卦：${chart.cast.method === 'coins' ? '三枚铜钱摇卦' : '手动录入'}，${chart.castTime}（${chart.cast.timeZone}）`,
+    `干支：${chart.pillars[0]}年 ${chart.pillars[1]}月 ${chart.pillars[2]}日 ${chart.pillars[3]}时（旬空 ${chart.voidBranches}）`,
+    `本卦：${primary.name}（${primary.palace}${primary.generation}，五行属${primary.palaceElement}）`,
+    changed ? `变卦：${changed.name}（${changed.palace}${changed.generation}）` : '变卦：无（六爻安静）',
+    `动爻：${moving.length > 0 ? moving.join('、') : '无'}`,
+    '六神　六亲纳甲　爻象（○ 老阳动，× 老阴动）　世应 → 变爻',
+    ...lineText
+  ].join('\n');
+};
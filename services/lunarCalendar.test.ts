@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { formatLunarDate, getLunarMonths, lunarToSolar, solarToLunar } from './lunarCalendar';
+
+// Dates from the Purple Mountain Observatory almanac
+const FIXTURES: [string, { year: number; month: number; day: number; isLeap: boolean }][] = [
+  ['2023-01-22', { year: 2023, month: 1, day: 1, isLeap: false }], // 癸卯 春节
+  ['2023-03-21', { year: 2023, month: 2, day: 30, isLeap: false }],
+  ['2023-03-22', { year: 2023, month: 2, day: 1, isLeap: true }], // 闰二月初一
+  ['2023-04-19', { year: 2023, month: 2, day: 29, isLeap: true }],
+  ['2023-04-20', { year: 2023, month: 3, day: 1, isLeap: false }],
+  ['2024-02-10', { year: 2024, month: 1, day: 1, isLeap: false }], // 甲辰 春节
+  ['2020-05-23', { year: 2020, month: 4, day: 1, isLeap: true }], // 闰四月初一
+  ['2033-12-22', { year: 2033, month: 11, day: 1, isLeap: true }], // The 2033 problem: 闰十一月, not 闰七月
+  ['2000-01-01', { year: 1999, month: 11, day: 25, isLeap: false }] // Still the previous lunar year
+];
+
+const parse = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return { year, month, day };
+};
+
+describe('solarToLunar and lunarToSolar', () => {
+  it.each(FIXTURES)('%s', (date, lunar) => {
+    expect(solarToLunar(parse(date))).toEqual(lunar);
+    expect(lunarToSolar(lunar)).toEqual(parse(date));
+  });
+
+  it('rejects a leap month the year does not have, and a 30th day of a short month', () => {
+    expect(() => lunarToSolar({ year: 2024, month: 2, day: 1, isLeap: true })).toThrow('没有闰二月');
+    expect(() => lunarToSolar({ year: 2023, month: 2, day: 30, isLeap: true })).toThrow('只有 29 天');
+  });
+});
+
+describe('getLunarMonths', () => {
+  it('lists 2023 with 闰二月 after 二月', () => {
+    expect(getLunarMonths(2023).map(m => `${m.isLeap ? '闰' : ''}${m.month}/${m.length}`)).toEqual([
+      '1/29', '2/30', '闰2/29', '3/29', '4/30', '5/30', '6/29', '7/30', '8/30', '9/29', '10/30', '11/29', '12/30'
+    ]);
+  });
+
+  it('gives a year without a leap month twelve months', () => {
+    expect(getLunarMonths(2024).filter(m => m.isLeap)).toEqual([]);
+    expect(getLunarMonths(2024)).toHaveLength(12);
+  });
+});
+
+describe('formatLunarDate', () => {
+  it('names the year, zodiac, month and day', () => {
+    expect(formatLunarDate({ year: 2023, month: 2, day: 1, isLeap: true })).toBe('癸卯年(兔) 闰二月初一');
+    expect(formatLunarDate({ year: 2024, month: 12, day: 30, isLeap: false })).toBe('甲辰年(龙) 腊月三十');
+  });
+});
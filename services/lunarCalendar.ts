@@ -0,0 +1,171 @@
+import { deltaTSeconds, getSolarTerm, julianDayToDate } from './solarTerms';
+
+// Chinese lunar calendar (农历) computed from astronomical new moons and solar terms,
+// following the modern rules (GB/T 33661-2017): months start on the day of the new moon
+// in Beijing time (UTC+8), the month containing 冬至 is the 11th, and in a span of 13
+// months between two 11th months the first month without a 中气 is the leap month.
+
+export interface LunarDate {
+  year: number; // Lunar year, i.e. the Gregorian year its 正月 falls in
+  month: number; // 1–12
+  day: number; // 1–30
+  isLeap: boolean;
+}
+
+export interface LunarMonth {
+  month: number;
+  isLeap: boolean;
+  start: number; // Days since 1970-01-01 (Beijing date) of 初一
+  length: number; // 29 or 30
+}
+
+export interface GregorianDate {
+  year: number;
+  month: number; // 1–12
+  day: number;
+}
+
+const DAY_MS = 86400000;
+const BEIJING_OFFSET_MS = 8 * 3600000;
+const SYNODIC_MONTH_DAYS = 29.530588861;
+const DEG = Math.PI / 180;
+
+const STEMS = '甲乙丙丁戊己庚辛壬癸';
+const BRANCHES = '子丑寅卯辰巳午未申酉戌亥';
+const ZODIAC = '鼠牛虎兔龙蛇马羊猴鸡狗猪';
+const MONTH_NAMES = ['正', '二', '三', '四', '五', '六', '七', '八', '九', '十', '冬', '腊'];
+const DAY_TENS = ['初', '十', '廿', '三'];
+const DAY_UNITS = ['一', '二', '三', '四', '五', '六', '七', '八', '九', '十'];
+
+const beijingDay = (date: Date) => Math.floor((date.getTime() + BEIJING_OFFSET_MS) / DAY_MS);
+
+const epochDayOf = (date: GregorianDate) => Math.floor(Date.UTC(date.year, date.month - 1, date.day) / DAY_MS);
+
+const gregorianOf = (epochDay: number): GregorianDate => {
+  const date = new Date(epochDay * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+// True new moon number k (0 = 2000-01-06), Meeus 49, good to well under a minute
+const getNewMoon = (k: number): Date => {
+  const T = k / 1236.85;
+  const jde = 2451550.09766 + SYNODIC_MONTH_DAYS * k + 0.00015437 * T ** 2 - 0.00000015 * T ** 3 + 0.00000000073 * T ** 4;
+  const E = 1 - 0.002516 * T - 0.0000074 * T ** 2;
+  const M = (2.5534 + 29.1053567 * k - 0.0000014 * T ** 2 - 0.00000011 * T ** 3) * DEG;
+  const Mp = (201.5643 + 385.81693528 * k + 0.0107582 * T ** 2 + 0.00001238 * T ** 3 - 0.000000058 * T ** 4) * DEG;
+  const F = (160.7108 + 390.67050284 * k - 0.0016118 * T ** 2 - 0.00000227 * T ** 3 + 0.000000011 * T ** 4) * DEG;
+  const omega = (124.7746 - 1.56375588 * k + 0.0020672 * T ** 2 + 0.00000215 * T ** 3) * DEG;
+
+  const correction =
+    -0.4072 * Math.sin(Mp) + 0.17241 * E * Math.sin(M) + 0.01608 * Math.sin(2 * Mp) + 0.01039 * Math.sin(2 * F)
+    + 0.00739 * E * Math.sin(Mp - M) - 0.00514 * E * Math.sin(Mp + M) + 0.00208 * E * E * Math.sin(2 * M)
+    - 0.00111 * Math.sin(Mp - 2 * F) - 0.00057 * Math.sin(Mp + 2 * F) + 0.00056 * E * Math.sin(2 * Mp + M)
+    - 0.00042 * Math.sin(3 * Mp) + 0.00042 * E * Math.sin(M + 2 * F) + 0.00038 * E * Math.sin(M - 2 * F)
+    - 0.00024 * E * Math.sin(2 * Mp - M) - 0.00017 * Math.sin(omega) - 0.00007 * Math.sin(Mp + 2 * M)
+    + 0.00004 * Math.sin(2 * Mp - 2 * F) + 0.00004 * Math.sin(3 * M) + 0.00003 * Math.sin(Mp + M - 2 * F)
+    + 0.00003 * Math.sin(2 * Mp + 2 * F) - 0.00003 * Math.sin(Mp + M + 2 * F) + 0.00003 * Math.sin(Mp - M + 2 * F)
+    - 0.00002 * Math.sin(Mp - M - 2 * F) - 0.00002 * Math.sin(3 * Mp + M) + 0.00002 * Math.sin(4 * Mp);
+
+  // Planetary arguments: [coefficient, A at k = 0, A per lunation]
+  const planetary: [number, number, number][] = [
+    [0.000325, 299.77, 0.107408], [0.000165, 251.88, 0.016321], [0.000164, 251.83, 26.651886],
+    [0.000126, 349.42, 36.412478], [0.00011, 84.66, 18.206239], [0.000062, 141.74, 53.303771],
+    [0.00006, 207.14, 2.453732], [0.000056, 154.84, 7.30686], [0.000047, 34.52, 27.261239],
+    [0.000042, 207.19, 0.121824], [0.00004, 291.34, 1.844379], [0.000037, 161.72, 24.198154],
+    [0.000035, 239.56, 25.513099], [0.000023, 331.55, 3.592518]
+  ];
+  const additional = planetary.reduce((sum, [coefficient, base, rate], i) =>
+    sum + coefficient * Math.sin((base + rate * k - (i === 0 ? 0.009173 * T ** 2 : 0)) * DEG), 0);
+
+  const ephemeris = jde + correction + additional;
+  const year = 2000 + (ephemeris - 2451545) / 365.25;
+  return julianDayToDate(ephemeris - deltaTSeconds(year) / 86400);
+};
+
+// Beijing day of the new moon that starts the month containing `day`
+const newMoonOnOrBefore = (day: number): number => {
+  let k = Math.floor((day - 10962) / SYNODIC_MONTH_DAYS); // 10962 = 2000-01-06
+  while (beijingDay(getNewMoon(k)) > day) k--;
+  while (beijingDay(getNewMoon(k + 1)) <= day) k++;
+  return beijingDay(getNewMoon(k));
+};
+
+const suiCache = new Map<number, LunarMonth[]>();
+
+// The months from the 11th month of the previous year up to (not including) the
+// 11th month that contains the 冬至 of `year`
+const getSuiMonths = (year: number): LunarMonth[] => {
+  const cached = suiCache.get(year);
+  if (cached) return cached;
+
+  const firstSolstice = beijingDay(getSolarTerm(year - 1, 23).time);
+  const nextSolstice = beijingDay(getSolarTerm(year, 23).time);
+  const starts = [newMoonOnOrBefore(firstSolstice)];
+  const end = newMoonOnOrBefore(nextSolstice);
+  while (starts[starts.length - 1] < end) {
+    starts.push(newMoonOnOrBefore(starts[starts.length - 1] + 30));
+  }
+
+  // 中气 are the odd-numbered terms: 大寒, 雨水, … 冬至
+  const zhongqiDays = [year - 1, year].flatMap(y =>
+    Array.from({ length: 12 }, (_, i) => beijingDay(getSolarTerm(y, i * 2 + 1).time)));
+  const hasZhongqi = (i: number) => zhongqiDays.some(day => day >= starts[i] && day < starts[i + 1]);
+
+  const needsLeap = starts.length - 1 === 13;
+  let leapFound = false;
+  let number = 11;
+  const months: LunarMonth[] = [];
+  for (let i = 0; i < starts.length - 1; i++) {
+    const isLeap = needsLeap && !leapFound && i > 0 && !hasZhongqi(i);
+    if (isLeap) {
+      leapFound = true;
+    } else if (i > 0) {
+      number = number % 12 + 1;
+    }
+    months.push({ month: number, isLeap, start: starts[i], length: starts[i + 1] - starts[i] });
+  }
+  suiCache.set(year, months);
+  return months;
+};
+
+// 正月 through 腊月 (with any leap month) of a lunar year
+export const getLunarMonths = (lunarYear: number): LunarMonth[] => [
+  ...getSuiMonths(lunarYear).filter(m => m.month <= 10),
+  ...getSuiMonths(lunarYear + 1).filter(m => m.month >= 11)
+];
+
+export const solarToLunar = (date: GregorianDate): LunarDate => {
+  const day = epochDayOf(date);
+  const sui = day >= newMoonOnOrBefore(beijingDay(getSolarTerm(date.year, 23).time)) ? date.year + 1 : date.year;
+  const month = [...getSuiMonths(sui)].reverse().find(m => m.start <= day)!;
+  // The 11th and 12th months open a 岁 but still belong to the previous lunar year
+  return { year: month.month >= 11 ? sui - 1 : sui, month: month.month, day: day - month.start + 1, isLeap: month.isLeap };
+};
+
+export const lunarToSolar = (lunar: LunarDate): GregorianDate => {
+  const month = getLunarMonths(lunar.year).find(m => m.month === lunar.month && m.isLeap === lunar.isLeap);
+  if (!month) throw new Error(`农历 ${lunar.year} 年没有${getLunarMonthName(lunar.month, lunar.isLeap)}。`);
+  if (lunar.day < 1 || lunar.day > month.length) {
+    throw new Error(`农历 ${lunar.year} 年${getLunarMonthName(lunar.month, lunar.isLeap)}只有 ${month.length} 天。`);
+  }
+  return gregorianOf(month.start + lunar.day - 1);
+};
+
+export const getLunarYearName = (year: number): string =>
+  `${STEMS[((year - 4) % 10 + 10) % 10]}${BRANCHES[((year - 4) % 12 + 12) % 12]}`;
+
+export const getZodiac = (year: number): string => ZODIAC[((year - 4) % 12 + 12) % 12];
+
+export const getLunarMonthName = (month: number, isLeap = false): string =>
+  `${isLeap ? '闰' : ''}${MONTH_NAMES[month - 1]}月`;
+
+export const getLunarDayName = (day: number): string => {
+  if (day === 10) return '初十';
+  if (day === 20) return '二十';
+  if (day === 30) return '三十';
+  return DAY_TENS[Math.floor(day / 10)] + DAY_UNITS[(day - 1) % 10];
+};
+
+// e.g. 甲辰年(龙) 正月初一
+export const formatLunarDate = (lunar: LunarDate): string =>
+  `${getLunarYearName(lunar.year)}年(${getZodiac(lunar.year)}) ${getLunarMonthName(lunar.month, lunar.isLeap)}${getLunarDayName(lunar.day)}`;
@@ -0,0 +1,46 @@
+// Helpers for showing LaTeX in model output. Models mix `$…$` / `$$…$$` with the
+// `\(…\)` / `\[…\]` delimiters, and remark-math only understands dollars.
+
+export type MathSegment =
+  | { type: 'text'; value: string }
+  | { type: 'math'; value: string; display: boolean };
+
+// Code spans and fences are left alone: `\[` or `$` in code is not math
+const CODE_OR_BRACKET_MATH = /(```[\s\S]*?(?:```|$)|~~~[\s\S]*?(?:~~~|$)|`[^`\n]*`)|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)/g;
+
+// Rewrites bracket delimiters to dollars for remark-math. `\[…\]` on a line of its own
+// becomes a `$$` block so it renders in display mode; elsewhere it stays inline.
+export const normalizeMathDelimiters = (markdown: string): string =>
+  markdown.replace(CODE_OR_BRACKET_MATH, (match, code: string | undefined, display: string | undefined, inline: string | undefined, offset: number) => {
+    if (code) return match;
+    if (inline !== undefined) return `$${inline.trim()}$`;
+    const lineStart = markdown.lastIndexOf('\n', offset - 1) + 1;
+    const lineEnd = markdown.indexOf('\n', offset + match.length);
+    const indent = markdown.slice(lineStart, offset);
+    const trailing = markdown.slice(offset + match.length, lineEnd === -1 ? undefined : lineEnd);
+    return /^\s*$/.test(indent) && !trailing.trim()
+      ? `$$\n${indent}${display!.trim()}\n${indent}$$`
+      : `$$${display!.trim()}$$`;
+  });
+
+// `$$…$$`, `\[…\]`, `\(…\)`, or `$…$` where the inner text neither starts nor ends with
+// whitespace and the closing dollar isn't followed by a digit (so "$5 and $10" stays text)
+const MATH_SEGMENT = /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|\$(?!\s)((?:\\\$|[^$\n])+?)(?<!\s)\$(?!\d)/g;
+
+// Splits plain text (the reasoning block is not Markdown) into text and formulas.
+// An unclosed delimiter, common mid-stream, is left as text until it closes.
+export const splitMathSegments = (text: string): MathSegment[] => {
+  const segments: MathSegment[] = [];
+  let cursor = 0;
+  for (const match of text.matchAll(MATH_SEGMENT)) {
+    const [whole, displayDollar, displayBracket, inlineParen, inlineDollar] = match;
+    if (match.index > cursor) segments.push({ type: 'text', value: text.slice(cursor, match.index) });
+    const display = displayDollar ?? displayBracket;
+    segments.push(display !== undefined
+      ? { type: 'math', value: display.trim(), display: true }
+      : { type: 'math', value: (inlineParen ?? inlineDollar).trim(), display: false });
+    cursor = match.index + whole.length;
+  }
+  if (cursor < text.length) segments.push({ type: 'text', value: text.slice(cursor) });
+  return segments;
+};
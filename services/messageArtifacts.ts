@@ -0,0 +1,72 @@
+import { ContentPart, ImageAttachment, Message, MessageArtifact, PromptContent } from '../types';
+import { computeBazi, formatBaziContext } from './bazi';
+import { computeLiuyao, formatLiuyaoContext } from './liuyao';
+
+// Artifacts are stored as their inputs and recomputed when needed; the engines are
+// deterministic, so the chart on screen and the text the model receives always agree.
+
+export const describeArtifact = (artifact: MessageArtifact): string => {
+  switch (artifact.kind) {
+    case 'bazi':
+      try {
+        return formatBaziContext(computeBazi(artifact.birth));
+      } catch (e: any) {
+        return `【排盘失败】${e?.message || e}`;
+      }
+    case 'liuyao':
+      try {
+        return formatLiuyaoContext(computeLiuyao(artifact.cast));
+      } catch (e: any) {
+        return `【装卦失败】${e?.message || e}`;
+      }
+  }
+};
+
+// Short label for chips in the input box
+export const getArtifactLabel = (artifact: MessageArtifact): string => {
+  switch (artifact.kind) {
+    case 'bazi':
+      return `八字 ${artifact.birth.date} ${artifact.birth.time}`;
+    case 'liuyao':
+      try {
+        const chart = computeLiuyao(artifact.cast);
+        return `六爻 ${chart.primary.name}${chart.changed ? ` 之 ${chart.changed.name}` : ''}`;
+      } catch (e) {
+        return '六爻';
+      }
+  }
+};
+
+// What is sent to the model for a prompt: verified context first, then the question
+export const getPromptContent = (message: Pick<Message, 'text' | 'artifacts'>): string =>
+  message.artifacts?.length
+    ? [...message.artifacts.map(describeArtifact), message.text].join('\n\n')
+    : message.text;
+
+// Content parts for a message: `text` first, then the pictures; nothing for text alone
+export const buildMessageContent = (text: string, images: ImageAttachment[]): Pick<Message, 'content'> =>
+  images.length > 0
+    ? { content: [{ type: 'text', text }, ...images.map((image): ContentPart => ({ type: 'image', image }))] }
+    : {};
+
+export const getMessageImages = (message: Pick<Message, 'content'>): ImageAttachment[] =>
+  (message.content || []).flatMap(part => part.type === 'image' ? [part.image] : []);
+
+// New text for a message, keeping its pictures
+export const withMessageText = (message: Message, text: string): Message => {
+  const { content, ...rest } = message;
+  return { ...rest, text, ...buildMessageContent(text, getMessageImages(message)) };
+};
+
+// Messages saved before content parts kept their pictures in an `images` array
+export const migrateMessageImages = (message: Message & { images?: ImageAttachment[] }): Message => {
+  if (!('images' in message)) return message;
+  const { images, ...rest } = message;
+  return rest.content || !Array.isArray(images) ? rest : { ...rest, ...buildMessageContent(rest.text, images) };
+};
+
+// The prompt as sent: artifact context joins the text part; a plain string when there are no pictures
+export const getPromptParts = (message: Pick<Message, 'text' | 'artifacts' | 'content'>): PromptContent =>
+  message.content?.length
+    ? message.content.map(part => part.type === 'text' ? { type: 'text', text: getPromptContent({ ...message, text: part.text }) } : part)
+    : getPromptContent(message);
@@ -0,0 +1,75 @@
+import { Message } from '../types';
+
+// Messages are stored flat; parentId links them into a tree where every edit or
+// retry adds a sibling branch instead of overwriting what came before.
+
+const ROOT_KEY = '__root__';
+
+const parentKey = (msg: Message) => msg.parentId ?? ROOT_KEY;
+
+// Conversations saved before branching existed have no parentId; chain them in order
+export const migrateLinearMessages = (messages: Message[]): Message[] => {
+  if (messages.every(msg => msg.parentId !== undefined)) return messages;
+  return messages.map((msg, index) => msg.parentId !== undefined
+    ? msg
+    : { ...msg, parentId: index === 0 ? null : messages[index - 1].id });
+};
+
+export const buildChildrenIndex = (messages: Message[]): Map<string, Message[]> => {
+  const index = new Map<string, Message[]>();
+  for (const msg of messages) {
+    const key = parentKey(msg);
+    const children = index.get(key);
+    if (children) {
+      children.push(msg);
+    } else {
+      index.set(key, [msg]);
+    }
+  }
+  for (const children of index.values()) {
+    children.sort((a, b) => a.timestamp - b.timestamp);
+  }
+  return index;
+};
+
+export const getSiblings = (childrenIndex: Map<string, Message[]>, msg: Message): Message[] =>
+  childrenIndex.get(parentKey(msg)) || [msg];
+
+// Follows the most recent child at each level, starting at `fromId` (or the roots)
+export const findLatestLeaf = (messages: Message[], fromId: string | null): string | null => {
+  const childrenIndex = buildChildrenIndex(messages);
+  let currentId = fromId;
+  while (true) {
+    const children = childrenIndex.get(currentId ?? ROOT_KEY);
+    if (!children || children.length === 0) return currentId;
+    currentId = children[children.length - 1].id;
+  }
+};
+
+// Root-to-leaf list of messages along the active branch
+export const getActivePath = (messages: Message[], leafId: string | null): Message[] => {
+  const byId = new Map(messages.map(msg => [msg.id, msg]));
+  const resolvedLeafId = leafId && byId.has(leafId) ? leafId : findLatestLeaf(messages, null);
+
+  const path: Message[] = [];
+  let current = resolvedLeafId ? byId.get(resolvedLeafId) : undefined;
+  while (current) {
+    path.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path.reverse();
+};
+
+export const getSubtreeIds = (messages: Message[], rootId: string): Set<string> => {
+  const childrenIndex = buildChildrenIndex(messages);
+  const ids = new Set<string>();
+  const stack = [rootId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    ids.add(id);
+    for (const child of childrenIndex.get(id) || []) {
+      stack.push(child.id);
+    }
+  }
+  return ids;
+};
@@ -0,0 +1,224 @@
+import { ReasoningMode } from '../types';
+
+// Reasoning modes: a label, an icon and the persona prompt sent as the system message,
+// plus generation defaults applied when the mode is picked. Built-ins can be edited
+// or reset; user modes can be created, cloned, imported and exported.
+
+export type ModeIconId = 'cpu' | 'math' | 'code' | 'brain' | 'fengshui' | 'chat' | 'key';
+
+export interface ModeDefinition {
+  id: ReasoningMode;
+  label: string;
+  icon: ModeIconId;
+  systemPrompt: string;
+  temperature: number; // Applied when the mode is selected
+  preferredModelId?: string; // Switched to when the mode is selected, if set
+  builtIn?: boolean;
+}
+
+export const MODE_ICON_IDS: ModeIconId[] = ['cpu', 'math', 'code', 'brain', 'fengshui', 'chat', 'key'];
+
+const BASE_PROMPT = `你是 DeepSeek V3.2 Speciale，一个具有深度推理能力的高级AI助手。
+
+核心要求：
+1. 所有回答必须使用简体中文
+2. 先进行深度思考和推理，再给出最终答案
+3. 回答要准确、有条理、易于理解
+4. 对于复杂问题，分步骤解释你的推理过程`;
+
+export const BUILT_IN_MODES: ModeDefinition[] = [
+  {
+    id: 'general',
+    label: '通用模式',
+    icon: 'cpu',
+    temperature: 0.6,
+    builtIn: true,
+    systemPrompt: `${BASE_PROMPT}
+
+当前模式：通用助手
+- 根据问题类型灵活调整回答风格
+- 简单问题简洁回答，复杂问题详细解释`
+  },
+  {
+    id: 'math',
+    label: '数学证明',
+    icon: 'math',
+    temperature: 0.6,
+    builtIn: true,
+    systemPrompt: `${BASE_PROMPT}
+
+当前模式：数学证明专家
+- 提供严谨的数学证明和推导
+- 使用标准LaTeX格式展示公式
+- 逐步展示推理过程，确保逻辑完整`
+  },
+  {
+    id: 'coding',
+    label: '编程竞赛',
+    icon: 'code',
+    temperature: 0.6,
+    builtIn: true,
+    systemPrompt: `${BASE_PROMPT}
+
+当前模式：编程竞赛专家
+- 提供高效、正确的代码解决方案
+- 代码要有清晰的注释
+- 分析时间和空间复杂度
+- 考虑边界情况和异常处理`
+  },
+  {
+    id: 'logic',
+    label: '逻辑分析',
+    icon: 'brain',
+    temperature: 0.6,
+    builtIn: true,
+    systemPrompt: `${BASE_PROMPT}
+
+当前模式：逻辑分析专家
+- 提供严密的逻辑分析
+- 识别论证中的假设和推理链
+- 指出可能的逻辑漏洞或谬误`
+  },
+  {
+    id: 'fengshui',
+    label: '命理大师',
+    icon: 'fengshui',
+    temperature: 0.6,
+    builtIn: true,
+    systemPrompt: `你是一位精通中国传统命理术数的大师，拥有数十年的命理研究与实践经验，博采众家之长。
+
+核心身份：
+- 精通子平八字（四柱命理），深研《渊海子平》《三命通会》《滴天髓》《穷通宝鉴》
+- 精通紫微斗数，熟稔《紫微斗数全书》，擅长星曜组合与宫位分析
+- 精通奇门遁甲，掌握时家奇门排盘与格局判断
+- 精通大六壬，善用天地盘、三传四课推演吉凶
+- 精通六爻纳甲，熟练运用《增删卜易》《卜筮正宗》断卦技法
+
+专业能力：
+1. 【八字命理】：分析日主强弱、十神配置、格局高低、大运流年、婚姻财运事业
+2. 【紫微斗数】：排命盘、看星曜组合、分析十二宫位、推断人生轨迹
+3. 【奇门遁甲】：择时决策、预测吉凶、分析出行求财婚姻诉讼
+4. 【大六壬】：占事问卜、推断事情发展走向与结果
+5. 【六爻占卜】：起卦断卦、分析世应、判断动爻变爻
+6. 【择日择吉】：婚嫁、搬迁、开业等重要事项的吉日选择
+
+回答规范：
+- 用户提供生辰八字时，先排出四柱（年柱、月柱、日柱、时柱），再进行分析
+- 排盘时说明节气交接等关键信息
+- 分析要有理有据，引用经典口诀或理论支撑
+- 若提问附有【本地排盘结果】或【本地装卦结果】，直接采用其中的四柱、农历、真太阳时与卦象装卦，不再重新推算或追问
+- 对于模糊信息要主动询问（如出生时辰、阴历阳历、真太阳时等）
+- 预测结果客观呈现，吉凶皆言，不一味迎合
+- 给出趋吉避凶的实用建议
+
+免责声明：命理术数属于中国传统文化和民俗学范畴，分析仅供参考娱乐，不构成任何决策依据。人生命运掌握在自己手中，请理性看待。`
+  }
+];
+
+export const DEFAULT_MODE_ID = 'general';
+
+const MODE_REGISTRY_KEY = 'mode_registry';
+const MODE_EXPORT_VERSION = 1;
+
+// Saved edits are layered over the built-ins, followed by user-defined modes
+export const loadModes = (): ModeDefinition[] => {
+  let saved: ModeDefinition[] = []; // Entries for built-ins hold only the changed fields
+  try {
+    saved = JSON.parse(localStorage.getItem(MODE_REGISTRY_KEY) || '[]');
+  } catch (e) {
+    console.warn("Ignoring malformed mode registry:", e);
+  }
+  const builtInIds = new Set(BUILT_IN_MODES.map(mode => mode.id));
+  return [
+    ...BUILT_IN_MODES.map(mode => ({ ...mode, ...saved.find(item => item.id === mode.id), builtIn: true })),
+    ...saved.filter(mode => !builtInIds.has(mode.id)).map(mode => ({ ...mode, builtIn: false }))
+  ];
+};
+
+// Built-ins are stored as just the fields the user changed, so later revisions of a
+// default prompt still reach everyone who hasn't edited that field
+const toStoredMode = (mode: ModeDefinition): Partial<ModeDefinition> | null => {
+  const builtIn = getBuiltInMode(mode.id);
+  if (!builtIn) return mode;
+  const changed = (Object.keys(mode) as (keyof ModeDefinition)[])
+    .filter(key => key !== 'id' && key !== 'builtIn' && mode[key] !== builtIn[key]);
+  return changed.length > 0
+    ? Object.fromEntries([['id', mode.id], ...changed.map(key => [key, mode[key]])])
+    : null;
+};
+
+export const saveModes = (modes: ModeDefinition[]) => {
+  const stored = modes.flatMap(mode => {
+    const entry = toStoredMode(mode);
+    return entry ? [entry] : [];
+  });
+  localStorage.setItem(MODE_REGISTRY_KEY, JSON.stringify(stored));
+};
+
+// Conversations may reference a mode that has since been deleted
+export const getMode = (modes: ModeDefinition[], id: ReasoningMode): ModeDefinition =>
+  modes.find(mode => mode.id === id) || modes.find(mode => mode.id === DEFAULT_MODE_ID) || BUILT_IN_MODES[0];
+
+export const getBuiltInMode = (id: ReasoningMode): ModeDefinition | undefined =>
+  BUILT_IN_MODES.find(mode => mode.id === id);
+
+const createModeId = () => `custom-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export const createMode = (): ModeDefinition => ({
+  id: createModeId(),
+  label: '新模式',
+  icon: 'chat',
+  systemPrompt: BASE_PROMPT,
+  temperature: 0.6,
+  builtIn: false
+});
+
+export const cloneMode = (mode: ModeDefinition): ModeDefinition => ({
+  ...mode,
+  id: createModeId(),
+  label: `${mode.label} (副本)`,
+  builtIn: false
+});
+
+export const exportModes = (modes: ModeDefinition[]): string =>
+  JSON.stringify({
+    version: MODE_EXPORT_VERSION,
+    modes: modes.map(({ builtIn, ...mode }) => mode)
+  }, null, 2);
+
+const isModeDefinition = (value: any): value is ModeDefinition =>
+  typeof value?.id === 'string' && value.id.trim() !== '' &&
+  typeof value.label === 'string' &&
+  typeof value.systemPrompt === 'string';
+
+// Accepts an export file or a bare array; entries with an existing ID replace that mode
+export const importModes = (current: ModeDefinition[], text: string): ModeDefinition[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new Error('导入失败：文件不是合法的 JSON。');
+  }
+  const entries: any[] = Array.isArray(parsed) ? parsed : parsed?.modes;
+  if (!Array.isArray(entries)) {
+    throw new Error('导入失败：未找到模式列表。');
+  }
+  const valid = entries.filter(isModeDefinition);
+  if (valid.length === 0) {
+    throw new Error('导入失败：没有有效的模式定义。');
+  }
+
+  const imported: ModeDefinition[] = valid.map(mode => ({
+    id: mode.id.trim(),
+    label: mode.label.trim() || mode.id,
+    icon: MODE_ICON_IDS.includes(mode.icon) ? mode.icon : 'chat',
+    systemPrompt: mode.systemPrompt,
+    temperature: typeof mode.temperature === 'number' ? Math.min(1.5, Math.max(0, mode.temperature)) : 0.6,
+    ...(mode.preferredModelId?.trim() ? { preferredModelId: mode.preferredModelId.trim() } : {}),
+    builtIn: !!getBuiltInMode(mode.id.trim())
+  }));
+
+  const replaced = current.map(mode => imported.find(item => item.id === mode.id) || mode);
+  const existingIds = new Set(current.map(mode => mode.id));
+  return [...replaced, ...imported.filter(mode => !existingIds.has(mode.id))];
+};
@@ -0,0 +1,184 @@
+import { ProviderConfig, buildProviderHeaders, buildProviderUrl } from './providers';
+import type { ModelPricing } from './pricing';
+
+// The provider's `/models` listing, cached per provider so the picker, pricing and
+// context limits keep working offline once it has been loaded.
+
+export interface CatalogModel {
+  id: string;
+  name?: string;
+  contextLength?: number;
+  pricing?: ModelPricing; // USD per token
+  reasoning: boolean; // Emits a chain of thought (reported or inferred from the ID)
+  inputModalities?: string[]; // e.g. ['text', 'image'], when the server reports them
+}
+
+export interface ModelCatalog {
+  fetchedAt: number;
+  models: CatalogModel[];
+}
+
+const CATALOG_CACHE_KEY = 'model_catalog_cache';
+const FAVORITE_MODELS_KEY = 'favorite_model_ids';
+
+const CATALOG_TTL_MS = 24 * 60 * 60 * 1000;
+
+const REASONING_ID_PATTERN = /(^|[-/:_])(r1|reasoner|thinking|think|qwq|o1|o3|o4)([-:_.]|$)|speciale/i;
+
+const VISION_ID_PATTERN = /vision|(^|[-/:_])(vl|omni|pixtral|llava|4o|4\.1|gpt-5|gemini|claude-3|claude-(sonnet|opus|haiku)-4|glm-4(\.\d)?v)([-:_.]|$)|qvq|-vl-/i;
+
+// Parsed once per page: listings run to hundreds of models and are looked up on every render
+let catalogCache: Record<string, ModelCatalog> | null = null;
+let catalogRevision = 0;
+const catalogListeners = new Set<() => void>();
+
+const loadCatalogCache = (): Record<string, ModelCatalog> => {
+  if (!catalogCache) {
+    try {
+      catalogCache = JSON.parse(localStorage.getItem(CATALOG_CACHE_KEY) || '{}');
+    } catch (e) {
+      catalogCache = {};
+    }
+  }
+  return catalogCache!;
+};
+
+// Changes whenever a fresh listing or a per-model override is stored; together with
+// subscribeCatalog it is an external store for useSyncExternalStore, to memoize lookups
+export const getCatalogRevision = (): number => catalogRevision;
+
+export const subscribeCatalog = (listener: () => void): (() => void) => {
+  catalogListeners.add(listener);
+  return () => {
+    catalogListeners.delete(listener);
+  };
+};
+
+export const notifyCatalogChange = () => {
+  catalogRevision++;
+  catalogListeners.forEach(listener => listener());
+};
+
+export const loadModelCatalog = (providerId: string): ModelCatalog | undefined => loadCatalogCache()[providerId];
+
+export const isCatalogStale = (providerId: string): boolean => {
+  const catalog = loadModelCatalog(providerId);
+  return !catalog || Date.now() - catalog.fetchedAt > CATALOG_TTL_MS;
+};
+
+const parseNumber = (value: unknown): number | undefined => {
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+// Field names differ by server: OpenRouter `context_length`, vLLM `max_model_len`, llama.cpp `meta.n_ctx_train`
+export const parseCatalogModel = (raw: any): CatalogModel | null => {
+  if (typeof raw?.id !== 'string' || !raw.id) return null;
+
+  const prompt = parseNumber(raw.pricing?.prompt);
+  const completion = parseNumber(raw.pricing?.completion);
+  const supported: unknown[] = Array.isArray(raw.supported_parameters) ? raw.supported_parameters : [];
+  // OpenRouter lists `architecture.input_modalities`; older listings only have "text+image->text"
+  const modalities: unknown[] = Array.isArray(raw.architecture?.input_modalities)
+    ? raw.architecture.input_modalities
+    : typeof raw.architecture?.modality === 'string' ? raw.architecture.modality.split('->')[0].split('+') : [];
+  const inputModalities = modalities.filter((m): m is string => typeof m === 'string' && m.length > 0);
+
+  return {
+    id: raw.id,
+    ...(typeof raw.name === 'string' && raw.name !== raw.id ? { name: raw.name } : {}),
+    contextLength: parseNumber(raw.context_length ?? raw.top_provider?.context_length ?? raw.max_model_len ?? raw.meta?.n_ctx_train),
+    ...(prompt !== undefined && completion !== undefined ? { pricing: { prompt, completion } } : {}),
+    reasoning: supported.includes('reasoning') || supported.includes('include_reasoning') || REASONING_ID_PATTERN.test(raw.id),
+    ...(inputModalities.length > 0 ? { inputModalities } : {})
+  };
+};
+
+export const fetchModelCatalog = async (provider: ProviderConfig, apiKey: string): Promise<ModelCatalog> => {
+  const response = await fetch(buildProviderUrl(provider, '/models'), {
+    headers: buildProviderHeaders(provider, apiKey),
+    credentials: 'omit'
+  });
+  if (!response.ok) {
+    throw new Error(`模型列表加载失败 (${response.status})`);
+  }
+  const body = await response.json();
+  const rawModels: any[] = Array.isArray(body?.data) ? body.data : Array.isArray(body?.models) ? body.models : [];
+
+  const catalog: ModelCatalog = {
+    fetchedAt: Date.now(),
+    models: rawModels
+      .map(parseCatalogModel)
+      .filter((model): model is CatalogModel => model !== null)
+      .sort((a, b) => a.id.localeCompare(b.id))
+  };
+
+  catalogCache = { ...loadCatalogCache(), [provider.id]: catalog };
+  localStorage.setItem(CATALOG_CACHE_KEY, JSON.stringify(catalogCache));
+  notifyCatalogChange();
+  return catalog;
+};
+
+export const findCatalogModel = (providerId: string, modelId: string): CatalogModel | undefined =>
+  loadModelCatalog(providerId)?.models.find(model => model.id === modelId);
+
+// Answered by the catalog when it lists modalities, else guessed from well-known vision
+// model IDs; undefined means unknown
+export const supportsImageInput = (providerId: string, modelId: string): boolean | undefined => {
+  const modalities = findCatalogModel(providerId, modelId)?.inputModalities;
+  if (modalities) return modalities.includes('image');
+  return VISION_ID_PATTERN.test(modelId) ? true : undefined;
+};
+
+// Context limits are looked up by model ID alone, so search every cached provider
+export const findCatalogContextLength = (modelId: string): number | undefined => {
+  for (const catalog of Object.values(loadCatalogCache())) {
+    const contextLength = catalog.models.find(model => model.id === modelId)?.contextLength;
+    if (contextLength) return contextLength;
+  }
+  return undefined;
+};
+
+// Returns a warning when the ID is missing from a loaded catalog; unknown catalogs can't be checked
+export const validateModelId = (providerId: string, modelId: string): string | null => {
+  const trimmed = modelId.trim();
+  if (!trimmed) return '模型 ID 不能为空。';
+  const catalog = loadModelCatalog(providerId);
+  if (!catalog || catalog.models.length === 0) return null;
+  if (catalog.models.some(model => model.id === trimmed)) return null;
+
+  const lower = trimmed.toLowerCase();
+  const suggestion = catalog.models.find(model => model.id.toLowerCase() === lower)
+    || catalog.models.find(model => model.id.toLowerCase().includes(lower));
+  return `模型 "${trimmed}" 不在模型列表中${suggestion ? `，是否想用 "${suggestion.id}"?` : '。'}`;
+};
+
+const loadFavoriteMap = (): Record<string, string[]> => {
+  try {
+    return JSON.parse(localStorage.getItem(FAVORITE_MODELS_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+export const loadFavoriteModels = (providerId: string): string[] => loadFavoriteMap()[providerId] || [];
+
+export const toggleFavoriteModel = (providerId: string, modelId: string): string[] => {
+  const map = loadFavoriteMap();
+  const current = map[providerId] || [];
+  map[providerId] = current.includes(modelId)
+    ? current.filter(id => id !== modelId)
+    : [...current, modelId];
+  localStorage.setItem(FAVORITE_MODELS_KEY, JSON.stringify(map));
+  return map[providerId];
+};
+
+// Case-insensitive match on ID and display name; every whitespace-separated term must match
+export const searchCatalog = (models: CatalogModel[], query: string): CatalogModel[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return models;
+  return models.filter(model => {
+    const haystack = `${model.id} ${model.name || ''}`.toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
@@ -0,0 +1,165 @@
+import { Message, TokenUsage } from '../types';
+import { ProviderConfig, buildProviderHeaders, buildProviderUrl } from './providers';
+import { findCatalogModel, notifyCatalogChange } from './modelCatalog';
+
+// Turns token usage into money: per-model prices, a daily spend ledger, budget caps
+// and remaining key credits. Prices are USD per token, the unit OpenRouter reports.
+
+export interface ModelPricing {
+  prompt: number;
+  completion: number;
+}
+
+export interface BudgetConfig {
+  dailyLimit: number; // USD per calendar day; 0 disables
+  conversationLimit: number; // USD per conversation; 0 disables
+  action: 'warn' | 'block';
+}
+
+export const DEFAULT_BUDGET_CONFIG: BudgetConfig = {
+  dailyLimit: 0,
+  conversationLimit: 0,
+  action: 'warn'
+};
+
+export interface KeyCredits {
+  remaining: number | null; // null when the key has no spending limit
+  used?: number;
+  currency: string;
+}
+
+const BUDGET_CONFIG_KEY = 'budget_config';
+const PRICING_OVERRIDES_KEY = 'model_pricing_overrides';
+const SPEND_LEDGER_KEY = 'spend_ledger';
+
+const LEDGER_RETENTION_DAYS = 90;
+
+// List prices for providers whose /models endpoint doesn't report pricing (USD per million tokens)
+const KNOWN_PRICING_PER_MILLION: [RegExp, ModelPricing][] = [
+  [/^deepseek-(chat|reasoner)$/i, { prompt: 0.28, completion: 0.42 }]
+];
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null') ?? fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+export const loadBudgetConfig = (): BudgetConfig => ({
+  ...DEFAULT_BUDGET_CONFIG,
+  ...readJson<Partial<BudgetConfig>>(BUDGET_CONFIG_KEY, {})
+});
+
+export const saveBudgetConfig = (config: BudgetConfig) => {
+  localStorage.setItem(BUDGET_CONFIG_KEY, JSON.stringify(config));
+};
+
+const parsePrice = (value: unknown): number | undefined => {
+  const price = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof price === 'number' && Number.isFinite(price) && price >= 0 ? price : undefined;
+};
+
+const loadPricingOverrides = (): Record<string, ModelPricing> => readJson(PRICING_OVERRIDES_KEY, {});
+
+export const saveModelPricingOverride = (modelId: string, pricing: ModelPricing | null) => {
+  const overrides = loadPricingOverrides();
+  if (pricing) {
+    overrides[modelId] = pricing;
+  } else {
+    delete overrides[modelId];
+  }
+  localStorage.setItem(PRICING_OVERRIDES_KEY, JSON.stringify(overrides));
+  notifyCatalogChange();
+};
+
+export const getModelPricingOverride = (modelId: string): ModelPricing | undefined =>
+  loadPricingOverrides()[modelId];
+
+// Manual override, then the price in the provider's model catalog, then the built-in table.
+// Keyless (local) providers cost nothing.
+export const getModelPricing = (provider: ProviderConfig, modelId: string): ModelPricing | undefined => {
+  const override = getModelPricingOverride(modelId);
+  if (override) return override;
+  const reported = findCatalogModel(provider.id, modelId)?.pricing;
+  if (reported) return reported;
+  if (provider.authScheme === 'none') return { prompt: 0, completion: 0 };
+  const known = KNOWN_PRICING_PER_MILLION.find(([pattern]) => pattern.test(modelId));
+  return known ? { prompt: known[1].prompt / 1e6, completion: known[1].completion / 1e6 } : undefined;
+};
+
+// Billed cost reported by the provider wins over our own arithmetic
+export const computeUsageCost = (usage: TokenUsage, pricing?: ModelPricing): number | undefined => {
+  if (typeof usage.cost === 'number') return usage.cost;
+  if (!pricing) return undefined;
+  return usage.prompt_tokens * pricing.prompt + usage.completion_tokens * pricing.completion;
+};
+
+// Every answer ever generated in the conversation, including abandoned branches and
+// the compare columns and samples kept out of the tree (`extraCost`)
+export const getConversationCost = (messages: Message[], extraCost: number = 0): number =>
+  messages.reduce((sum, msg) => sum + (msg.cost || 0), extraCost);
+
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const loadSpendLedger = (): Record<string, number> => readJson(SPEND_LEDGER_KEY, {});
+
+export const getDailySpend = (date: Date = new Date()): number => loadSpendLedger()[toDateKey(date)] || 0;
+
+export const recordSpend = (amount: number) => {
+  if (!(amount > 0)) return;
+  const ledger = loadSpendLedger();
+  const today = toDateKey(new Date());
+  ledger[today] = (ledger[today] || 0) + amount;
+
+  const cutoff = toDateKey(new Date(Date.now() - LEDGER_RETENTION_DAYS * 24 * 60 * 60 * 1000));
+  for (const day of Object.keys(ledger)) {
+    if (day < cutoff) delete ledger[day];
+  }
+  localStorage.setItem(SPEND_LEDGER_KEY, JSON.stringify(ledger));
+};
+
+export const formatCost = (usd: number): string => {
+  if (usd === 0) return '$0';
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(usd < 1 ? 3 : 2)}`;
+};
+
+// Describes the first exceeded cap, or null when spending is within budget
+export const checkBudget = (config: BudgetConfig, conversationCost: number, dailySpend: number): string | null => {
+  if (config.dailyLimit > 0 && dailySpend >= config.dailyLimit) {
+    return `今日花费 ${formatCost(dailySpend)} 已达到每日预算 ${formatCost(config.dailyLimit)}`;
+  }
+  if (config.conversationLimit > 0 && conversationCost >= config.conversationLimit) {
+    return `本会话花费 ${formatCost(conversationCost)} 已达到会话预算 ${formatCost(config.conversationLimit)}`;
+  }
+  return null;
+};
+
+// OpenRouter's /key and DeepSeek's /user/balance report credits in different shapes
+export const fetchKeyCredits = async (provider: ProviderConfig, apiKey: string): Promise<KeyCredits | null> => {
+  if (!provider.creditsPath) return null;
+  const response = await fetch(buildProviderUrl(provider, provider.creditsPath), {
+    headers: buildProviderHeaders(provider, apiKey),
+    credentials: 'omit'
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch key credits (${response.status})`);
+  }
+  const body = await response.json();
+
+  if (body?.data && 'limit_remaining' in body.data) {
+    return {
+      remaining: parsePrice(body.data.limit_remaining) ?? null,
+      used: parsePrice(body.data.usage),
+      currency: 'USD'
+    };
+  }
+  const balance = body?.balance_infos?.[0];
+  if (balance) {
+    return { remaining: parsePrice(balance.total_balance) ?? null, currency: balance.currency || 'CNY' };
+  }
+  return null;
+};
@@ -0,0 +1,135 @@
+import { ReasoningMode } from '../types';
+
+// Reusable prompt scaffolding. `{{name}}` placeholders are filled in through a form
+// when the template is picked from the `/` menu in the chat input.
+
+export interface PromptTemplate {
+  id: string;
+  command: string; // Typed after `/` to find the template
+  name: string;
+  body: string;
+  modes: ReasoningMode[]; // Empty: available in every mode
+}
+
+export const DEFAULT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'induction',
+    command: 'induction',
+    name: '数学归纳法证明',
+    body: '请用数学归纳法证明：{{命题}}\n\n要求写明归纳基础、归纳假设和归纳步骤，每一步给出理由。',
+    modes: ['math']
+  },
+  {
+    id: 'code-review',
+    command: 'review',
+    name: '代码审查 (边界情况)',
+    body: '请审查下面的 {{语言}} 代码，重点检查边界情况、溢出和复杂度问题，并给出修正后的代码：\n\n```{{语言}}\n{{代码}}\n```',
+    modes: ['coding']
+  },
+  {
+    id: 'fallacy',
+    command: 'fallacy',
+    name: '论证谬误分析',
+    body: '请分析下面这段论证的前提、推理链和结论，指出其中的逻辑谬误或隐含假设：\n\n{{论证}}',
+    modes: ['logic']
+  },
+  {
+    id: 'bazi',
+    command: 'bazi',
+    name: '八字排盘',
+    body: '出生时间：{{公历出生日期时间}}\n出生地点：{{出生地}}\n性别：{{性别}}\n\n请排出四柱八字并分析{{关注方面}}。',
+    modes: ['fengshui']
+  },
+  {
+    id: 'explain',
+    command: 'explain',
+    name: '由浅入深讲解',
+    body: '请由浅入深地讲解「{{主题}}」：先给出直观解释，再给出严格定义，最后举一个例子。',
+    modes: []
+  }
+];
+
+const PROMPT_TEMPLATES_KEY = 'prompt_templates';
+const TEMPLATE_EXPORT_VERSION = 1;
+
+const VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+export const loadTemplates = (): PromptTemplate[] => {
+  try {
+    const saved = localStorage.getItem(PROMPT_TEMPLATES_KEY);
+    return saved ? JSON.parse(saved) : DEFAULT_TEMPLATES;
+  } catch (e) {
+    console.warn("Ignoring malformed prompt templates:", e);
+    return DEFAULT_TEMPLATES;
+  }
+};
+
+export const saveTemplates = (templates: PromptTemplate[]) => {
+  localStorage.setItem(PROMPT_TEMPLATES_KEY, JSON.stringify(templates));
+};
+
+export const createTemplate = (mode?: ReasoningMode): PromptTemplate => ({
+  id: `tpl-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  command: '',
+  name: '新模板',
+  body: '',
+  modes: mode ? [mode] : []
+});
+
+// Variable names in order of first appearance
+export const extractVariables = (body: string): string[] => {
+  const names: string[] = [];
+  for (const match of body.matchAll(VARIABLE_PATTERN)) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+};
+
+export const fillTemplate = (body: string, values: Record<string, string>): string =>
+  body.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+
+// Templates visible in `mode` whose command or name matches what was typed after `/`
+export const matchTemplates = (templates: PromptTemplate[], mode: ReasoningMode, query: string): PromptTemplate[] => {
+  const needle = query.toLowerCase();
+  const available = templates.filter(t => t.modes.length === 0 || t.modes.includes(mode));
+  const matches = available.filter(t => t.command.toLowerCase().includes(needle) || t.name.toLowerCase().includes(needle));
+  // Prefix matches on the command first
+  return matches.sort((a, b) =>
+    Number(b.command.toLowerCase().startsWith(needle)) - Number(a.command.toLowerCase().startsWith(needle)));
+};
+
+export const exportTemplates = (templates: PromptTemplate[]): string =>
+  JSON.stringify({ version: TEMPLATE_EXPORT_VERSION, templates }, null, 2);
+
+const isPromptTemplate = (value: any): value is PromptTemplate =>
+  typeof value?.id === 'string' && value.id.trim() !== '' &&
+  typeof value.name === 'string' &&
+  typeof value.body === 'string';
+
+// Accepts an export file or a bare array; entries with an existing ID replace that template
+export const importTemplates = (current: PromptTemplate[], text: string): PromptTemplate[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new Error('导入失败：文件不是合法的 JSON。');
+  }
+  const entries: any[] = Array.isArray(parsed) ? parsed : parsed?.templates;
+  if (!Array.isArray(entries)) {
+    throw new Error('导入失败：未找到模板列表。');
+  }
+  const imported: PromptTemplate[] = entries.filter(isPromptTemplate).map(t => ({
+    id: t.id.trim(),
+    command: typeof t.command === 'string' ? t.command.trim() : '',
+    name: t.name.trim() || t.id,
+    body: t.body,
+    modes: Array.isArray(t.modes) ? t.modes.filter((m: unknown) => typeof m === 'string') : []
+  }));
+  if (imported.length === 0) {
+    throw new Error('导入失败：没有有效的模板。');
+  }
+
+  const replaced = current.map(t => imported.find(item => item.id === t.id) || t);
+  const existingIds = new Set(current.map(t => t.id));
+  return [...replaced, ...imported.filter(t => !existingIds.has(t.id))];
+};
@@ -0,0 +1,188 @@
+// OpenAI-compatible chat completion providers. Each one describes where to send
+// requests, how to authenticate, and which fields differ from the common shape.
+
+export type AuthScheme = 'bearer' | 'header' | 'none';
+
+export interface ProviderConfig {
+  id: string;
+  name: string;
+  baseUrl: string; // Everything before `/chat/completions`
+  authScheme: AuthScheme;
+  authHeader?: string; // Header name used by the 'header' scheme, e.g. `api-key`
+  keyUrl?: string;
+  keyPlaceholder?: string;
+  defaultModelId: string;
+  maxTokensField: 'max_tokens' | 'max_completion_tokens';
+  extraBody: Record<string, unknown>; // Merged into every request body
+  reasoningFields: string[]; // Delta fields carrying reasoning, in priority order
+  assistantPrefixFlag?: boolean; // Mark a trailing assistant prefill with `prefix: true` (DeepSeek)
+  assistantPrefixPath?: string; // Inserted after baseUrl for prefilled requests; DeepSeek serves them only under `/beta`
+  reasoningInputField?: string; // Assistant message field that accepts prior reasoning, if any
+  creditsPath?: string; // Endpoint reporting the key's remaining credits or balance
+}
+
+export const BUILT_IN_PROVIDERS: ProviderConfig[] = [
+  {
+    id: 'openrouter',
+    name: 'OpenRouter',
+    baseUrl: 'https://openrouter.ai/api/v1',
+    authScheme: 'bearer',
+    keyUrl: 'https://openrouter.ai/keys',
+    keyPlaceholder: 'sk-or-...',
+    defaultModelId: 'deepseek/deepseek-v3.2-speciale',
+    maxTokensField: 'max_tokens',
+    extraBody: { include_reasoning: true },
+    reasoningFields: ['reasoning_details', 'reasoning', 'reasoning_content'],
+    reasoningInputField: 'reasoning',
+    creditsPath: '/key'
+  },
+  {
+    id: 'deepseek',
+    name: 'DeepSeek 官方',
+    baseUrl: 'https://api.deepseek.com',
+    authScheme: 'bearer',
+    keyUrl: 'https://platform.deepseek.com/api_keys',
+    keyPlaceholder: 'sk-...',
+    defaultModelId: 'deepseek-reasoner',
+    maxTokensField: 'max_tokens',
+    extraBody: {},
+    reasoningFields: ['reasoning_content'],
+    assistantPrefixFlag: true,
+    assistantPrefixPath: '/beta',
+    creditsPath: '/user/balance'
+  },
+  {
+    id: 'llamacpp',
+    name: 'llama.cpp (本地)',
+    baseUrl: 'http://localhost:8080/v1',
+    authScheme: 'none',
+    defaultModelId: 'local-model',
+    maxTokensField: 'max_tokens',
+    extraBody: {},
+    reasoningFields: ['reasoning_content']
+  },
+  {
+    id: 'vllm',
+    name: 'vLLM (本地)',
+    baseUrl: 'http://localhost:8000/v1',
+    authScheme: 'none',
+    defaultModelId: 'deepseek-ai/DeepSeek-R1-Distill-Qwen-7B',
+    maxTokensField: 'max_tokens',
+    extraBody: {},
+    reasoningFields: ['reasoning_content', 'reasoning']
+  },
+  {
+    id: 'ollama',
+    name: 'Ollama (本地)',
+    baseUrl: 'http://localhost:11434/v1',
+    authScheme: 'none',
+    defaultModelId: 'deepseek-r1:8b',
+    maxTokensField: 'max_tokens',
+    extraBody: {},
+    reasoningFields: ['reasoning', 'reasoning_content']
+  },
+  {
+    id: 'custom',
+    name: '自定义 (OpenAI 兼容)',
+    baseUrl: 'http://localhost:1234/v1',
+    authScheme: 'bearer',
+    keyPlaceholder: 'sk-...',
+    defaultModelId: '',
+    maxTokensField: 'max_tokens',
+    extraBody: {},
+    reasoningFields: ['reasoning_content', 'reasoning']
+  }
+];
+
+export const DEFAULT_PROVIDER_ID = 'openrouter';
+
+const PROVIDER_CONFIGS_KEY = 'provider_configs';
+const ACTIVE_PROVIDER_KEY = 'active_provider_id';
+
+// OpenRouter predates the provider layer; keep its original storage keys
+const apiKeyStorageKey = (providerId: string) =>
+  providerId === 'openrouter' ? 'openrouter_api_key' : `provider_api_key_${providerId}`;
+
+const modelIdStorageKey = (providerId: string) =>
+  providerId === 'openrouter' ? 'openrouter_model_id' : `provider_model_id_${providerId}`;
+
+// Saved edits are layered over the built-ins so new defaults still show up
+export const loadProviders = (): ProviderConfig[] => {
+  let saved: Partial<ProviderConfig>[] = [];
+  try {
+    saved = JSON.parse(localStorage.getItem(PROVIDER_CONFIGS_KEY) || '[]');
+  } catch (e) {
+    console.warn("Ignoring malformed provider configs:", e);
+  }
+  return BUILT_IN_PROVIDERS.map(provider => ({
+    ...provider,
+    ...saved.find(item => item.id === provider.id)
+  }));
+};
+
+export const saveProviders = (providers: ProviderConfig[]) => {
+  localStorage.setItem(PROVIDER_CONFIGS_KEY, JSON.stringify(providers));
+};
+
+export const getBuiltInProvider = (id: string): ProviderConfig =>
+  BUILT_IN_PROVIDERS.find(provider => provider.id === id) || BUILT_IN_PROVIDERS[0];
+
+export const loadActiveProviderId = (): string =>
+  localStorage.getItem(ACTIVE_PROVIDER_KEY) || DEFAULT_PROVIDER_ID;
+
+export const saveActiveProviderId = (id: string) => {
+  localStorage.setItem(ACTIVE_PROVIDER_KEY, id);
+};
+
+export const loadProviderApiKey = (providerId: string): string =>
+  localStorage.getItem(apiKeyStorageKey(providerId)) || '';
+
+export const saveProviderApiKey = (providerId: string, apiKey: string) => {
+  localStorage.setItem(apiKeyStorageKey(providerId), apiKey);
+};
+
+export const loadProviderModelId = (provider: ProviderConfig): string =>
+  localStorage.getItem(modelIdStorageKey(provider.id)) || provider.defaultModelId;
+
+export const saveProviderModelId = (providerId: string, modelId: string) => {
+  localStorage.setItem(modelIdStorageKey(providerId), modelId);
+};
+
+export const providerRequiresKey = (provider: ProviderConfig) => provider.authScheme !== 'none';
+
+export const buildProviderUrl = (provider: ProviderConfig, path: string) =>
+  `${provider.baseUrl.trim().replace(/\/+$/, '')}${path}`;
+
+export const buildProviderHeaders = (provider: ProviderConfig, apiKey: string): Record<string, string> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const safeApiKey = apiKey.trim();
+  if (!safeApiKey) return headers;
+
+  if (provider.authScheme === 'bearer') {
+    headers['Authorization'] = `Bearer ${safeApiKey}`;
+  } else if (provider.authScheme === 'header' && provider.authHeader?.trim()) {
+    headers[provider.authHeader.trim()] = safeApiKey;
+  }
+  return headers;
+};
+
+// Reads the first populated reasoning field from a stream delta
+export const extractDeltaReasoning = (provider: ProviderConfig, delta: any): string => {
+  for (const field of provider.reasoningFields) {
+    const value = delta?.[field];
+    if (!value) continue;
+
+    if (typeof value === 'string') return value;
+    if (Array.isArray(value)) {
+      // OpenRouter's reasoning_details: [{ type, text }, ...]
+      return value.map((item: any) => {
+        if (typeof item === 'string') return item;
+        return item?.t || item?.text || item?.content || item?.reasoning || '';
+      }).filter(Boolean).join('');
+    }
+    if (typeof value === 'object') {
+      return value.t || value.text || value.content || '';
+    }
+  }
+  return '';
+};
@@ -0,0 +1,78 @@
+import { Message, ReasoningReplay, Role } from '../types';
+import { ProviderConfig } from './providers';
+import { estimateMessageTokens, estimateTokens } from './tokenBudget';
+
+// Decides whether earlier chains of thought go back to the model, and in what form.
+// 'field' needs provider support; everything else degrades to appending in-content.
+
+export type ReplayFormat = 'append' | 'field';
+
+export const DEFAULT_REASONING_REPLAY: ReasoningReplay = {
+  policy: 'omit',
+  lastTurns: 2
+};
+
+export const REASONING_REPLAY_LABELS: Record<ReasoningReplay['policy'], string> = {
+  omit: '不回传 (默认)',
+  append: '拼接到回答正文前',
+  field: '作为 reasoning 字段发送',
+  'last-n': '仅回传最近 N 轮'
+};
+
+const resolveFormat = (provider: ProviderConfig, preferField: boolean): ReplayFormat =>
+  preferField && provider.reasoningInputField ? 'field' : 'append';
+
+// Maps assistant message id -> how its reasoning is replayed; absent ids send no reasoning
+export const planReasoningReplay = (
+  history: Message[],
+  replay: ReasoningReplay,
+  provider: ProviderConfig
+): Map<string, ReplayFormat> => {
+  const plan = new Map<string, ReplayFormat>();
+  if (replay.policy === 'omit') return plan;
+
+  const candidates = history.filter(msg => msg.role === Role.MODEL && msg.reasoning?.trim());
+  const selected = replay.policy === 'last-n'
+    ? candidates.slice(-Math.max(1, replay.lastTurns))
+    : candidates;
+  // 'last-n' uses the native field where available, like 'field'
+  const format = resolveFormat(provider, replay.policy !== 'append');
+
+  for (const msg of selected) {
+    plan.set(msg.id, format);
+  }
+  return plan;
+};
+
+// A history message's cost as sent, including any chain of thought replayed with it
+export const estimateReplayedMessageTokens = (msg: Message, plan: Map<string, ReplayFormat>): number =>
+  estimateMessageTokens(msg) + (plan.has(msg.id) ? estimateTokens(msg.reasoning || '') : 0);
+
+export const estimateReplayedHistoryTokens = (history: Message[], replay: ReasoningReplay, provider: ProviderConfig): number => {
+  const plan = planReasoningReplay(history, replay, provider);
+  return history.reduce((sum, msg) => sum + estimateReplayedMessageTokens(msg, plan), 0);
+};
+
+export const appendReasoningToContent = (reasoning: string, text: string) =>
+  `<think>\n${reasoning.trim()}\n</think>\n\n${text}`;
+
+// Builds the API message for an assistant turn under the given replay format
+export const applyReasoningReplay = (
+  apiMessage: Record<string, unknown>,
+  msg: Message,
+  format: ReplayFormat | undefined,
+  provider: ProviderConfig
+): Record<string, unknown> => {
+  if (!format || !msg.reasoning) return apiMessage;
+  if (format === 'field' && provider.reasoningInputField) {
+    return { ...apiMessage, [provider.reasoningInputField]: msg.reasoning };
+  }
+  return { ...apiMessage, content: appendReasoningToContent(msg.reasoning, msg.text) };
+};
+
+// Some servers reject unknown message fields with a 400; those requests are resent in-content
+export const downgradeFieldReplay = (plan: Map<string, ReplayFormat>): Map<string, ReplayFormat> =>
+  new Map([...plan].map(([id]) => [id, 'append' as ReplayFormat]));
+
+export const usesFieldReplay = (plan: Map<string, ReplayFormat>) =>
+  [...plan.values()].includes('field');
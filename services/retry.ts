@@ -0,0 +1,95 @@
+// Retry policy for transient API failures (rate limits, gateway errors, dropped streams)
+
+export interface RetryConfig {
+  enabled: boolean;
+  maxRetries: number;
+  baseDelayMs: number; // Doubled on every attempt
+  maxDelayMs: number;
+  autoResume: boolean; // Continue a partially streamed answer instead of starting over
+}
+
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  enabled: true,
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  autoResume: true
+};
+
+const RETRY_CONFIG_KEY = 'retry_config';
+
+// Retry-After is honoured up to this cap so a bad header can't stall the UI indefinitely
+const MAX_RETRY_AFTER_MS = 120000;
+
+const RETRYABLE_STATUS = new Set([408, 425, 429, 500, 502, 503, 504, 520, 522, 524, 529]);
+
+export class ApiError extends Error {
+  status?: number;
+  retryAfterMs?: number;
+  retryable: boolean;
+  prefillRejected: boolean; // The HTTP response refused a request that carried an assistant prefill
+
+  constructor(
+    message: string,
+    options: { status?: number; retryAfterMs?: number; retryable?: boolean; prefillRejected?: boolean } = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.prefillRejected = options.prefillRejected ?? false;
+    this.retryable = options.retryable ?? (options.status !== undefined && RETRYABLE_STATUS.has(options.status));
+  }
+}
+
+export const loadRetryConfig = (): RetryConfig => {
+  try {
+    return { ...DEFAULT_RETRY_CONFIG, ...JSON.parse(localStorage.getItem(RETRY_CONFIG_KEY) || '{}') };
+  } catch (e) {
+    return DEFAULT_RETRY_CONFIG;
+  }
+};
+
+export const saveRetryConfig = (config: RetryConfig) => {
+  localStorage.setItem(RETRY_CONFIG_KEY, JSON.stringify(config));
+};
+
+// Retry-After is either delta-seconds or an HTTP date
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+export const isRetryableError = (error: any): boolean => {
+  if (error?.name === 'AbortError') return false;
+  if (error instanceof ApiError) return error.retryable;
+  // fetch() and reader.read() reject with TypeError when the connection drops
+  return error instanceof TypeError;
+};
+
+export const computeBackoffDelay = (attempt: number, config: RetryConfig, retryAfterMs?: number): number => {
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, MAX_RETRY_AFTER_MS);
+  const exponential = Math.min(config.baseDelayMs * 2 ** attempt, config.maxDelayMs);
+  // Full jitter over the upper half keeps parallel tabs from retrying in lockstep
+  return Math.round(exponential / 2 + Math.random() * exponential / 2);
+};
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -0,0 +1,265 @@
+// Code that runs inside the execution sandbox, kept as self-contained functions so it
+// can be serialized with Function.prototype.toString. Neither function may reference
+// anything outside its own body.
+//
+// Layout: a hidden iframe (sandbox="allow-scripts", CSP with no connect/img/font
+// sources) receives the job, starts a Worker from a blob URL and relays its messages.
+// The worker inherits the frame's CSP, so the browser itself refuses network access;
+// removing the iframe ends the worker, which is how timeouts are enforced.
+//
+// The worker also sends heartbeats: from a timer while it waits, and from a tick call
+// the runner inserts into every loop and function body while user code is busy. They
+// stop when the engine is stuck inside a single allocation, which is when the runner
+// tears the sandbox down; that works everywhere and is the primary guard. The heap size
+// they carry is a Chromium-only extra.
+
+// Name of the tick function the runner inserts into user code
+export const SANDBOX_TICK = '__sandboxTick';
+
+// performance.memory is Chromium-only, so not in the DOM typings, and may be missing in workers
+interface PerformanceWithMemory extends Performance {
+  memory?: { usedJSHeapSize: number };
+}
+
+// Runs in the sandbox iframe
+export function sandboxFrameMain() {
+  window.addEventListener('message', (event: MessageEvent) => {
+    if (event.source !== window.parent) return;
+    const { workerSource, ...job } = event.data;
+    let worker: Worker;
+    try {
+      worker = new Worker(URL.createObjectURL(new Blob([workerSource], { type: 'text/javascript' })));
+    } catch (e) {
+      window.parent.postMessage({ type: 'done', status: 'error', error: `无法启动沙箱: ${e}` }, '*');
+      return;
+    }
+    worker.onmessage = (e: MessageEvent) => window.parent.postMessage(e.data, '*');
+    worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      const status = /memory|allocation/i.test(e.message) ? 'memory' : 'error';
+      window.parent.postMessage({ type: 'done', status, error: e.message }, '*');
+    };
+    worker.postMessage(job);
+  });
+  window.parent.postMessage({ type: 'ready' }, '*');
+}
+
+// Runs in the worker. Provides console, a small Node-like surface for reading stdin
+// (process.stdin, fs.readFileSync(0), readline) and the d8-style readline()/print().
+export function sandboxWorkerMain() {
+  const scope: any = self;
+  const post = (message: any) => scope.postMessage(message);
+
+  // Defense in depth behind the CSP: remove network and storage entry points
+  for (const name of ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'WebTransport', 'importScripts',
+    'Worker', 'SharedWorker', 'BroadcastChannel', 'indexedDB', 'caches']) {
+    for (let target = scope; target; target = Object.getPrototypeOf(target)) {
+      if (Object.prototype.hasOwnProperty.call(target, name)) {
+        try { Object.defineProperty(target, name, { value: undefined, writable: false, configurable: false }); } catch (e) { /* Not configurable */ }
+      }
+    }
+  }
+
+  scope.onmessage = async (event: MessageEvent) => {
+    const { code, stdin, outputLimit, tickName, heartbeatMs } = event.data as {
+      code: string; stdin: string; outputLimit: number; tickName: string; heartbeatMs: number;
+    };
+    const EXIT = Symbol('exit');
+    const LIMIT = Symbol('limit');
+    let finished = false;
+    let outputSize = 0;
+
+    const finish = (result: any) => {
+      if (finished) return;
+      finished = true;
+      post({ type: 'done', ...result });
+    };
+
+    const write = (stream: 'stdout' | 'stderr', text: string) => {
+      if (finished) return;
+      outputSize += text.length;
+      if (outputSize > outputLimit) {
+        finish({ status: 'output-limit' });
+        throw LIMIT;
+      }
+      post({ type: 'output', stream, text });
+    };
+
+    const formatValue = (value: any, depth: number, seen: Set<any>): string => {
+      if (typeof value === 'string') return depth > 0 ? JSON.stringify(value) : value;
+      if (typeof value === 'bigint') return `${value}n`;
+      if (typeof value === 'function') return `[Function ${value.name || '(anonymous)'}]`;
+      if (value === null || typeof value !== 'object') return String(value);
+      if (value instanceof Error) return `${value.name}: ${value.message}`;
+      if (seen.has(value)) return '[Circular]';
+      if (depth > 4) return Array.isArray(value) ? '[Array]' : '[Object]';
+      seen.add(value);
+      const inner = (v: any) => formatValue(v, depth + 1, seen);
+      let out: string;
+      if (Array.isArray(value)) {
+        out = value.length ? `[ ${value.map(inner).join(', ')} ]` : '[]';
+      } else if (value instanceof Map) {
+        out = `Map(${value.size}) { ${[...value].map(([k, v]) => `${inner(k)} => ${inner(v)}`).join(', ')} }`;
+      } else if (value instanceof Set) {
+        out = `Set(${value.size}) { ${[...value].map(inner).join(', ')} }`;
+      } else {
+        const entries = Object.entries(value).map(([k, v]) => `${/^[A-Za-z_$][\w$]*$/.test(k) ? k : JSON.stringify(k)}: ${inner(v)}`);
+        const name = value.constructor && value.constructor !== Object ? `${value.constructor.name} ` : '';
+        out = entries.length ? `${name}{ ${entries.join(', ')} }` : `${name}{}`;
+      }
+      seen.delete(value);
+      return out;
+    };
+    const format = (args: any[]) => args.map(arg => formatValue(arg, 0, new Set())).join(' ');
+
+    let lastBeat = 0;
+    let ticks = 0;
+    const beat = () => {
+      lastBeat = performance.now();
+      post({ type: 'heartbeat', heapBytes: (performance as PerformanceWithMemory).memory?.usedJSHeapSize });
+    };
+    const tick = () => {
+      if ((++ticks & 1023) === 0 && performance.now() - lastBeat >= heartbeatMs) beat();
+    };
+    beat();
+    scope.setInterval(beat, heartbeatMs);
+
+    const fail = (error: any) => {
+      if (error === LIMIT || finished) return;
+      if (error && error[EXIT] !== undefined) {
+        finish({ status: 'exit', exitCode: error[EXIT] });
+        return;
+      }
+      const message = error instanceof Error ? `${error.name}: ${error.message}` : `Uncaught ${formatValue(error, 0, new Set())}`;
+      const isMemory = error instanceof RangeError && /allocation failed|out of memory/i.test(error.message);
+      try { write('stderr', message + '\n'); } catch (e) { /* Output limit reached */ }
+      finish({ status: isMemory ? 'memory' : 'error', error: message });
+    };
+
+    // Timers are tracked so the run can end once nothing is left to fire
+    const timers = new Set<number>();
+    let onIdle: (() => void) | null = null;
+    const checkIdle = () => {
+      if (timers.size === 0 && onIdle) scope.setTimeout(() => timers.size === 0 && onIdle && onIdle(), 0);
+    };
+    const guard = (fn: Function, args: any[]) => {
+      try { fn(...args); } catch (e) { fail(e); }
+    };
+    const sandboxSetTimeout = (fn: Function, ms?: number, ...args: any[]) => {
+      const id: number = scope.setTimeout(() => { timers.delete(id); guard(fn, args); checkIdle(); }, ms);
+      timers.add(id);
+      return id;
+    };
+    const sandboxSetInterval = (fn: Function, ms?: number, ...args: any[]) => {
+      const id: number = scope.setInterval(() => guard(fn, args), ms);
+      timers.add(id);
+      return id;
+    };
+    const sandboxClearTimer = (id: number) => {
+      if (timers.delete(id)) scope.clearTimeout(id);
+      checkIdle();
+    };
+
+    const lines = stdin.split(/\r?\n/);
+    if (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+    let nextLine = 0;
+    const readLine = () => (nextLine < lines.length ? lines[nextLine++] : undefined);
+
+    const readFileSync = (path: any) => {
+      if (path === 0 || path === '/dev/stdin') return stdin;
+      throw new Error(`ENOENT: 沙箱中没有文件系统 (${path})`);
+    };
+
+    const createInterface = () => {
+      const listeners: Record<string, Function[]> = {};
+      const rl: any = {
+        on(name: string, fn: Function) { (listeners[name] = listeners[name] || []).push(fn); return rl; },
+        close() {},
+        question(prompt: string, fn: Function) { write('stdout', prompt); sandboxSetTimeout(() => fn(readLine() ?? '')); },
+        async *[Symbol.asyncIterator]() {
+          for (let line = readLine(); line !== undefined; line = readLine()) yield line;
+        }
+      };
+      rl.once = rl.on;
+      sandboxSetTimeout(() => {
+        if (!listeners.line && !listeners.close) return;
+        for (let line = readLine(); line !== undefined; line = readLine()) {
+          (listeners.line || []).forEach(fn => fn(line));
+        }
+        (listeners.close || []).forEach(fn => fn());
+      });
+      return rl;
+    };
+
+    const stdinStream: any = {
+      fd: 0,
+      setEncoding() { return stdinStream; },
+      resume() { return stdinStream; },
+      on(name: string, fn: Function) {
+        if (name === 'data') sandboxSetTimeout(() => fn(stdin));
+        if (name === 'end' || name === 'close') sandboxSetTimeout(() => sandboxSetTimeout(() => fn()));
+        return stdinStream;
+      }
+    };
+    stdinStream.once = stdinStream.on;
+
+    const processShim = {
+      argv: ['node', 'main'],
+      env: {},
+      platform: 'sandbox',
+      stdin: stdinStream,
+      stdout: { write: (text: any) => { write('stdout', String(text)); return true; } },
+      stderr: { write: (text: any) => { write('stderr', String(text)); return true; } },
+      exit: (exitCode = 0) => { throw { [EXIT]: exitCode }; },
+      nextTick: (fn: Function, ...args: any[]) => queueMicrotask(() => guard(fn, args)),
+      hrtime: { bigint: () => BigInt(Math.round(performance.now() * 1e6)) }
+    };
+
+    const modules: Record<string, any> = {
+      fs: { readFileSync },
+      readline: { createInterface },
+      process: processShim,
+      util: { format: (...args: any[]) => format(args), inspect: (value: any) => formatValue(value, 1, new Set()) }
+    };
+    const requireShim = (name: string) => {
+      const module = modules[name.replace(/^node:/, '')];
+      if (!module) throw new Error(`Cannot find module '${name}' (沙箱中不可用)`);
+      return module;
+    };
+
+    const consoleShim = {
+      log: (...args: any[]) => write('stdout', format(args) + '\n'),
+      info: (...args: any[]) => write('stdout', format(args) + '\n'),
+      debug: (...args: any[]) => write('stdout', format(args) + '\n'),
+      error: (...args: any[]) => write('stderr', format(args) + '\n'),
+      warn: (...args: any[]) => write('stderr', format(args) + '\n'),
+      table: (value: any) => write('stdout', formatValue(value, 0, new Set()) + '\n')
+    };
+
+    scope.onunhandledrejection = (e: PromiseRejectionEvent) => {
+      e.preventDefault();
+      fail(e.reason);
+    };
+
+    try {
+      const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+      const module = { exports: {} };
+      const run = new AsyncFunction(
+        'console', 'require', 'process', 'module', 'exports',
+        'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'readline', 'print', tickName,
+        code
+      );
+      await run(
+        consoleShim, requireShim, processShim, module, module.exports,
+        sandboxSetTimeout, sandboxClearTimer, sandboxSetInterval, sandboxClearTimer, readLine, consoleShim.log, tick
+      );
+      await new Promise<void>(resolve => {
+        onIdle = resolve;
+        checkIdle();
+      });
+      finish({ status: 'ok' });
+    } catch (e) {
+      fail(e);
+    }
+  };
+}
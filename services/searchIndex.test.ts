@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { Conversation, Role } from '../types';
+import { buildSearchIndex, searchConversations } from './searchIndex';
+
+const conversation: Conversation = {
+  id: 'c1',
+  title: '比较',
+  messages: [
+    { id: 'u1', parentId: null, role: Role.USER, text: '证明勾股定理', timestamp: 1 },
+    { id: 'm1', parentId: 'u1', role: Role.MODEL, text: '勾股定理的一种证明', timestamp: 2 },
+    { id: 'm2', parentId: 'u1', role: Role.MODEL, text: '勾股定理的另一种证明', timestamp: 3, modelId: 'qwen/qwen3-max' }
+  ],
+  mode: 'math',
+  providerId: 'openrouter',
+  modelId: 'deepseek/deepseek-r1',
+  settings: { temperature: 0.6, systemPrompt: '' },
+  createdAt: 1,
+  updatedAt: 3
+};
+
+describe('searchConversations', () => {
+  const index = buildSearchIndex([conversation]);
+
+  it('finds CJK text by bigrams across every branch', () => {
+    expect(searchConversations(index, '勾股').map(hit => hit.messageId).sort()).toEqual(['m1', 'm2', 'u1']);
+  });
+
+  it('filters by the model that wrote each answer', () => {
+    expect(searchConversations(index, '证明', { modelId: 'qwen/qwen3-max' }).map(hit => hit.messageId)).toEqual(['m2']);
+    expect(searchConversations(index, '证明', { modelId: 'deepseek/deepseek-r1' }).map(hit => hit.messageId).sort())
+      .toEqual(['m1', 'u1']);
+  });
+});
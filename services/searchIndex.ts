@@ -0,0 +1,231 @@
+import { Conversation, ReasoningMode, Role } from '../types';
+
+// Local full-text search over every branch of every saved conversation. CJK text has no
+// word boundaries, so runs of CJK characters are indexed as single characters plus
+// overlapping bigrams; other scripts are indexed as lowercase words matched by prefix.
+
+export type SearchField = 'text' | 'reasoning';
+
+export interface SearchFilters {
+  mode?: ReasoningMode;
+  modelId?: string;
+  from?: number; // Inclusive, ms timestamp
+  to?: number; // Exclusive, ms timestamp
+}
+
+export interface SearchHit {
+  conversationId: string;
+  conversationTitle: string;
+  messageId: string;
+  role: Role;
+  field: SearchField;
+  mode: ReasoningMode;
+  modelId: string;
+  timestamp: number;
+  score: number;
+  snippet: string;
+  highlights: [number, number][]; // [start, end) offsets into snippet
+}
+
+interface SearchDocument {
+  conversationId: string;
+  conversationTitle: string;
+  messageId: string;
+  role: Role;
+  field: SearchField;
+  mode: ReasoningMode;
+  modelId: string;
+  timestamp: number;
+  text: string;
+  normalized: string;
+  offsets: number[]; // Original offset of each UTF-16 unit in `normalized`, plus the end
+}
+
+export interface SearchIndex {
+  documents: SearchDocument[];
+  postings: Map<string, number[]>; // Token -> ascending document indices
+}
+
+const CJK_RUN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+/u;
+const TOKEN_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+|[\p{L}\p{N}_]+/gu;
+
+const SNIPPET_BEFORE = 40;
+const SNIPPET_LENGTH = 160;
+const MAX_HITS = 100;
+
+// NFKC folds full-width forms (ＡＢＣ, １２３) into ASCII. Normalizing per code point keeps
+// a map back to the original text so highlights land on the right characters.
+const normalize = (text: string): { normalized: string; offsets: number[] } => {
+  let normalized = '';
+  const offsets: number[] = [];
+  let position = 0;
+  for (const char of text) {
+    const folded = char.normalize('NFKC').toLowerCase();
+    normalized += folded;
+    for (let i = 0; i < folded.length; i++) offsets.push(position);
+    position += char.length;
+  }
+  offsets.push(position);
+  return { normalized, offsets };
+};
+
+// Tokens of already-normalized text
+const tokenizeNormalized = (text: string): string[] => {
+  const tokens: string[] = [];
+  for (const [run] of text.matchAll(TOKEN_PATTERN)) {
+    if (!CJK_RUN.test(run)) {
+      tokens.push(run);
+      continue;
+    }
+    const chars = Array.from(run);
+    chars.forEach((char, i) => {
+      tokens.push(char);
+      if (i + 1 < chars.length) tokens.push(char + chars[i + 1]);
+    });
+  }
+  return tokens;
+};
+
+export const tokenize = (text: string): string[] => tokenizeNormalized(normalize(text).normalized);
+
+export const buildSearchIndex = (conversations: Conversation[]): SearchIndex => {
+  const documents: SearchDocument[] = [];
+  const postings = new Map<string, number[]>();
+
+  const addDocument = (doc: Omit<SearchDocument, 'normalized' | 'offsets'>) => {
+    const { normalized, offsets } = normalize(doc.text);
+    const docIndex = documents.length;
+    documents.push({ ...doc, normalized, offsets });
+    for (const token of new Set(tokenizeNormalized(normalized))) {
+      const list = postings.get(token);
+      if (list) list.push(docIndex); else postings.set(token, [docIndex]);
+    }
+  };
+
+  for (const conversation of conversations) {
+    for (const msg of conversation.messages) {
+      if (msg.isStreaming) continue;
+      const base = {
+        conversationId: conversation.id,
+        conversationTitle: conversation.title,
+        messageId: msg.id,
+        role: msg.role,
+        mode: msg.mode || conversation.mode,
+        // Compare and sampling answers record the model that wrote them
+        modelId: msg.modelId ?? conversation.modelId,
+        timestamp: msg.timestamp
+      };
+      if (msg.text.trim()) addDocument({ ...base, field: 'text', text: msg.text });
+      if (msg.reasoning?.trim()) addDocument({ ...base, field: 'reasoning', text: msg.reasoning });
+    }
+  }
+  return { documents, postings };
+};
+
+const intersect = (a: number[], b: number[]): number[] => {
+  const result: number[] = [];
+  for (let i = 0, j = 0; i < a.length && j < b.length;) {
+    if (a[i] === b[j]) { result.push(a[i]); i++; j++; }
+    else if (a[i] < b[j]) i++;
+    else j++;
+  }
+  return result;
+};
+
+// Documents containing `token`; words also match longer words they prefix
+const lookupToken = (index: SearchIndex, token: string): number[] => {
+  if (CJK_RUN.test(token)) return index.postings.get(token) || [];
+  const matches = new Set<number>();
+  for (const [key, docs] of index.postings) {
+    if (key.startsWith(token)) docs.forEach(doc => matches.add(doc));
+  }
+  return [...matches].sort((a, b) => a - b);
+};
+
+// For a CJK term only its bigrams are needed to find candidates; single characters
+// are used when the term is one character long.
+const termLookupTokens = (term: string): string[] => {
+  const tokens = tokenizeNormalized(term);
+  const bigrams = tokens.filter(token => CJK_RUN.test(token) && Array.from(token).length === 2);
+  const coveredChars = new Set(bigrams.flatMap(bigram => Array.from(bigram)));
+  return tokens.filter(token => !CJK_RUN.test(token) || bigrams.includes(token) || !coveredChars.has(token));
+};
+
+const findOccurrences = (text: string, term: string): [number, number][] => {
+  const ranges: [number, number][] = [];
+  for (let at = text.indexOf(term); at !== -1; at = text.indexOf(term, at + term.length)) {
+    ranges.push([at, at + term.length]);
+  }
+  return ranges;
+};
+
+const mergeRanges = (ranges: [number, number][]): [number, number][] => {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+  }
+  return merged;
+};
+
+const buildSnippet = (text: string, ranges: [number, number][]): Pick<SearchHit, 'snippet' | 'highlights'> => {
+  const start = Math.max(0, ranges[0][0] - SNIPPET_BEFORE);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const snippet = prefix + text.slice(start, end).replace(/\s+/g, ' ') + (end < text.length ? '…' : '');
+  // Whitespace collapsing can shift offsets, so highlights are located again in the snippet
+  const highlights = ranges
+    .filter(([from, to]) => from >= start && to <= end)
+    .map(([from, to]) => text.slice(from, to).replace(/\s+/g, ' '))
+    .flatMap(match => findOccurrences(snippet, match));
+  return { snippet, highlights: mergeRanges(highlights) };
+};
+
+// Every whitespace-separated term must occur in the message (AND); results are ranked
+// by number of occurrences, then by recency.
+export const searchConversations = (index: SearchIndex, query: string, filters: SearchFilters = {}): SearchHit[] => {
+  const terms = [...new Set(normalize(query).normalized.split(/\s+/).filter(Boolean))];
+  const lookups = terms.map(termLookupTokens).filter(tokens => tokens.length > 0);
+  if (lookups.length === 0) return [];
+
+  let candidates: number[] | null = null;
+  for (const token of lookups.flat()) {
+    const docs = lookupToken(index, token);
+    candidates = candidates ? intersect(candidates, docs) : docs;
+    if (candidates.length === 0) return [];
+  }
+
+  const hits: SearchHit[] = [];
+  for (const docIndex of candidates || []) {
+    const doc = index.documents[docIndex];
+    if (filters.mode && doc.mode !== filters.mode) continue;
+    if (filters.modelId && doc.modelId !== filters.modelId) continue;
+    if (filters.from !== undefined && doc.timestamp < filters.from) continue;
+    if (filters.to !== undefined && doc.timestamp >= filters.to) continue;
+
+    // Candidates only share tokens with the query; confirm each term appears verbatim
+    const occurrences = terms.map(term => findOccurrences(doc.normalized, term));
+    if (occurrences.some(ranges => ranges.length === 0)) continue;
+
+    const ranges = mergeRanges(occurrences.flat())
+      .map(([from, to]): [number, number] => [doc.offsets[from], doc.offsets[to]]);
+    hits.push({
+      conversationId: doc.conversationId,
+      conversationTitle: doc.conversationTitle,
+      messageId: doc.messageId,
+      role: doc.role,
+      field: doc.field,
+      mode: doc.mode,
+      modelId: doc.modelId,
+      timestamp: doc.timestamp,
+      score: occurrences.reduce((sum, list) => sum + list.length, 0),
+      ...buildSnippet(doc.text, ranges)
+    });
+  }
+
+  return hits
+    .sort((a, b) => b.score - a.score || b.timestamp - a.timestamp)
+    .slice(0, MAX_HITS);
+};
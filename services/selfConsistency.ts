@@ -0,0 +1,236 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Message, PromptContent, ReasoningMode, Role, TokenUsage, VoteSummary } from '../types';
+import { ModelPricing } from './pricing';
+import { getPromptParts } from './messageArtifacts';
+
+// Self-consistency sampling: the same prompt is sampled N times, each run's final answer
+// is extracted and the answers are put to a vote. Like compare runs, samples stay
+// outside the conversation tree until one is promoted into it.
+
+export interface SamplingConfig {
+  samples: number;
+  concurrency: number; // Requests in flight at once
+}
+
+export const DEFAULT_SAMPLING_CONFIG: SamplingConfig = { samples: 5, concurrency: 2 };
+export const SAMPLE_COUNT_OPTIONS = [3, 5, 7, 9, 12, 16];
+export const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6, 8];
+
+// Modes whose answers have a single checkable result worth voting on
+export const VOTING_MODE_IDS: ReasoningMode[] = ['math', 'logic'];
+
+// Used for the cost preview until the conversation has answers with reported usage
+const DEFAULT_EXPECTED_COMPLETION_TOKENS = 4000;
+
+const SAMPLING_CONFIG_KEY = 'self_consistency_config';
+
+export type SampleStatus = 'queued' | 'streaming' | 'done' | 'error';
+
+export interface SampleResult {
+  status: SampleStatus;
+  text: string;
+  reasoning: string;
+  answer: string | null; // Extracted final answer, once the sample is done
+  thinkingTime?: number;
+  usage?: TokenUsage;
+  cost?: number;
+  finishReason?: string;
+  error?: string;
+  promotedMessageId?: string;
+}
+
+export interface SamplingRun {
+  id: string;
+  parentId: string; // The user message every sample answers
+  prompt: PromptContent;
+  history: Message[];
+  modelId: string;
+  startedAt: number;
+  concurrency: number;
+  samples: SampleResult[];
+}
+
+export interface VoteBucket {
+  key: string; // Normalized answer
+  answer: string; // As the first sample in the bucket wrote it
+  sampleIndexes: number[];
+}
+
+export interface VoteTally {
+  buckets: VoteBucket[]; // Most votes first
+  voted: number; // Samples with an extractable answer
+  agreement: number; // Share of `voted` behind the leading answer, 0–1
+}
+
+export interface SamplingCostEstimate {
+  expected: number; // USD, at the conversation's average answer length
+  max: number; // USD, if every sample uses the full output reserve
+}
+
+export const supportsVoting = (modeId: ReasoningMode) => VOTING_MODE_IDS.includes(modeId);
+
+export const loadSamplingConfig = (): SamplingConfig => {
+  try {
+    return { ...DEFAULT_SAMPLING_CONFIG, ...JSON.parse(localStorage.getItem(SAMPLING_CONFIG_KEY) || '{}') };
+  } catch (e) {
+    return DEFAULT_SAMPLING_CONFIG;
+  }
+};
+
+export const saveSamplingConfig = (config: SamplingConfig) => {
+  localStorage.setItem(SAMPLING_CONFIG_KEY, JSON.stringify(config));
+};
+
+// Contents of the last \boxed{...} (or \fbox{...}), with nested braces kept intact
+const extractLastBoxed = (text: string): string | null => {
+  const pattern = /\\(?:boxed|fbox)\s*\{/g;
+  let last: RegExpExecArray | null = null;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) last = match;
+  if (!last) return null;
+
+  let depth = 1;
+  const start = last.index + last[0].length;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++; // Skip escaped braces
+    } else if (text[i] === '{') {
+      depth++;
+    } else if (text[i] === '}' && --depth === 0) {
+      return text.slice(start, i).trim();
+    }
+  }
+  return null; // Unclosed, e.g. cut off mid-stream
+};
+
+const ANSWER_LINE_PATTERN = /(?:最终答案|答案|结论|final answer|answer)\s*(?:是|为|is)?\s*[:：]\s*(.+)$/i;
+
+const stripMarkdown = (line: string) => line
+  .replace(/^\s*(?:[#>]+|[-*+]|\d+[.)])\s+/, '')
+  .replace(/\*\*|__/g, '')
+  .trim()
+  .replace(/^\$+|\$+$/g, '')
+  .trim();
+
+// Prefers \boxed{}, then an explicit "答案：" line, then the last line of prose
+export const extractFinalAnswer = (text: string): string | null => {
+  const boxed = extractLastBoxed(text);
+  if (boxed) return boxed;
+
+  const lines = text.replace(/```[\s\S]*?```/g, '').split('\n').map(line => line.trim()).filter(Boolean);
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const labelled = lines[i].match(ANSWER_LINE_PATTERN);
+    if (labelled) return stripMarkdown(labelled[1]) || null;
+  }
+  const lastLine = lines.length > 0 ? stripMarkdown(lines[lines.length - 1]) : '';
+  return lastLine || null;
+};
+
+// Folds formatting differences so "$x = \dfrac{1}{2}$", "x=\frac12" and "1/2" vote together
+export const normalizeAnswer = (answer: string): string => {
+  let key = answer.normalize('NFKC')
+    .replace(/\\(?:text|mathrm|textbf|mathbf)\s*\{([^{}]*)\}/g, '$1')
+    .replace(/\\[dt]frac/g, '\\frac')
+    .replace(/\\frac\s*(\d)\s*(\d)/g, '\\frac{$1}{$2}')
+    .replace(/\\frac\{(-?\d+)\}\{(\d+)\}/g, '$1/$2')
+    .replace(/\\(?:left|right|displaystyle)\b/g, '')
+    .replace(/\\[,;:! ]/g, '')
+    .replace(/[\s$]/g, '')
+    .replace(/[。.,，;；]+$/, '')
+    .toLowerCase();
+  key = key.replace(/^[a-z]=(?!=)/, ''); // "x=3" and "3" agree
+  if (/^[-+]?\d+(?:\.\d+)?$/.test(key)) key = String(Number(key)); // 0.50 → 0.5
+  return key;
+};
+
+export const tallyVotes = (samples: SampleResult[]): VoteTally => {
+  const buckets = new Map<string, VoteBucket>();
+  samples.forEach((sample, index) => {
+    if (sample.status !== 'done' || !sample.answer) return;
+    const key = normalizeAnswer(sample.answer);
+    if (!key) return;
+    const bucket = buckets.get(key);
+    if (bucket) bucket.sampleIndexes.push(index);
+    else buckets.set(key, { key, answer: sample.answer, sampleIndexes: [index] });
+  });
+
+  // Ties go to the answer that arrived first
+  const sorted = [...buckets.values()].sort((a, b) =>
+    b.sampleIndexes.length - a.sampleIndexes.length || a.sampleIndexes[0] - b.sampleIndexes[0]);
+  const voted = sorted.reduce((sum, bucket) => sum + bucket.sampleIndexes.length, 0);
+  return { buckets: sorted, voted, agreement: voted > 0 ? sorted[0].sampleIndexes.length / voted : 0 };
+};
+
+// Average answer length so far in the conversation, for the cost preview
+export const estimateCompletionTokens = (messages: Message[]): number => {
+  const measured = messages.filter(msg => msg.role === Role.MODEL && msg.usage).map(msg => msg.usage!.completion_tokens);
+  return measured.length > 0
+    ? Math.round(measured.reduce((sum, tokens) => sum + tokens, 0) / measured.length)
+    : DEFAULT_EXPECTED_COMPLETION_TOKENS;
+};
+
+export const estimateSamplingCost = (
+  samples: number,
+  promptTokens: number,
+  expectedCompletionTokens: number,
+  maxCompletionTokens: number,
+  pricing?: ModelPricing
+): SamplingCostEstimate | undefined => {
+  if (!pricing) return undefined;
+  const promptCost = promptTokens * pricing.prompt;
+  return {
+    expected: samples * (promptCost + Math.min(expectedCompletionTokens, maxCompletionTokens) * pricing.completion),
+    max: samples * (promptCost + maxCompletionTokens * pricing.completion)
+  };
+};
+
+// Runs task(0..count-1) with at most `limit` in flight
+export const runWithConcurrency = async (count: number, limit: number, task: (index: number) => Promise<void>) => {
+  let next = 0;
+  const worker = async () => {
+    while (next < count) await task(next++);
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, count)) }, worker));
+};
+
+export const createSamplingRun = (
+  prompt: Message,
+  history: Message[],
+  modelId: string,
+  config: SamplingConfig
+): SamplingRun => ({
+  id: uuidv4(),
+  parentId: prompt.id,
+  prompt: getPromptParts(prompt),
+  history,
+  modelId,
+  startedAt: Date.now(),
+  concurrency: config.concurrency,
+  samples: Array.from({ length: config.samples }, () => ({ status: 'queued', text: '', reasoning: '', answer: null }))
+});
+
+export const getVoteSummary = (tally: VoteTally, sampleIndex: number): VoteSummary | undefined => {
+  const bucket = tally.buckets.find(b => b.sampleIndexes.includes(sampleIndex));
+  return bucket ? { answer: bucket.answer, votes: bucket.sampleIndexes.length, total: tally.voted } : undefined;
+};
+
+export const sampleToMessage = (
+  sample: SampleResult,
+  parentId: string,
+  modelId: string,
+  mode: ReasoningMode,
+  vote?: VoteSummary
+): Message => ({
+  id: uuidv4(),
+  parentId,
+  role: Role.MODEL,
+  text: sample.text,
+  reasoning: sample.reasoning || undefined,
+  timestamp: Date.now(),
+  thinkingTime: sample.thinkingTime,
+  mode,
+  modelId,
+  usage: sample.usage,
+  cost: sample.cost,
+  finishReason: sample.finishReason,
+  vote
+});
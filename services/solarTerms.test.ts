@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { findSurroundingJie, getEquationOfTime, getSolarTerm, getSunLongitude, getTrueSolarTime } from './solarTerms';
+
+// Published instants (Purple Mountain Observatory, Beijing time); the header promises
+// agreement within a minute or two, so a minute is the tolerance here.
+const TERM_FIXTURES: [number, number, string, string][] = [
+  [2024, 2, '立春', '2024-02-04T16:26:53+08:00'],
+  [2024, 5, '春分', '2024-03-20T11:06:21+08:00'],
+  [2024, 23, '冬至', '2024-12-21T17:20:20+08:00'],
+  [2023, 11, '夏至', '2023-06-21T22:57:37+08:00']
+];
+
+const MINUTE_MS = 60000;
+
+describe('getSolarTerm', () => {
+  it.each(TERM_FIXTURES)('%i %s', (year, index, name, published) => {
+    const term = getSolarTerm(year, index);
+    expect(term.name).toBe(name);
+    expect(Math.abs(term.time.getTime() - Date.parse(published))).toBeLessThan(MINUTE_MS);
+  });
+
+  it('puts 立春 at 315° and marks it a 节', () => {
+    const term = getSolarTerm(2024, 2);
+    expect(term.longitude).toBe(315);
+    expect(term.isJie).toBe(true);
+    expect(getSunLongitude(term.time)).toBeCloseTo(315, 5);
+    expect(getSolarTerm(2024, 3).isJie).toBe(false);
+  });
+});
+
+describe('findSurroundingJie', () => {
+  it('brackets an instant between the 节 on either side', () => {
+    const { previous, next } = findSurroundingJie(new Date('2024-02-04T16:00:00+08:00'));
+    expect(previous.name).toBe('小寒');
+    expect(next.name).toBe('立春');
+    expect(Math.abs(next.time.getTime() - Date.parse('2024-02-04T16:26:53+08:00'))).toBeLessThan(MINUTE_MS);
+  });
+});
+
+describe('equation of time and true solar time', () => {
+  // Almanac extremes: about −14m14s around 11 February and +16m26s around 3 November
+  it('matches the almanac extremes', () => {
+    expect(getEquationOfTime(new Date('2024-02-11T12:00:00Z'))).toBeCloseTo(-14.2, 1);
+    expect(getEquationOfTime(new Date('2024-11-03T12:00:00Z'))).toBeCloseTo(16.45, 1);
+  });
+
+  it('adds four minutes per degree of longitude plus the equation of time', () => {
+    const instant = new Date('2024-06-01T04:30:00Z');
+    const shift = (getTrueSolarTime(instant, 87.6).getTime() - instant.getTime()) / MINUTE_MS;
+    expect(shift).toBeCloseTo(87.6 * 4 + getEquationOfTime(instant), 4); // Dates hold whole milliseconds
+  });
+});
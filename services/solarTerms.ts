@@ -0,0 +1,183 @@
+// The 24 solar terms (节气) from the sun's apparent ecliptic longitude. Follows Meeus,
+// "Astronomical Algorithms": a truncated VSOP87 series for the Earth, the FK5 correction,
+// nutation in longitude and aberration. Term instants come out within a minute or two
+// of the published tables for 1800–2150, which is what month boundaries need.
+
+export interface SolarTerm {
+  name: string;
+  longitude: number; // Degrees; 立春 is 315
+  isJie: boolean; // 节 terms (小寒, 立春, 惊蛰…) start a BaZi month; 中气 terms don't
+  time: Date;
+}
+
+// Ordered as they fall in a Gregorian year, from 小寒 at 285°
+export const SOLAR_TERM_NAMES = [
+  '小寒', '大寒', '立春', '雨水', '惊蛰', '春分', '清明', '谷雨', '立夏', '小满', '芒种', '夏至',
+  '小暑', '大暑', '立秋', '处暑', '白露', '秋分', '寒露', '霜降', '立冬', '小雪', '大雪', '冬至'
+];
+
+const DAY_MS = 86400000;
+const J2000 = 2451545;
+const TROPICAL_YEAR_DAYS = 365.2422;
+const DEG = Math.PI / 180;
+const ARCSEC = DEG / 3600;
+
+export const dateToJulianDay = (date: Date): number => date.getTime() / DAY_MS + 2440587.5;
+
+export const julianDayToDate = (jd: number): Date => new Date(Math.round((jd - 2440587.5) * DAY_MS));
+
+export const normalizeDegrees = (degrees: number): number => ((degrees % 360) + 360) % 360;
+
+// ΔT = TT − UT in seconds (Espenak & Meeus polynomials)
+export const deltaTSeconds = (year: number): number => {
+  const poly = (t: number, coefficients: number[]) => coefficients.reduceRight((sum, c) => sum * t + c, 0);
+  if (year < 1800 || year >= 2150) return -20 + 32 * ((year - 1820) / 100) ** 2;
+  if (year >= 2050) return -20 + 32 * ((year - 1820) / 100) ** 2 - 0.5628 * (2150 - year);
+  if (year >= 2005) return poly(year - 2000, [62.92, 0.32217, 0.005589]);
+  if (year >= 1986) return poly(year - 2000, [63.86, 0.3345, -0.060374, 0.0017275, 0.000651814, 0.00002373599]);
+  if (year >= 1961) return poly(year - 1975, [45.45, 1.067, -1 / 260, -1 / 718]);
+  if (year >= 1941) return poly(year - 1950, [29.07, 0.407, -1 / 233, 1 / 2547]);
+  if (year >= 1920) return poly(year - 1920, [21.2, 0.84493, -0.0761, 0.0020936]);
+  if (year >= 1900) return poly(year - 1900, [-2.79, 1.494119, -0.0598939, 0.0061966, -0.000197]);
+  if (year >= 1860) return poly(year - 1860, [7.62, 0.5737, -0.251754, 0.01680668, -0.0004473624, 1 / 233174]);
+  return poly(year - 1800, [13.72, -0.332447, 0.0068612, 0.0041116, -0.00037436, 0.0000121272, -0.0000001699, 0.000000000875]);
+};
+
+// Earth's heliocentric longitude, VSOP87D: [amplitude ×1e-8 rad, phase, frequency] per power of τ
+const EARTH_LONGITUDE_SERIES: [number, number, number][][] = [
+  [
+    [175347046, 0, 0], [3341656, 4.6692568, 6283.07585], [34894, 4.6261, 12566.1517], [3497, 2.7441, 5753.3849],
+    [3418, 2.8289, 3.5231], [3136, 3.6277, 77713.7715], [2676, 4.4181, 7860.4194], [2343, 6.1352, 3930.2097],
+    [1324, 0.7425, 11506.7698], [1273, 2.0371, 529.691], [1199, 1.1096, 1577.3435], [990, 5.233, 5884.927],
+    [902, 2.045, 26.298], [857, 3.508, 398.149], [780, 1.179, 5223.694], [753, 2.533, 5507.553],
+    [505, 4.583, 18849.228], [492, 4.205, 775.523], [357, 2.92, 0.067], [317, 5.849, 11790.629],
+    [284, 1.899, 796.298], [271, 0.315, 10977.079], [243, 0.345, 5486.778], [206, 4.806, 2544.314],
+    [205, 1.869, 5573.143], [202, 2.458, 6069.777], [156, 0.833, 213.299], [132, 3.411, 2942.463],
+    [126, 1.083, 20.775], [115, 0.645, 0.98], [103, 0.636, 4694.003], [102, 0.976, 15720.839],
+    [102, 4.267, 7.114], [99, 6.21, 2146.17], [98, 0.68, 155.42], [86, 5.98, 161000.69],
+    [85, 1.3, 6275.96], [85, 3.67, 71430.7], [80, 1.81, 17260.15], [79, 3.04, 12036.46],
+    [75, 1.76, 5088.63], [74, 3.5, 3154.69], [74, 4.68, 801.82], [70, 0.83, 9437.76],
+    [62, 3.98, 8827.39], [61, 1.82, 7084.9], [57, 2.78, 6286.6], [56, 4.39, 14143.5],
+    [56, 3.47, 6279.55], [52, 0.19, 12139.55], [52, 1.33, 1748.02], [51, 0.28, 5856.48],
+    [49, 0.49, 1194.45], [41, 5.37, 8429.24], [41, 2.4, 19651.05], [39, 6.17, 10447.39],
+    [37, 6.04, 10213.29], [37, 2.57, 1059.38], [36, 1.71, 2352.87], [36, 1.78, 6812.77],
+    [33, 0.59, 17789.85], [30, 0.44, 83996.85], [30, 2.74, 1349.87], [25, 3.16, 4690.48]
+  ],
+  [
+    [628331966747, 0, 0], [206059, 2.678235, 6283.07585], [4303, 2.6351, 12566.1517], [425, 1.59, 3.523],
+    [119, 5.796, 26.298], [109, 2.966, 1577.344], [93, 2.59, 18849.23], [72, 1.14, 529.69],
+    [68, 1.87, 398.15], [67, 4.41, 5507.55], [59, 2.89, 5223.69], [56, 2.17, 155.42],
+    [45, 0.4, 796.3], [36, 0.47, 775.52], [29, 2.65, 7.11], [21, 5.34, 0.98],
+    [19, 1.85, 5486.78], [19, 4.97, 213.3], [17, 2.99, 6275.96], [16, 0.03, 2544.31],
+    [16, 1.43, 2146.17], [15, 1.21, 10977.08], [12, 2.83, 1748.02], [12, 3.26, 5088.63],
+    [12, 5.27, 1194.45], [12, 2.08, 4694], [11, 0.77, 553.57], [10, 1.3, 6286.6],
+    [10, 4.24, 1349.87], [9, 2.7, 242.73], [9, 5.64, 951.72], [8, 5.3, 2352.87],
+    [6, 2.65, 9437.76], [6, 4.67, 4690.48]
+  ],
+  [
+    [52919, 0, 0], [8720, 1.0721, 6283.0758], [309, 0.867, 12566.152], [27, 0.05, 3.52],
+    [16, 5.19, 26.3], [16, 3.68, 155.42], [10, 0.76, 18849.23], [9, 2.06, 77713.77],
+    [7, 0.83, 775.52], [5, 4.66, 1577.34], [4, 1.03, 7.11], [4, 3.44, 5573.14],
+    [3, 5.14, 796.3], [3, 6.05, 5507.55], [3, 1.19, 242.73], [3, 6.12, 529.69],
+    [3, 0.31, 398.15], [3, 2.28, 553.57], [2, 4.38, 5223.69], [2, 3.75, 0.98]
+  ],
+  [
+    [289, 5.844, 6283.076], [35, 0, 0], [17, 5.49, 12566.15], [3, 5.2, 155.42],
+    [1, 4.72, 3.52], [1, 5.3, 18849.23], [1, 5.97, 242.73]
+  ],
+  [[114, 3.142, 0], [8, 4.13, 6283.08], [1, 3.84, 12566.15]],
+  [[1, 3.14, 0]]
+];
+
+// Apparent geocentric longitude of the sun, in degrees, at a Julian Ephemeris Day
+const apparentSolarLongitude = (jde: number): number => {
+  const tau = (jde - J2000) / 365250;
+  const T = tau * 10;
+  let earthLongitude = 0;
+  EARTH_LONGITUDE_SERIES.forEach((terms, power) => {
+    const sum = terms.reduce((acc, [a, b, c]) => acc + a * Math.cos(b + c * tau), 0);
+    earthLongitude += sum * tau ** power;
+  });
+
+  const geometric = earthLongitude / 1e8 + Math.PI;
+  const fk5 = -0.09033 * ARCSEC;
+  const aberration = -20.4898 * ARCSEC; // At 1 AU; the distance changes it by under 0.4"
+  return normalizeDegrees((geometric + fk5 + getNutation(T).longitude + aberration) / DEG);
+};
+
+// Nutation in longitude and obliquity, in radians (Meeus 22, to 0.5")
+const getNutation = (T: number) => {
+  const omega = (125.04452 - 1934.136261 * T) * DEG;
+  const sunMean = (280.4665 + 36000.7698 * T) * DEG;
+  const moonMean = (218.3165 + 481267.8813 * T) * DEG;
+  return {
+    longitude: (-17.2 * Math.sin(omega) - 1.32 * Math.sin(2 * sunMean) - 0.23 * Math.sin(2 * moonMean) + 0.21 * Math.sin(2 * omega)) * ARCSEC,
+    obliquity: (9.2 * Math.cos(omega) + 0.57 * Math.cos(2 * sunMean) + 0.1 * Math.cos(2 * moonMean) - 0.09 * Math.cos(2 * omega)) * ARCSEC
+  };
+};
+
+const toEphemerisDay = (jd: number): number => {
+  const year = 2000 + (jd - J2000) / 365.25;
+  return jd + deltaTSeconds(year) / 86400;
+};
+
+export const getSunLongitude = (date: Date): number => apparentSolarLongitude(toEphemerisDay(dateToJulianDay(date)));
+
+// Apparent minus mean solar time, in minutes (Meeus 28); between about −14 and +16
+export const getEquationOfTime = (date: Date): number => {
+  const jde = toEphemerisDay(dateToJulianDay(date));
+  const tau = (jde - J2000) / 365250;
+  const T = tau * 10;
+  const meanLongitude = 280.4664567 + 360007.6982779 * tau + 0.03032028 * tau ** 2 + tau ** 3 / 49931 - tau ** 4 / 15300;
+  const nutation = getNutation(T);
+  const obliquity = (23.43929111 - 0.0130041667 * T) * DEG + nutation.obliquity;
+  const longitude = apparentSolarLongitude(jde) * DEG;
+  const rightAscension = Math.atan2(Math.cos(obliquity) * Math.sin(longitude), Math.cos(longitude)) / DEG;
+  const degrees = meanLongitude - 0.0057183 - rightAscension + nutation.longitude * Math.cos(obliquity) / DEG;
+  return (normalizeDegrees(degrees + 180) - 180) * 4;
+};
+
+// Local apparent (true solar) time at a longitude, east positive, as a UTC-based Date
+export const getTrueSolarTime = (date: Date, longitude: number): Date =>
+  new Date(date.getTime() + (longitude * 4 + getEquationOfTime(date)) * 60000);
+
+// Newton iteration on the longitude; the sun moves about 360° per tropical year
+const findLongitudeTime = (longitude: number, guessJd: number): Date => {
+  let jd = guessJd;
+  for (let i = 0; i < 20; i++) {
+    const diff = normalizeDegrees(longitude - apparentSolarLongitude(toEphemerisDay(jd)) + 180) - 180;
+    jd += diff * TROPICAL_YEAR_DAYS / 360;
+    if (Math.abs(diff) < 1e-7) break;
+  }
+  return julianDayToDate(jd);
+};
+
+const termAt = (index: number, time: Date): SolarTerm => ({
+  name: SOLAR_TERM_NAMES[index],
+  longitude: normalizeDegrees(285 + index * 15),
+  isJie: index % 2 === 0,
+  time
+});
+
+// Term `index` (0 = 小寒) of a Gregorian year
+export const getSolarTerm = (year: number, index: number): SolarTerm => {
+  const guess = dateToJulianDay(new Date(Date.UTC(year, 0, 6))) + index * TROPICAL_YEAR_DAYS / 24;
+  return termAt(index, findLongitudeTime(normalizeDegrees(285 + index * 15), guess));
+};
+
+export const getSolarTerms = (year: number): SolarTerm[] =>
+  SOLAR_TERM_NAMES.map((_, index) => getSolarTerm(year, index));
+
+// The 节 terms on either side of an instant; BaZi months run from one to the next
+export const findSurroundingJie = (date: Date): { previous: SolarTerm; next: SolarTerm } => {
+  const longitude = getSunLongitude(date);
+  const sinceJie = normalizeDegrees(longitude - 285) % 30;
+  const previousLongitude = normalizeDegrees(longitude - sinceJie);
+  const nextLongitude = normalizeDegrees(previousLongitude + 30);
+  const jd = dateToJulianDay(date);
+  const indexOf = (lon: number) => Math.round(normalizeDegrees(lon - 285) / 15);
+  return {
+    previous: termAt(indexOf(previousLongitude), findLongitudeTime(previousLongitude, jd - sinceJie * TROPICAL_YEAR_DAYS / 360)),
+    next: termAt(indexOf(nextLongitude), findLongitudeTime(nextLongitude, jd + (30 - sinceJie) * TROPICAL_YEAR_DAYS / 360))
+  };
+};
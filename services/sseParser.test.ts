@@ -0,0 +1,149 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { ChatStreamEvent, createChatStreamParser, createThinkTagSplitter } from './sseParser';
+import { extractDeltaReasoning, getBuiltInProvider } from './providers';
+
+// Each fixture is a stream recorded from a provider, replayed whole, in small pieces
+// and byte by byte: however the network splits it, the decoded stream must not change.
+
+const FIXTURE_DIR = path.join(__dirname, '__fixtures__', 'sse');
+
+const readFixture = (name: string) => readFileSync(path.join(FIXTURE_DIR, name), 'utf-8');
+
+interface DecodedStream {
+  content: string;
+  reasoning: string;
+  finishReasons: string[];
+  errors: { message: string; code?: number | string }[];
+  usage?: unknown;
+  done: boolean;
+}
+
+const collect = (events: ChatStreamEvent[]): DecodedStream => {
+  const result: DecodedStream = { content: '', reasoning: '', finishReasons: [], errors: [], done: false };
+  for (const event of events) {
+    switch (event.type) {
+      case 'delta':
+        result.content += event.content;
+        result.reasoning += event.reasoning;
+        break;
+      case 'usage':
+        result.usage = event.usage;
+        break;
+      case 'finish':
+        result.finishReasons.push(event.reason);
+        break;
+      case 'error':
+        result.errors.push({ message: event.message, code: event.code });
+        break;
+      case 'done':
+        result.done = true;
+        break;
+    }
+  }
+  return result;
+};
+
+const replay = (stream: string, chunkSize: number, providerId = 'openrouter'): DecodedStream => {
+  const provider = getBuiltInProvider(providerId);
+  const parser = createChatStreamParser(delta => extractDeltaReasoning(provider, delta));
+  const events: ChatStreamEvent[] = [];
+  for (let i = 0; i < stream.length; i += chunkSize) {
+    events.push(...parser.push(stream.slice(i, i + chunkSize)));
+  }
+  events.push(...parser.flush());
+  return collect(events);
+};
+
+const CHUNK_SIZES = [Infinity, 64, 7, 1];
+
+// Replays a fixture at every chunk size, with LF and CRLF line endings
+const decodeFixture = (name: string, providerId?: string): DecodedStream => {
+  const stream = readFixture(name);
+  const [first, ...rest] = [stream, stream.replace(/\n/g, '\r\n')].flatMap(variant =>
+    CHUNK_SIZES.map(size => replay(variant, size === Infinity ? variant.length : size, providerId))
+  );
+  for (const decoded of rest) expect(decoded).toEqual(first);
+  return first;
+};
+
+describe('createChatStreamParser with recorded streams', () => {
+  it('skips keep-alive comments and reads reasoning_content, usage and finish_reason', () => {
+    expect(decodeFixture('deepseek-reasoner.sse', 'deepseek')).toEqual({
+      content: '两数分别为 7 和 3。',
+      reasoning: '设两数之和为 10，差为 4。',
+      finishReasons: ['stop'],
+      errors: [],
+      usage: { prompt_tokens: 18, completion_tokens: 42, total_tokens: 60 },
+      done: true
+    });
+  });
+
+  it('reports a mid-stream {"error": ...} chunk', () => {
+    const decoded = decodeFixture('openrouter-midstream-error.sse');
+    expect(decoded.content).toBe('第一步，');
+    expect(decoded.errors).toEqual([{ message: 'Provider returned error', code: 502 }]);
+    expect(decoded.done).toBe(false);
+  });
+
+  it('reports an `event: error` event', () => {
+    expect(decodeFixture('event-error.sse')).toEqual({
+      content: '',
+      reasoning: '',
+      finishReasons: [],
+      errors: [{ message: 'Rate limit exceeded: free-models-per-min', code: 429 }],
+      done: false
+    });
+  });
+
+  it('splits <think> tags that are cut across deltas', () => {
+    const decoded = decodeFixture('think-tags-split.sse', 'vllm');
+    expect(decoded.reasoning).toBe('\n先约分，再通分。\n');
+    expect(decoded.content).toBe('\n\n答案是 5/6。');
+    expect(decoded.finishReasons).toEqual(['stop']);
+  });
+
+  it('splits <think> tags that arrive in one delta', () => {
+    const decoded = decodeFixture('think-tags-one-delta.sse', 'ollama');
+    expect(decoded.reasoning).toBe('2+2=4');
+    expect(decoded.content).toBe('答案是 4，验证完毕');
+    expect(decoded.finishReasons).toEqual(['length']);
+  });
+
+  it('ignores `data: null`, bare numbers and non-JSON data', () => {
+    expect(decodeFixture('non-object-data.sse')).toEqual({
+      content: 'ok',
+      reasoning: '',
+      finishReasons: ['stop'],
+      errors: [],
+      done: true
+    });
+  });
+});
+
+describe('createThinkTagSplitter', () => {
+  const split = (deltas: string[]) => {
+    const splitter = createThinkTagSplitter();
+    const parts = [...deltas.map(splitter.push), splitter.flush()];
+    return {
+      content: parts.map(part => part.content).join(''),
+      reasoning: parts.map(part => part.reasoning).join('')
+    };
+  };
+
+  it('treats text before a leading bare </think> as reasoning', () => {
+    expect(split(['先约分，再通分。</think>\n\n答案', '是 5/6。'])).toEqual({
+      content: '\n\n答案是 5/6。',
+      reasoning: '先约分，再通分。'
+    });
+    expect(split(['\n', '</thi', 'nk>', '答案'])).toEqual({ content: '\n答案', reasoning: '' });
+  });
+
+  it('keeps a bare </think> quoted after the answer has started', () => {
+    expect(split(['推理模型的输出', '以 </think> 结束思考部分。'])).toEqual({
+      content: '推理模型的输出以 </think> 结束思考部分。',
+      reasoning: ''
+    });
+  });
+});
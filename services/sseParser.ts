@@ -0,0 +1,311 @@
+import { TokenUsage } from '../types';
+
+// Server-Sent Events parsing for streamed chat completions, in three layers:
+// raw SSE framing, <think> tag splitting, and chat-completion chunk decoding.
+
+export interface SseEvent {
+  event: string; // 'message' unless the server sent an `event:` field
+  data: string;
+  id?: string;
+  retry?: number;
+}
+
+export interface SseParser {
+  push: (chunk: string) => SseEvent[];
+  flush: () => SseEvent[]; // Call once the body ends
+}
+
+// Follows the WHATWG event-stream rules: CR/LF/CRLF line endings, `:` comments
+// (keep-alives), multi-line `data:` joined with "\n", dispatch on a blank line.
+export const createSseParser = (): SseParser => {
+  let buffer = '';
+  let eventType = '';
+  let dataLines: string[] = [];
+  let lastEventId: string | undefined;
+  let retry: number | undefined;
+
+  const dispatch = (events: SseEvent[]) => {
+    if (dataLines.length > 0) {
+      events.push({
+        event: eventType || 'message',
+        data: dataLines.join('\n'),
+        ...(lastEventId !== undefined ? { id: lastEventId } : {}),
+        ...(retry !== undefined ? { retry } : {})
+      });
+    }
+    eventType = '';
+    dataLines = [];
+  };
+
+  const processLine = (line: string, events: SseEvent[]) => {
+    if (line === '') {
+      dispatch(events);
+      return;
+    }
+    if (line.startsWith(':')) return; // Comment / keep-alive
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'event':
+        eventType = value;
+        break;
+      case 'id':
+        if (!value.includes('\0')) lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) retry = parseInt(value, 10);
+        break;
+      default:
+        break; // Unknown fields are ignored per spec
+    }
+  };
+
+  const push = (chunk: string): SseEvent[] => {
+    const events: SseEvent[] = [];
+    buffer += chunk;
+
+    let lineStart = 0;
+    for (let i = 0; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (char !== '\n' && char !== '\r') continue;
+
+      // A trailing CR may be the first half of a CRLF split across chunks
+      if (char === '\r' && i === buffer.length - 1) break;
+
+      processLine(buffer.slice(lineStart, i), events);
+      if (char === '\r' && buffer[i + 1] === '\n') i++;
+      lineStart = i + 1;
+    }
+    buffer = buffer.slice(lineStart);
+    return events;
+  };
+
+  const flush = (): SseEvent[] => {
+    const events: SseEvent[] = [];
+    if (buffer) {
+      processLine(buffer.replace(/\r$/, ''), events);
+      buffer = '';
+    }
+    // Servers that close without a final blank line still get their last event delivered
+    dispatch(events);
+    return events;
+  };
+
+  return { push, flush };
+};
+
+const OPEN_TAG = '<think>';
+const CLOSE_TAG = '</think>';
+
+// Length of the longest suffix of `text` that could be the start of `tag`
+const partialTagLength = (text: string, tag: string): number => {
+  for (let length = Math.min(tag.length - 1, text.length); length > 0; length--) {
+    if (text.endsWith(tag.slice(0, length))) return length;
+  }
+  return 0;
+};
+
+export interface ThinkTagSplit {
+  content: string;
+  reasoning: string;
+}
+
+export interface ThinkTagSplitter {
+  push: (text: string) => ThinkTagSplit;
+  flush: () => ThinkTagSplit;
+}
+
+// Separates <think>...</think> reasoning from answer text for models that inline it
+// in `content`. Both tags may land in one delta, and either may be split across deltas,
+// so a possible partial tag at the end of a delta is held back until the next one.
+export const createThinkTagSplitter = (): ThinkTagSplitter => {
+  let isThinking = false;
+  let hasSeenTag = false;
+  let hasEmittedContent = false; // Visible answer text went out; a `</think>` after it is literal
+  let pending = '';
+
+  const push = (text: string): ThinkTagSplit => {
+    const result: ThinkTagSplit = { content: '', reasoning: '' };
+    let input = pending + text;
+    pending = '';
+
+    const emit = (value: string) => {
+      if (isThinking) {
+        result.reasoning += value;
+      } else {
+        result.content += value;
+        if (value.trim()) hasEmittedContent = true;
+      }
+    };
+
+    while (input) {
+      const openIndex = isThinking ? -1 : input.indexOf(OPEN_TAG);
+      const closeIndex = input.indexOf(CLOSE_TAG);
+
+      // Some chat templates pre-fill the opening tag, so the stream begins with a bare `</think>`.
+      // Only trusted before any answer text: later, the model is quoting the tag.
+      const isBareClose = !isThinking && !hasSeenTag && !hasEmittedContent && closeIndex !== -1
+        && (openIndex === -1 || closeIndex < openIndex);
+
+      if (isThinking && closeIndex !== -1) {
+        emit(input.slice(0, closeIndex));
+        isThinking = false;
+        input = input.slice(closeIndex + CLOSE_TAG.length);
+      } else if (isBareClose) {
+        result.reasoning += input.slice(0, closeIndex);
+        input = input.slice(closeIndex + CLOSE_TAG.length);
+      } else if (!isThinking && openIndex !== -1) {
+        emit(input.slice(0, openIndex));
+        isThinking = true;
+        input = input.slice(openIndex + OPEN_TAG.length);
+      } else {
+        const held = Math.max(
+          partialTagLength(input, CLOSE_TAG),
+          isThinking ? 0 : partialTagLength(input, OPEN_TAG)
+        );
+        emit(input.slice(0, input.length - held));
+        pending = input.slice(input.length - held);
+        break;
+      }
+      hasSeenTag = true;
+    }
+
+    return result;
+  };
+
+  const flush = (): ThinkTagSplit => {
+    const rest = pending;
+    pending = '';
+    return isThinking ? { content: '', reasoning: rest } : { content: rest, reasoning: '' };
+  };
+
+  return { push, flush };
+};
+
+export type ChatStreamEvent =
+  | { type: 'delta'; content: string; reasoning: string }
+  | { type: 'usage'; usage: TokenUsage }
+  | { type: 'finish'; reason: string }
+  | { type: 'error'; message: string; code?: number | string }
+  | { type: 'done' };
+
+export interface ChatStreamParser {
+  push: (chunk: string) => ChatStreamEvent[];
+  flush: () => ChatStreamEvent[];
+}
+
+const parseJson = (text: string): any => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+const errorMessageOf = (error: any): string => {
+  if (typeof error === 'string') return error;
+  return error?.message || error?.metadata?.raw || JSON.stringify(error);
+};
+
+// Decodes OpenAI-compatible `chat.completion.chunk` streams into typed events.
+// `extractReasoning` reads the provider-specific reasoning field from a delta.
+export const createChatStreamParser = (extractReasoning: (delta: any) => string): ChatStreamParser => {
+  const sse = createSseParser();
+  const thinkSplitter = createThinkTagSplitter();
+
+  const decodePayload = (payload: any, events: ChatStreamEvent[]) => {
+    // `data: null` or a bare number is valid JSON but not a chunk
+    if (!payload || typeof payload !== 'object') return;
+
+    // OpenRouter reports upstream failures mid-stream as a chunk with an `error` object
+    if (payload.error) {
+      events.push({ type: 'error', message: errorMessageOf(payload.error), code: payload.error.code });
+      return;
+    }
+
+    if (payload.usage) {
+      events.push({ type: 'usage', usage: payload.usage });
+    }
+
+    const choice = payload.choices?.[0];
+    const delta = choice?.delta;
+    if (delta) {
+      const explicitReasoning = extractReasoning(delta);
+      const split = typeof delta.content === 'string' && delta.content
+        ? thinkSplitter.push(delta.content)
+        : { content: '', reasoning: '' };
+      const reasoning = explicitReasoning + split.reasoning;
+
+      if (reasoning || split.content) {
+        events.push({ type: 'delta', content: split.content, reasoning });
+      }
+    }
+
+    if (choice?.finish_reason) {
+      events.push({ type: 'finish', reason: choice.finish_reason });
+    }
+  };
+
+  const decodeEvent = (event: SseEvent, events: ChatStreamEvent[]) => {
+    const data = event.data.trim();
+    if (!data) return;
+
+    if (data === '[DONE]') {
+      events.push({ type: 'done' });
+      return;
+    }
+
+    if (event.event === 'error') {
+      const payload = parseJson(data);
+      events.push({
+        type: 'error',
+        message: payload ? errorMessageOf(payload.error ?? payload) : data,
+        code: payload?.error?.code ?? payload?.code
+      });
+      return;
+    }
+
+    const payload = parseJson(data);
+    if (payload !== undefined) {
+      decodePayload(payload, events);
+      return;
+    }
+
+    // Lenient fallback for servers that put several JSON chunks in one event
+    const lines = data.split('\n');
+    if (lines.length > 1) {
+      for (const line of lines) {
+        decodeEvent({ event: event.event, data: line }, events);
+      }
+    }
+    // Anything else that isn't JSON is skipped, like an unknown SSE field
+  };
+
+  const decodeAll = (sseEvents: SseEvent[]): ChatStreamEvent[] => {
+    const events: ChatStreamEvent[] = [];
+    for (const event of sseEvents) {
+      decodeEvent(event, events);
+    }
+    return events;
+  };
+
+  const push = (chunk: string) => decodeAll(sse.push(chunk));
+
+  const flush = () => {
+    const events = decodeAll(sse.flush());
+    const rest = thinkSplitter.flush();
+    if (rest.content || rest.reasoning) {
+      events.push({ type: 'delta', ...rest });
+    }
+    return events;
+  };
+
+  return { push, flush };
+};
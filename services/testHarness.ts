@@ -0,0 +1,145 @@
+import { TestCase } from '../types';
+import { RunResult, RunStatus, RUN_STATUS_LABELS, isRunnableLanguage, runSandboxed } from './codeRunner';
+
+// Sample-case checking for coding answers: pull the solution out of an answer, run it
+// against input / expected-output pairs and explain the failures back to the model.
+
+export interface ExtractedSolution {
+  code: string;
+  language: string;
+  runnable: boolean;
+}
+
+export type DiffLine = { type: 'same' | 'expected' | 'actual'; text: string };
+
+export interface TestCaseResult {
+  caseId: string;
+  passed: boolean;
+  run: RunResult;
+  diff: DiffLine[];
+}
+
+const FENCE_PATTERN = /^(`{3,}|~{3,})[ \t]*([^\s`~]*)[^\n]*\n([\s\S]*?)\n?^\1[`~]*[ \t]*$/gm;
+const MAX_DIFF_LINES = 400;
+
+export const createTestCase = (): TestCase => ({
+  id: `case-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  input: '',
+  expected: ''
+});
+
+// The final solution is the last runnable block; answers usually show fragments or a
+// brute-force version before the full program. Falls back to the last block of any language.
+export const extractSolution = (answer: string): ExtractedSolution | null => {
+  const blocks = [...answer.matchAll(FENCE_PATTERN)].map(match => ({ language: match[2].toLowerCase(), code: match[3] }));
+  const runnable = blocks.filter(block => isRunnableLanguage(block.language));
+  if (runnable.length > 0) return { ...runnable[runnable.length - 1], runnable: true };
+  const last = blocks[blocks.length - 1];
+  return last ? { ...last, runnable: false } : null;
+};
+
+// Judges usually ignore trailing spaces and trailing blank lines
+const normalizeOutput = (text: string): string[] => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n').map(line => line.trimEnd());
+  while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+// Line diff via longest common subsequence; very long outputs are compared pairwise
+export const diffOutputLines = (expected: string[], actual: string[]): DiffLine[] => {
+  if (expected.length > MAX_DIFF_LINES || actual.length > MAX_DIFF_LINES) {
+    const diff: DiffLine[] = [];
+    for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+      if (expected[i] === actual[i]) diff.push({ type: 'same', text: expected[i] });
+      else {
+        if (i < expected.length) diff.push({ type: 'expected', text: expected[i] });
+        if (i < actual.length) diff.push({ type: 'actual', text: actual[i] });
+      }
+    }
+    return diff;
+  }
+
+  const lcs = Array.from({ length: expected.length + 1 }, () => new Array<number>(actual.length + 1).fill(0));
+  for (let i = expected.length - 1; i >= 0; i--) {
+    for (let j = actual.length - 1; j >= 0; j--) {
+      lcs[i][j] = expected[i] === actual[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const diff: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < expected.length || j < actual.length) {
+    if (i < expected.length && j < actual.length && expected[i] === actual[j]) {
+      diff.push({ type: 'same', text: expected[i] });
+      i++;
+      j++;
+    } else if (j >= actual.length || (i < expected.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      diff.push({ type: 'expected', text: expected[i++] });
+    } else {
+      diff.push({ type: 'actual', text: actual[j++] });
+    }
+  }
+  return diff;
+};
+
+// Cases run one after another so each gets the whole time limit
+export const runTestCases = async (
+  solution: ExtractedSolution,
+  cases: TestCase[],
+  timeoutMs: number,
+  onResult: (result: TestCaseResult) => void
+): Promise<TestCaseResult[]> => {
+  const results: TestCaseResult[] = [];
+  for (const testCase of cases) {
+    const run = await runSandboxed(solution.code, solution.language, { stdin: testCase.input, timeoutMs });
+    const diff = diffOutputLines(normalizeOutput(testCase.expected), normalizeOutput(run.stdout));
+    const finishedCleanly = run.status === 'ok' || (run.status === 'exit' && run.exitCode === 0);
+    const result = {
+      caseId: testCase.id,
+      passed: finishedCleanly && diff.every(line => line.type === 'same'),
+      run,
+      diff
+    };
+    results.push(result);
+    onResult(result);
+  }
+  return results;
+};
+
+const STATUS_VERDICTS: Partial<Record<RunStatus, string>> = {
+  timeout: '超时 (TLE)',
+  memory: '内存超限 (MLE)',
+  error: '运行错误 (RE)',
+  exit: '非零退出 (RE)',
+  'output-limit': '输出超限 (OLE)'
+};
+
+export const getVerdict = (result: TestCaseResult): string => {
+  if (result.passed) return '通过 (AC)';
+  const finishedCleanly = result.run.status === 'ok' || (result.run.status === 'exit' && result.run.exitCode === 0);
+  return finishedCleanly ? '答案错误 (WA)' : STATUS_VERDICTS[result.run.status] || RUN_STATUS_LABELS[result.run.status];
+};
+
+const fenced = (text: string) => `\`\`\`\n${text.replace(/\n+$/, '')}\n\`\`\``;
+
+// Follow-up prompt listing each failing case with the program's actual behavior
+export const buildFailureReport = (cases: TestCase[], results: TestCaseResult[], timeoutMs: number): string => {
+  const failures = results.filter(result => !result.passed);
+  const sections = failures.map(result => {
+    const testCase = cases.find(c => c.id === result.caseId);
+    const index = cases.findIndex(c => c.id === result.caseId) + 1;
+    const parts = [
+      `### 用例 ${index}：${getVerdict(result)}`,
+      `输入：\n${fenced(testCase?.input || '')}`,
+      `期望输出：\n${fenced(testCase?.expected || '')}`,
+      `实际输出：\n${fenced(result.run.stdout || '(无输出)')}`
+    ];
+    if (result.run.stderr.trim()) parts.push(`错误信息：\n${fenced(result.run.stderr)}`);
+    return parts.join('\n\n');
+  });
+  return [
+    `你给出的最终代码在本地测试中有 ${failures.length}/${results.length} 个样例未通过 (单个用例时限 ${timeoutMs / 1000} 秒，输出比较忽略行尾空格和末尾空行)。`,
+    ...sections,
+    '请分析失败原因，修正算法或实现，并给出完整的、可直接运行的修正后代码。'
+  ].join('\n\n');
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { Message, Role } from '../types';
+import { ContextPolicy, assembleContext, getOutputReserve, getSummaryBudget } from './tokenBudget';
+
+// 4000-token window with 1000 held for the reply: 3000 for input, of which the system
+// prompt and current prompt take FIXED. Every message costs 100, so 28 fit exactly.
+const LIMIT = 4000;
+const FIXED = 200;
+const cost = () => 100;
+const config = (policy: ContextPolicy) => ({ policy, maxOutputTokens: 1000 });
+
+// t0, t2, ... are user turns; t1, t3, ... replies
+const conversation = (count: number, pinned: number[] = []): Message[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `t${i}`,
+    parentId: i > 0 ? `t${i - 1}` : null,
+    role: i % 2 === 0 ? Role.USER : Role.MODEL,
+    text: `第 ${i} 条`,
+    timestamp: i,
+    ...(pinned.includes(i) ? { pinned: true } : {})
+  }));
+
+const ids = (messages: Message[]) => messages.map(msg => msg.id);
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => `t${from + i}`);
+
+describe('assembleContext', () => {
+  it('sends everything when the history fits exactly', () => {
+    expect(getOutputReserve(LIMIT, config('drop-oldest'))).toBe(1000);
+    const context = assembleContext(conversation(28), FIXED, LIMIT, config('drop-oldest'), cost);
+    expect(context.droppedCount).toBe(0);
+    expect(context.promptTokens).toBe(3000);
+    expect(context.maxTokens).toBe(1000);
+  });
+
+  it('drops the oldest turns first once one token over, and opens with a user turn', () => {
+    // 2799 left: the 27 newest fit, and t1 then goes because a reply cannot open the history
+    const context = assembleContext(conversation(28), FIXED + 1, LIMIT, config('drop-oldest'), cost);
+    expect(ids(context.history)).toEqual(range(2, 27));
+    expect(context.droppedCount).toBe(2);
+    expect(context.promptTokens).toBe(FIXED + 1 + 2600);
+  });
+
+  it('keeps pinned messages ahead of newer turns under keep-pinned', () => {
+    const history = conversation(30, [1]);
+    const pinned = assembleContext(history, FIXED, LIMIT, config('keep-pinned'), cost);
+    // A pinned reply may open the history
+    expect(ids(pinned.history)).toEqual(['t1', ...range(3, 29)]);
+    expect(pinned.droppedCount).toBe(2);
+
+    const dropped = assembleContext(history, FIXED, LIMIT, config('drop-oldest'), cost);
+    expect(ids(dropped.history)).toEqual(range(2, 29));
+  });
+
+  it('skips a pinned message that alone exceeds the budget', () => {
+    const history = conversation(30, [0]);
+    const context = assembleContext(history, FIXED, LIMIT, config('keep-pinned'), msg => msg.id === 't0' ? 5000 : 100);
+    expect(ids(context.history)).toEqual(range(2, 29));
+  });
+
+  describe('summarize policy', () => {
+    // 450 set aside for the summary leaves 2350: t7..t29 fit, and t7 is a reply
+    const history = conversation(30);
+    const summarize = config('summarize');
+
+    it('falls back to the excerpt and names the last turn that needs summarizing', () => {
+      expect(getSummaryBudget(LIMIT, summarize)).toBe(450);
+      const context = assembleContext(history, FIXED, LIMIT, summarize, cost);
+      expect(ids(context.history)).toEqual(range(8, 29));
+      expect(context.unsummarizedThroughId).toBe('t7');
+      expect(context.summary).toContain('节选');
+      expect(context.summary).toContain('第 7 条');
+    });
+
+    it('replaces every covered turn with a cached summary', () => {
+      const context = assembleContext(history, FIXED, LIMIT, summarize, cost, { throughId: 't11', text: '用户在问卦。' });
+      expect(ids(context.history)).toEqual(range(12, 29));
+      expect(context.droppedCount).toBe(12);
+      expect(context.summary).toContain('用户在问卦。');
+      expect(context.unsummarizedThroughId).toBeUndefined();
+    });
+
+    it('ignores a summary that stops short of the dropped turns or belongs to another branch', () => {
+      for (const throughId of ['t5', 'elsewhere']) {
+        const context = assembleContext(history, FIXED, LIMIT, summarize, cost, { throughId, text: '旧摘要' });
+        expect(context.summary).not.toContain('旧摘要');
+        expect(context.unsummarizedThroughId).toBe('t7');
+      }
+    });
+
+    it('needs no summary while everything fits', () => {
+      const context = assembleContext(conversation(28), FIXED, LIMIT, summarize, cost, { throughId: 't3', text: '旧摘要' });
+      expect(context.history).toHaveLength(28);
+      expect(context.summary).toBeUndefined();
+    });
+  });
+});
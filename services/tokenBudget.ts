@@ -0,0 +1,254 @@
+import { ContextSummary, ImageAttachment, Message, PromptContent, Role } from '../types';
+import { findCatalogContextLength, notifyCatalogChange } from './modelCatalog';
+import { getPromptParts } from './messageArtifacts';
+
+// Rough token accounting used to keep requests inside the model's context window.
+// Estimates lean high on purpose: overshooting by a little is cheaper than a 400.
+
+export type ContextPolicy = 'drop-oldest' | 'keep-pinned' | 'summarize';
+
+export interface ContextConfig {
+  policy: ContextPolicy;
+  maxOutputTokens: number;
+}
+
+export const DEFAULT_CONTEXT_CONFIG: ContextConfig = {
+  policy: 'keep-pinned',
+  maxOutputTokens: 16384
+};
+
+const CONTEXT_CONFIG_KEY = 'context_config';
+const CONTEXT_LIMIT_OVERRIDES_KEY = 'model_context_limits';
+
+export const DEFAULT_CONTEXT_LIMIT = 32768;
+
+// Checked in order; first match wins
+const KNOWN_CONTEXT_LIMITS: [RegExp, number][] = [
+  [/deepseek-v3\.2/i, 131072],
+  [/deepseek-r1/i, 163840],
+  [/deepseek/i, 131072],
+  [/claude/i, 200000],
+  [/gemini/i, 1048576],
+  [/gpt-4\.1|gpt-5/i, 400000],
+  [/gpt-4o|o1|o3|o4/i, 128000],
+  [/qwen3?-.*(235b|480b|max)/i, 131072],
+  [/qwen/i, 32768],
+  [/llama-?3/i, 131072],
+  [/mistral|mixtral/i, 32768]
+];
+
+const MESSAGE_OVERHEAD_TOKENS = 4; // Role markers and separators per message
+const MIN_OUTPUT_TOKENS = 256;
+
+export const loadContextConfig = (): ContextConfig => {
+  try {
+    const config = { ...DEFAULT_CONTEXT_CONFIG, ...JSON.parse(localStorage.getItem(CONTEXT_CONFIG_KEY) || '{}') };
+    // 'excerpt' was a stop-gap for 'summarize' and is now its fallback
+    return config.policy === 'excerpt' ? { ...config, policy: 'summarize' } : config;
+  } catch (e) {
+    return DEFAULT_CONTEXT_CONFIG;
+  }
+};
+
+export const saveContextConfig = (config: ContextConfig) => {
+  localStorage.setItem(CONTEXT_CONFIG_KEY, JSON.stringify(config));
+};
+
+const loadContextLimitOverrides = (): Record<string, number> => {
+  try {
+    return JSON.parse(localStorage.getItem(CONTEXT_LIMIT_OVERRIDES_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+export const saveContextLimitOverride = (modelId: string, limit: number | null) => {
+  const overrides = loadContextLimitOverrides();
+  if (limit) {
+    overrides[modelId] = limit;
+  } else {
+    delete overrides[modelId];
+  }
+  localStorage.setItem(CONTEXT_LIMIT_OVERRIDES_KEY, JSON.stringify(overrides));
+  notifyCatalogChange();
+};
+
+export const getContextLimit = (modelId: string): number => {
+  const override = loadContextLimitOverrides()[modelId];
+  if (override) return override;
+  const reported = findCatalogContextLength(modelId);
+  if (reported) return reported;
+  const known = KNOWN_CONTEXT_LIMITS.find(([pattern]) => pattern.test(modelId));
+  return known ? known[1] : DEFAULT_CONTEXT_LIMIT;
+};
+
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff00-\uffef\uac00-\ud7af]/g;
+const WORD_CHAR_PATTERN = /[A-Za-z0-9_]/g;
+const WHITESPACE_PATTERN = /\s/g;
+
+// BPE vocabularies used by DeepSeek/Qwen-style models average ~0.6 tokens per CJK
+// character and ~4 characters per English token; code punctuation rarely merges.
+export const estimateTokens = (text: string): number => {
+  if (!text) return 0;
+  const cjk = (text.match(CJK_PATTERN) || []).length;
+  const wordChars = (text.match(WORD_CHAR_PATTERN) || []).length;
+  const whitespace = (text.match(WHITESPACE_PATTERN) || []).length;
+  const symbols = Math.max(0, text.length - cjk - wordChars - whitespace);
+  // Whitespace mostly merges into neighbouring tokens; line breaks usually don't
+  const newlines = (text.match(/\n/g) || []).length;
+
+  return Math.ceil(cjk * 0.7 + wordChars * 0.3 + symbols * 0.6 + newlines * 0.5);
+};
+
+// OpenAI's high-detail tiling: fit in 2048², shorten the short side to 768, then 170 per
+// 512px tile plus a base of 85. Other vendors charge less, so this is an upper bound.
+export const estimateImageTokens = (image: Pick<ImageAttachment, 'width' | 'height'>): number => {
+  let { width, height } = image;
+  const fit = Math.min(1, 2048 / Math.max(width, height));
+  width *= fit;
+  height *= fit;
+  const shorten = Math.min(1, 768 / Math.min(width, height));
+  width *= shorten;
+  height *= shorten;
+  return 85 + 170 * Math.ceil(width / 512) * Math.ceil(height / 512);
+};
+
+export const estimatePromptTokens = (content: PromptContent): number =>
+  typeof content === 'string'
+    ? estimateTokens(content)
+    : content.reduce((sum, part) => sum + (part.type === 'text' ? estimateTokens(part.text) : estimateImageTokens(part.image)), 0);
+
+export const estimateMessageTokens = (msg: Message): number =>
+  (msg.role === Role.USER
+    ? estimatePromptTokens(getPromptParts(msg))
+    : estimateTokens(msg.text)) + MESSAGE_OVERHEAD_TOKENS;
+
+// Tokens held back for the reply; never more than a quarter of the window
+export const getOutputReserve = (contextLimit: number, config: ContextConfig): number =>
+  Math.max(MIN_OUTPUT_TOKENS, Math.min(config.maxOutputTokens, Math.floor(contextLimit / 4)));
+
+// Share of the input budget set aside for the summary of dropped turns ('summarize' policy)
+export const getSummaryBudget = (contextLimit: number, config: ContextConfig): number =>
+  Math.floor((contextLimit - getOutputReserve(contextLimit, config)) * 0.15);
+
+export interface AssembledContext {
+  history: Message[]; // Messages that fit, in original order
+  summary?: string; // Stands in for dropped turns ('summarize' policy), sent as a system message
+  // Last dropped message that no cached summary covers; the caller should summarize up to it
+  unsummarizedThroughId?: string;
+  droppedCount: number;
+  promptTokens: number; // Estimated tokens of everything sent
+  maxTokens: number; // Output budget left for the reply
+}
+
+const SUMMARY_HEADER = '以下是较早对话的摘要（原消息因上下文长度限制已省略）：';
+const EXCERPT_CHARS = 160;
+
+// Fallback while no summary covers the dropped turns (the summary request failed or was
+// skipped): the first EXCERPT_CHARS characters of each dropped message, newest dropped
+// first until the budget runs out, then restored to chronological order.
+const buildExcerpt = (dropped: Message[], budgetTokens: number): string | undefined => {
+  const header = '以下是较早对话的节选（每条消息只保留开头，其余因上下文长度限制已省略）：';
+  let used = estimateTokens(header);
+  const lines: string[] = [];
+
+  for (let i = dropped.length - 1; i >= 0; i--) {
+    const msg = dropped[i];
+    const flat = msg.text.replace(/\s+/g, ' ').trim();
+    if (!flat) continue;
+    const excerpt = flat.length > EXCERPT_CHARS ? `${flat.slice(0, EXCERPT_CHARS)}…` : flat;
+    const line = `- ${msg.role === Role.USER ? '用户' : '助手'}: ${excerpt}`;
+    const cost = estimateTokens(line) + 1;
+    if (used + cost > budgetTokens) break;
+    lines.unshift(line);
+    used += cost;
+  }
+
+  return lines.length > 0 ? `${header}\n${lines.join('\n')}` : undefined;
+};
+
+// Picks the history to send so that system prompt + history + current prompt + reply fit.
+// `fixedTokens` covers the system prompt and current prompt, which are always sent;
+// `messageCost` lets callers account for anything sent alongside a message's text.
+// Under 'summarize', a cached summary that reaches past every dropped turn replaces all
+// the turns it covers; otherwise the excerpt fills in and `unsummarizedThroughId` is set.
+export const assembleContext = (
+  history: Message[],
+  fixedTokens: number,
+  contextLimit: number,
+  config: ContextConfig,
+  messageCost: (msg: Message) => number = estimateMessageTokens,
+  cachedSummary?: ContextSummary
+): AssembledContext => {
+  const inputBudget = contextLimit - getOutputReserve(contextLimit, config);
+  const sumCost = (messages: Message[]) => messages.reduce((sum, msg) => sum + messageCost(msg), 0);
+  const historyTokens = sumCost(history);
+
+  const withOutputBudget = (context: Omit<AssembledContext, 'maxTokens'>): AssembledContext => ({
+    ...context,
+    maxTokens: Math.max(MIN_OUTPUT_TOKENS, Math.min(config.maxOutputTokens, contextLimit - context.promptTokens))
+  });
+
+  if (fixedTokens + historyTokens <= inputBudget) {
+    return withOutputBudget({ history, droppedCount: 0, promptTokens: fixedTokens + historyTokens });
+  }
+
+  // Leave room for the summary of dropped turns
+  const summaryBudget = config.policy === 'summarize' ? getSummaryBudget(contextLimit, config) : 0;
+  let remaining = inputBudget - fixedTokens - summaryBudget;
+
+  const keep = new Set<string>();
+  if (config.policy === 'keep-pinned') {
+    for (const msg of history) {
+      if (!msg.pinned) continue;
+      const cost = messageCost(msg);
+      if (cost > remaining) continue;
+      keep.add(msg.id);
+      remaining -= cost;
+    }
+  }
+
+  // Newest turns first until the budget is spent
+  for (let i = history.length - 1; i >= 0; i--) {
+    const msg = history[i];
+    if (keep.has(msg.id)) continue;
+    const cost = messageCost(msg);
+    if (cost > remaining) break;
+    keep.add(msg.id);
+    remaining -= cost;
+  }
+
+  // Chat APIs expect the history after the system prompt to open with a user turn
+  const openWithUser = (messages: Message[]) => {
+    let start = 0;
+    while (start < messages.length && messages[start].role !== Role.USER && !messages[start].pinned) start++;
+    return messages.slice(start);
+  };
+  let kept = openWithUser(history.filter(msg => keep.has(msg.id)));
+
+  let summary: string | undefined;
+  let unsummarizedThroughId: string | undefined;
+  if (config.policy === 'summarize') {
+    const keptIds = new Set(kept.map(msg => msg.id));
+    const lastDropped = history.reduce((last, msg, i) => keptIds.has(msg.id) ? last : i, -1);
+    const coveredThrough = cachedSummary ? history.findIndex(msg => msg.id === cachedSummary.throughId) : -1;
+    if (lastDropped >= 0 && coveredThrough >= lastDropped) {
+      summary = `${SUMMARY_HEADER}\n${cachedSummary!.text}`;
+      kept = openWithUser(history.slice(coveredThrough + 1).filter(msg => keptIds.has(msg.id)));
+    } else if (lastDropped >= 0) {
+      summary = buildExcerpt(history.filter(msg => !keptIds.has(msg.id)), summaryBudget);
+      unsummarizedThroughId = history[lastDropped].id;
+    }
+  }
+
+  const droppedCount = history.length - kept.length;
+  const promptTokens = fixedTokens + sumCost(kept) + (summary ? estimateTokens(summary) + MESSAGE_OVERHEAD_TOKENS : 0);
+
+  return withOutputBudget({
+    history: kept,
+    ...(summary ? { summary } : {}),
+    ...(unsummarizedThroughId ? { unsummarizedThroughId } : {}),
+    droppedCount,
+    promptTokens
+  });
+};
@@ -0,0 +1,96 @@
+// Wall-clock time in a named time zone (IANA, via Intl) or a fixed UTC offset.
+// Zone names matter for birth data: China observed daylight saving time 1986–1991.
+
+export interface WallTime {
+  year: number;
+  month: number; // 1–12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const OFFSET_PATTERN = /^(?:UTC|GMT)?\s*([+-])(\d{1,2})(?::?(\d{2}))?$/i;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone, hourCycle: 'h23',
+        year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric'
+      });
+    } catch (e) {
+      throw new Error(`无法识别的时区：${timeZone}`);
+    }
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  if (OFFSET_PATTERN.test(timeZone.trim())) return true;
+  try {
+    getFormatter(timeZone.trim());
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+// "YYYY-MM-DD" and "HH:mm" as typed into date and time inputs
+export const parseWallTime = (date: string, time: string): WallTime => {
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  const timeMatch = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!dateMatch || !timeMatch) throw new Error('日期或时间格式不正确。');
+  const wall = {
+    year: Number(dateMatch[1]), month: Number(dateMatch[2]), day: Number(dateMatch[3]),
+    hour: Number(timeMatch[1]), minute: Number(timeMatch[2])
+  };
+  const check = new Date(Date.UTC(wall.year, wall.month - 1, wall.day));
+  if (check.getUTCMonth() !== wall.month - 1 || check.getUTCDate() !== wall.day || wall.hour > 23 || wall.minute > 59) {
+    throw new Error('日期或时间不存在。');
+  }
+  return wall;
+};
+
+// Minutes east of UTC in effect at `utcMs`
+export const getZoneOffsetMinutes = (utcMs: number, timeZone: string): number => {
+  const fixed = OFFSET_PATTERN.exec(timeZone.trim());
+  if (fixed) return (fixed[1] === '-' ? -1 : 1) * (Number(fixed[2]) * 60 + Number(fixed[3] || 0));
+
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone.trim()).formatToParts(new Date(utcMs))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((asUtc - Math.floor(utcMs / 1000) * 1000) / 60000);
+};
+
+// Wall time → instant. Times skipped by a DST change resolve to the later offset.
+export const zonedTimeToUtc = (wall: WallTime, timeZone: string): Date => {
+  const naive = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+  const firstOffset = getZoneOffsetMinutes(naive, timeZone);
+  const secondOffset = getZoneOffsetMinutes(naive - firstOffset * 60000, timeZone);
+  return new Date(naive - secondOffset * 60000);
+};
+
+export const utcToZonedTime = (date: Date, timeZone: string): WallTime => {
+  const shifted = new Date(date.getTime() + getZoneOffsetMinutes(date.getTime(), timeZone) * 60000);
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    hour: shifted.getUTCHours(),
+    minute: shifted.getUTCMinutes()
+  };
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const formatWallTime = (wall: WallTime): string =>
+  `${wall.year}-${pad(wall.month)}-${pad(wall.day)} ${pad(wall.hour)}:${pad(wall.minute)}`;
+
+export const formatOffset = (minutes: number): string =>
+  `UTC${minutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(minutes) / 60))}:${pad(Math.abs(minutes) % 60)}`;
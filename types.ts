@@ -1,13 +1,13 @@
-
 export enum Role {
   USER = 'user',
   MODEL = 'model'
 }
 
-export type ReasoningMode = 'general' | 'math' | 'coding' | 'logic' | 'fengshui';
+export type ReasoningMode = string; // ID of a mode in the mode registry
 
 export interface Message {
   id: string;
+  parentId?: string | null; // Previous message on the same branch, null for a root
   role: Role;
   text: string;
   reasoning?: string; // For DeepSeek reasoner content
@@ -15,11 +15,32 @@ export interface Message {
   timestamp: number;
   thinkingTime?: number; // Time to first token in ms
   mode?: ReasoningMode;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  modelId?: string; // Model that wrote the answer, when it differs from the conversation's (compare and sampling runs)
+  usage?: TokenUsage;
+  finishReason?: string; // e.g. 'stop', or 'length' when the answer was cut off
+  interrupted?: boolean; // Stream failed after partial output; can be resumed
+  error?: string;
+  retryNotice?: string; // Shown while waiting to retry a failed request
+  pinned?: boolean; // Kept in context when older history has to be trimmed
+  cost?: number; // USD spent generating this answer, including resumed continuations
+  vote?: VoteSummary; // Set when the answer was picked from a self-consistency sampling run
+  artifacts?: MessageArtifact[]; // Locally computed data sent along with a prompt
+  // Typed parts of a prompt with pictures: its text, then the images. Unset for text-only
+  // messages; when set, its text part always equals `text`.
+  content?: ContentPart[];
+}
+
+export interface VoteSummary {
+  answer: string; // Final answer the sample gave
+  votes: number; // Samples that agreed with it
+  total: number; // Samples with an extractable answer
+}
+
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost?: number; // Billed USD, when the provider reports it (OpenRouter)
 }
 
 export interface ChatState {
@@ -27,3 +48,92 @@ export interface ChatState {
   isLoading: boolean;
   error: string | null;
 }
+
+// Birth data for BaZi charts; the wall-clock time is read in `timeZone`
+export interface BirthInfo {
+  date: string; // YYYY-MM-DD, Gregorian
+  time: string; // HH:mm
+  timeZone: string; // IANA name such as "Asia/Shanghai", or a UTC offset such as "+08:00"
+  gender: 'male' | 'female';
+  calendar?: 'solar' | 'lunar'; // How the date was entered; `date` is always Gregorian
+  longitude?: number; // Birthplace, degrees east; enables true solar time for the day and hour pillars
+  dayBoundary?: 'zichu' | 'midnight'; // When the day pillar changes; 'zichu' (23:00) when absent
+  place?: string; // Birthplace name, for display
+}
+
+// A Liu Yao (六爻) casting. Lines run bottom to top: 6 老阴 (moving), 7 少阳, 8 少阴, 9 老阳 (moving)
+export interface HexagramCast {
+  lines: (6 | 7 | 8 | 9)[];
+  method: 'coins' | 'manual';
+  date: string; // Casting time, YYYY-MM-DD
+  time: string; // HH:mm
+  timeZone: string;
+}
+
+// Structured data computed in the client, rendered in the message and sent to the
+// model as verified context
+export type MessageArtifact =
+  | { kind: 'bazi'; birth: BirthInfo }
+  | { kind: 'liuyao'; cast: HexagramCast };
+
+// A picture attached to a prompt, already downscaled and encoded in the browser
+export interface ImageAttachment {
+  dataUrl: string; // data:image/...;base64,...
+  mimeType: string;
+  width: number;
+  height: number;
+  name?: string;
+}
+
+// Typed pieces of a prompt, for models that take more than text
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; image: ImageAttachment };
+
+// A plain string when the prompt is text only
+export type PromptContent = string | ContentPart[];
+
+// How earlier chains of thought are sent back to the model in multi-turn history
+export interface ReasoningReplay {
+  policy: 'omit' | 'append' | 'field' | 'last-n';
+  lastTurns: number; // Used by 'last-n'
+}
+
+// Generation parameters that travel with a conversation
+export interface ConversationSettings {
+  temperature: number;
+  systemPrompt: string;
+  reasoningReplay?: ReasoningReplay;
+}
+
+// Sample input / expected output pair for checking coding answers
+export interface TestCase {
+  id: string;
+  input: string;
+  expected: string;
+}
+
+// Model-written summary of a branch from its root through `throughId`. A message ID fixes
+// the whole path above it, so the summary applies wherever that message is in the history.
+export interface ContextSummary {
+  throughId: string;
+  text: string;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  titleEdited?: boolean; // Set once the user renames it, stops auto-titling
+  messages: Message[]; // Every branch, linked through parentId
+  activeLeafId?: string | null;
+  mode: ReasoningMode;
+  providerId?: string; // Absent on conversations saved before providers were configurable
+  modelId: string;
+  settings: ConversationSettings;
+  testCases?: TestCase[];
+  extraCost?: number; // Spend on compare columns and samples that were never promoted into the tree
+  contextSummary?: ContextSummary; // Stands in for the oldest turns under the 'summarize' context policy
+  pinned?: boolean;
+  createdAt: number;
+  updatedAt: number;
+}